@@ -34,3 +34,50 @@ export * from "./src/security.ts";
 export * from "./src/runtime-config.ts";
 export * from "./src/ids.ts";
 export { partial, removeField } from "./src/sanitizer.ts";
+export {
+  type VersionedWriteOptions,
+  VersionConflictError,
+  type VersioningOptions,
+} from "./src/versioning.ts";
+export type { SoftDeleteOptions } from "./src/soft-delete.ts";
+export type { TimestampsOptions } from "./src/timestamps.ts";
+export type { HookContext, LifecycleHooks } from "./src/hooks.ts";
+export {
+  type AuditChange,
+  type AuditOptions,
+  type AuditRecord,
+  getActor,
+  withActor,
+} from "./src/audit.ts";
+export { crossTenant, getTenant, type TenantId, withTenant } from "./src/tenant.ts";
+export {
+  type DanglingReference,
+  type OnDelete,
+  type RefOptions,
+  ReferentialIntegrityError,
+} from "./src/references.ts";
+export {
+  mongoResumeTokenStore,
+  type ResumableWatcher,
+  type ResumableWatchHandler,
+  type ResumableWatchOptions,
+  type ResumeTokenDocument,
+  type ResumeTokenStore,
+  watchResumable,
+} from "./src/resumable-watch.ts";
+export {
+  createOutbox,
+  type Outbox,
+  type OutboxDispatcher,
+  type OutboxDispatcherOptions,
+  type OutboxMessage,
+  type OutboxSink,
+} from "./src/outbox.ts";
+export {
+  type ModelElement,
+  type ModelFindOptions,
+  type ModelQuery,
+  modelQuery,
+  type ModelQueryOptions,
+} from "./src/model-query.ts";
+export { where, type WhereBuilder } from "./src/where.ts";
@@ -0,0 +1,209 @@
+/**
+ * @fileoverview Type-level tracking of aggregation pipelines
+ *
+ * Stage builders return `TypedStage` values: plain aggregation stages that
+ * carry, at the type level only, the effect they have on the documents
+ * flowing through the pipeline. `PipelineOutput` folds those effects over
+ * the input document type to compute the shape of the aggregation result.
+ *
+ * Only the common reshaping stages are tracked precisely ($match, $project,
+ * $addFields, $group, $unwind, $lookup). Anything else degrades to
+ * `m.Document` rather than lying about the output.
+ *
+ * @module
+ */
+
+import type * as m from "mongodb";
+import type { FlatType } from "../types/flat.ts";
+
+/**
+ * Raw aggregation pipeline stage
+ */
+export type AggregationStage = Record<string, unknown>;
+
+declare const stageEffect: unique symbol;
+
+/**
+ * Type-level description of what a stage does to the documents
+ */
+export type StageEffect =
+  | { kind: "keep" }
+  | { kind: "narrow"; match: unknown }
+  | { kind: "replace"; output: unknown }
+  | { kind: "project"; spec: Record<string, unknown> }
+  | { kind: "addFields"; fields: Record<string, unknown> }
+  | { kind: "group"; spec: Record<string, unknown> }
+  | { kind: "unwind"; field: string }
+  | { kind: "lookup"; as: string; joined: unknown }
+  | { kind: "unknown" };
+
+/**
+ * Aggregation stage tagged with its effect on the document type.
+ * The tag only exists at the type level; at runtime this is a plain stage.
+ */
+export type TypedStage<E extends StageEffect = StageEffect> =
+  & AggregationStage
+  & { readonly [stageEffect]?: E };
+
+type Simplify<T> = { [K in keyof T]: T[K] };
+
+type StripDollar<S> = S extends `$${infer F}` ? F : S;
+
+/**
+ * Resolves a field path ("a" or "a.b") against a document type
+ */
+type FieldType<In, F extends string> = F extends keyof In ? In[F]
+  : FlatType<In> extends infer Flat
+    ? F extends keyof Flat ? Flat[F] : unknown
+  : unknown;
+
+type NumericOperator =
+  | "$add"
+  | "$subtract"
+  | "$multiply"
+  | "$divide"
+  | "$mod"
+  | "$size"
+  | "$strLenCP"
+  | "$toInt"
+  | "$toDouble"
+  | "$toLong"
+  | "$abs"
+  | "$round"
+  | "$floor"
+  | "$ceil";
+
+type StringOperator =
+  | "$concat"
+  | "$toString"
+  | "$toLower"
+  | "$toUpper"
+  | "$substr"
+  | "$substrCP"
+  | "$trim"
+  | "$dateToString";
+
+type BooleanOperator =
+  | "$eq"
+  | "$ne"
+  | "$gt"
+  | "$gte"
+  | "$lt"
+  | "$lte"
+  | "$and"
+  | "$or"
+  | "$not"
+  | "$in";
+
+/**
+ * Resolves an aggregation expression to the type it evaluates to
+ */
+export type ExpressionType<In, E> = E extends `$$${string}` ? unknown
+  : E extends `$${infer F}` ? FieldType<In, F>
+  : E extends string | number | boolean | null ? E
+  : E extends readonly unknown[] ? unknown[]
+  : E extends Record<string, unknown>
+    ? keyof E extends infer K
+      ? K extends NumericOperator ? number
+      : K extends StringOperator ? string
+      : K extends BooleanOperator ? boolean
+      : K extends `$${string}` ? unknown
+      : { -readonly [P in keyof E]: ExpressionType<In, E[P]> }
+    : never
+  : unknown;
+
+/**
+ * Resolves a $group accumulator to the type it produces
+ */
+type AccumulatorType<In, A> = A extends { $sum: unknown } ? number
+  : A extends { $avg: unknown } ? number | null
+  : A extends { $count: unknown } ? number
+  : A extends { $first: infer X } ? ExpressionType<In, X>
+  : A extends { $last: infer X } ? ExpressionType<In, X>
+  : A extends { $min: infer X } ? ExpressionType<In, X>
+  : A extends { $max: infer X } ? ExpressionType<In, X>
+  : A extends { $push: infer X } ? ExpressionType<In, X>[]
+  : A extends { $addToSet: infer X } ? ExpressionType<In, X>[]
+  : unknown;
+
+type Excluded<P> = {
+  [K in keyof P]: P[K] extends 0 | false ? K : never;
+}[keyof P];
+
+type Included<P> = {
+  [K in keyof P]: P[K] extends 0 | false ? never : K;
+}[keyof P];
+
+type ProjectOutput<In, P> = Exclude<Excluded<P>, "_id"> extends never
+  // Inclusion projection (only `_id` may be excluded)
+  ? Simplify<
+    & {
+      -readonly [K in Exclude<Included<P>, "_id">]: P[K] extends 1 | true
+        ? FieldType<In, K & string>
+        : ExpressionType<In, P[K]>;
+    }
+    & ("_id" extends Excluded<P> ? unknown
+      : "_id" extends keyof In ? { _id: In["_id"] }
+      : unknown)
+  >
+  // Exclusion projection
+  : Simplify<Omit<In, Excluded<P>>>;
+
+type AddFieldsOutput<In, F> = Simplify<
+  & Omit<In, keyof F>
+  & { -readonly [K in keyof F]: ExpressionType<In, F[K]> }
+>;
+
+type GroupOutput<In, G> = Simplify<
+  & { _id: "_id" extends keyof G ? ExpressionType<In, G["_id"]> : unknown }
+  & { -readonly [K in Exclude<keyof G, "_id">]: AccumulatorType<In, G[K]> }
+>;
+
+type UnwindOutput<In, F extends string> = StripDollar<F> extends infer Field
+  ? Field extends keyof In ? Simplify<
+      & Omit<In, Field>
+      & { [K in Field]: In[K] extends readonly (infer U)[] ? U : In[K] }
+    >
+  : In
+  : In;
+
+/**
+ * Members of a union matching a filter, or the whole type when none does
+ * (e.g. after a stage dropped the discriminant)
+ */
+type NarrowOutput<In, M> = [Extract<In, M>] extends [never] ? In
+  : Extract<In, M>;
+
+/**
+ * Applies a single stage effect to a document type. Stages working on each
+ * document on its own are applied to every member of a union input.
+ */
+export type ApplyStage<In, E> = E extends { kind: "keep" } ? In
+  : E extends { kind: "narrow"; match: infer M } ? NarrowOutput<In, M>
+  : E extends { kind: "replace"; output: infer O } ? O
+  : E extends { kind: "group"; spec: infer G } ? GroupOutput<In, G>
+  : In extends unknown ? ApplyDocumentStage<In, E>
+  : never;
+
+type ApplyDocumentStage<In, E> = E extends
+  { kind: "project"; spec: infer P } ? ProjectOutput<In, P>
+  : E extends { kind: "addFields"; fields: infer F } ? AddFieldsOutput<In, F>
+  : E extends { kind: "unwind"; field: infer F extends string }
+    ? UnwindOutput<In, F>
+  : E extends { kind: "lookup"; as: infer A extends string; joined: infer J }
+    ? Simplify<Omit<In, A> & { [K in A]: J[] }>
+  : m.Document;
+
+type EffectOf<S> = S extends { readonly [stageEffect]?: infer E }
+  ? [E] extends [undefined] ? { kind: "unknown" } : Exclude<E, undefined>
+  : { kind: "unknown" };
+
+/**
+ * Computes the output document type of a pipeline of typed stages.
+ * Pipelines that are not inferred as tuples degrade to `m.Document`.
+ */
+export type PipelineOutput<In, Stages extends readonly unknown[]> =
+  Stages extends readonly [infer Head, ...infer Rest]
+    ? PipelineOutput<ApplyStage<In, EffectOf<Head>>, Rest>
+    : Stages extends readonly [] ? In
+    : m.Document;
@@ -0,0 +1,313 @@
+/**
+ * @fileoverview Audit trail of the writes made through collections
+ *
+ * When audit is enabled on a collection, every insert, update and delete
+ * appends one record per changed document to an audit collection, with a
+ * field-level diff and the actor set with `withActor`. Records are written
+ * with the session of the operation, so they are committed or rolled back
+ * with it.
+ *
+ * Auditing is built on the lifecycle hooks: the documents targeted by an
+ * update or delete are read before and after the write to compute the diff.
+ * Writes bypassing the hooks (`bulkWrite`, `restore`, `purgeDeleted`,
+ * multi-collection `deleteAny`) read the documents they may change the same
+ * way. Single document writes are first resolved to the `_id` of the
+ * document they change, so that the diff is computed on that document.
+ *
+ * @module
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import type * as m from "mongodb";
+import type { Db } from "./mongodb.ts";
+import type { HookContext, HookRegistry, HookTarget, LifecycleHooks } from "./hooks.ts";
+import { dirtyEquivalent, isPlainObject } from "./utils/object.ts";
+
+/**
+ * Audit configuration of a collection
+ */
+export type AuditOptions = {
+  /** Name of the collection receiving the audit records, e.g. `"audit_log"` */
+  collection: string;
+};
+
+/**
+ * Value of a field before and after a write, missing when the field did not exist
+ */
+export type AuditChange = {
+  /** Dot notation path of the field, e.g. `"address.city"` */
+  field: string;
+  before?: unknown;
+  after?: unknown;
+};
+
+/**
+ * Record appended to the audit collection for every changed document
+ */
+export type AuditRecord = {
+  operation: "insert" | "update" | "delete";
+  /** Name of the collection the document belongs to */
+  collection: string;
+  /** Element type, for multi-collections */
+  _type?: string;
+  documentId: unknown;
+  changes: AuditChange[];
+  timestamp: Date;
+  /** Actor set with `withActor`, null outside of it */
+  actor: unknown;
+};
+
+const asyncActor = new AsyncLocalStorage<unknown>();
+
+/**
+ * Run a function with the actor recorded by the audit trail for every write
+ * made inside it
+ *
+ * @example
+ * ```typescript
+ * app.use(async (req, next) => {
+ *   await withActor({ userId: req.user.id }, () => next());
+ * });
+ * ```
+ */
+export function withActor<T>(actor: unknown, fn: () => Promise<T>): Promise<T> {
+  return asyncActor.run(actor, fn);
+}
+
+/**
+ * Get the actor of the current async context, null if none is set
+ */
+export function getActor(): unknown {
+  return asyncActor.getStore() ?? null;
+}
+
+/**
+ * Flatten a document to its leaf values by dot notation path.
+ * Arrays, dates and other non plain values are leaves.
+ */
+function flattenDocument(
+  doc: Record<string, unknown>,
+  prefix = "",
+  flat: Record<string, unknown> = {},
+): Record<string, unknown> {
+  for (const [key, value] of Object.entries(doc)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(value) && Object.keys(value).length > 0) {
+      flattenDocument(value, path, flat);
+    } else {
+      flat[path] = value;
+    }
+  }
+  return flat;
+}
+
+/**
+ * Field-level diff between two versions of a document, `_id` excluded
+ */
+export function diffDocuments(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null,
+): AuditChange[] {
+  const flatBefore = flattenDocument(before ?? {});
+  const flatAfter = flattenDocument(after ?? {});
+  const changes: AuditChange[] = [];
+
+  for (const field of new Set([...Object.keys(flatBefore), ...Object.keys(flatAfter)])) {
+    if (field === "_id") continue;
+
+    const change: AuditChange = { field };
+    if (field in flatBefore) change.before = flatBefore[field];
+    if (field in flatAfter) change.after = flatAfter[field];
+    if (!("before" in change && "after" in change && dirtyEquivalent(change.before, change.after))) {
+      changes.push(change);
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Audit trail of a collection
+ * @internal
+ */
+export type AuditTrail = {
+  /**
+   * Read the documents a write is about to change
+   *
+   * @param filter - Documents targeted by the write, fully scoped
+   * @param multi - Whether the write may change several documents
+   */
+  snapshot(
+    filter: m.Filter<m.Document>,
+    multi: boolean,
+    session: m.ClientSession | undefined,
+  ): Promise<m.Document[]>;
+  /**
+   * Record the changes made by a write to the documents read before it and
+   * to the documents it created
+   */
+  record(
+    before: m.Document[],
+    createdIds: unknown[],
+    session: m.ClientSession | undefined,
+  ): Promise<void>;
+  /**
+   * Run a write bypassing the lifecycle hooks (`bulkWrite`, `restore`...)
+   * and record its changes
+   *
+   * @param filter - Documents the write may change, null if it only inserts
+   * @param createdIds - IDs of the documents inserted or upserted by the write
+   */
+  track<R>(
+    filter: m.Filter<m.Document> | null,
+    session: m.ClientSession | undefined,
+    write: () => Promise<R>,
+    createdIds?: (result: R) => unknown[],
+  ): Promise<R>;
+};
+
+/**
+ * Create the audit trail of a collection
+ *
+ * @param params.softDeleteField - Field of the deletion date, so that soft
+ * deletes are recorded as deletes
+ * @param params.typed - Whether documents are elements of a multi-collection,
+ * recorded with their `_type`
+ * @internal
+ */
+export function createAuditTrail(params: {
+  db: Db;
+  options: AuditOptions;
+  collectionName: string;
+  source: m.Collection<m.Document>;
+  softDeleteField?: string;
+  typed?: boolean;
+}): AuditTrail {
+  const { db, options, collectionName, source, softDeleteField, typed } = params;
+  const audit = db.collection<AuditRecord>(options.collection);
+
+  function operationOf(previous: m.Document | null, next: m.Document | null): AuditRecord["operation"] {
+    if (!previous) return "insert";
+    if (!next) return "delete";
+    if (softDeleteField && previous[softDeleteField] == null && next[softDeleteField] != null) {
+      return "delete";
+    }
+    return "update";
+  }
+
+  async function snapshot(
+    filter: m.Filter<m.Document>,
+    multi: boolean,
+    session: m.ClientSession | undefined,
+  ) {
+    return await source.find(filter, { session, limit: multi ? 0 : 1 }).toArray();
+  }
+
+  async function record(
+    before: m.Document[],
+    createdIds: unknown[],
+    session: m.ClientSession | undefined,
+  ) {
+    const ids = [...before.map((doc) => doc._id), ...createdIds];
+    if (ids.length === 0) return;
+    const after = await source.find({ _id: { $in: ids } }, { session }).toArray();
+
+    const beforeById = new Map(before.map((doc) => [String(doc._id), doc]));
+    const afterById = new Map(after.map((doc) => [String(doc._id), doc]));
+    const timestamp = new Date();
+    const actor = getActor();
+    const records: AuditRecord[] = [];
+    for (const id of new Set([...beforeById.keys(), ...afterById.keys()])) {
+      const previous = beforeById.get(id) ?? null;
+      const next = afterById.get(id) ?? null;
+      const changes = diffDocuments(previous, next);
+      if (changes.length === 0) continue;
+
+      const document = (previous ?? next)!;
+      records.push({
+        operation: operationOf(previous, next),
+        collection: collectionName,
+        ...(typed ? { _type: document._type } : {}),
+        documentId: document._id,
+        changes,
+        timestamp,
+        actor,
+      });
+    }
+
+    if (records.length > 0) {
+      await audit.insertMany(records, { session });
+    }
+  }
+
+  async function track<R>(
+    filter: m.Filter<m.Document> | null,
+    session: m.ClientSession | undefined,
+    write: () => Promise<R>,
+    createdIds?: (result: R) => unknown[],
+  ) {
+    const before = filter ? await snapshot(filter, true, session) : [];
+    const result = await write();
+    await record(before, createdIds?.(result) ?? [], session);
+    return result;
+  }
+
+  return { snapshot, record, track };
+}
+
+/**
+ * Register the hooks writing the audit trail of a collection
+ *
+ * Single document writes must target the document they change by `_id`, as
+ * only the first document matching their filter is read.
+ *
+ * @param hooks - Hook registry of the collection (or of an element type)
+ * @param trail - Audit trail of the collection
+ * @param scope - Restrict a hook filter to the documents the operation
+ * actually writes (element type, soft-deleted documents...)
+ * @internal
+ */
+export function registerAuditHooks(
+  hooks: ReturnType<typeof HookRegistry<LifecycleHooks<m.Document>>>,
+  trail: AuditTrail,
+  scope: (filter: m.Filter<m.Document>, operation: "update" | "delete") => m.Filter<m.Document>,
+): void {
+  // Documents read before a write, by operation context then filter
+  const snapshots = new WeakMap<HookContext, Map<unknown, m.Document[]>>();
+
+  async function snapshot(
+    event: HookTarget<m.Document>,
+    operation: "update" | "delete",
+    context: HookContext,
+  ) {
+    const documents = await trail.snapshot(scope(event.filter, operation), event.multi, context.session);
+
+    if (!snapshots.has(context)) snapshots.set(context, new Map());
+    snapshots.get(context)!.set(event.filter, documents);
+  }
+
+  async function record(
+    event: HookTarget<m.Document>,
+    operation: "update" | "delete",
+    context: HookContext,
+  ) {
+    const before = snapshots.get(context)?.get(event.filter) ?? [];
+    snapshots.get(context)?.delete(event.filter);
+
+    let createdIds: unknown[] = [];
+    if (before.length === 0 && operation === "update") {
+      // Nothing matched before the write: an upsert may have inserted the document
+      const upserted = await trail.snapshot(scope(event.filter, operation), false, context.session);
+      createdIds = upserted.map((doc) => doc._id);
+    }
+    await trail.record(before, createdIds, context.session);
+  }
+
+  hooks.hook("afterInsert", async ({ document }, context) => {
+    await trail.record([], [document._id], context.session);
+  });
+  hooks.hook("beforeUpdate", (event, context) => snapshot(event, "update", context));
+  hooks.hook("afterUpdate", (event, context) => record(event, "update", context));
+  hooks.hook("beforeDelete", (event, context) => snapshot(event, "delete", context));
+  hooks.hook("afterDelete", (event, context) => record(event, "delete", context));
+}
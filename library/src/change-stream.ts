@@ -1,4 +1,13 @@
 import type * as m from "mongodb";
+import { BSON } from "mongodb";
+import { createLogger } from "./utils/logger.ts";
+
+const log = createLogger("change-stream");
+
+/**
+ * Delay before reopening a change stream that failed
+ */
+const REOPEN_DELAY = 1000;
 
 /**
  * Type for change event callback to avoid 'any' usage
@@ -145,6 +154,209 @@ export function watchEvent<TSchema extends m.Document = m.Document>(
   };
 }
 
+/**
+ * Change stream reopened after errors
+ * @internal
+ */
+type ReopeningStream = {
+  close(): Promise<void>;
+};
+
+/**
+ * Opens a change stream on a collection that is reopened after an error,
+ * resuming after the last event received. The error is logged: without an
+ * error listener, it would crash the process.
+ *
+ * @param collection - The MongoDB collection to watch for changes
+ * @param pipeline - Change stream pipeline
+ * @param options - Change stream options
+ * @param callback - The callback function to execute when changes occur
+ * @param label - Name of the watcher in the logs
+ * @internal
+ */
+function openReopeningStream<TSchema extends m.Document>(
+  collection: m.Collection<TSchema>,
+  pipeline: m.Document[],
+  options: m.ChangeStreamOptions,
+  callback: ChangeEventCallback,
+  label: string,
+): ReopeningStream {
+  let closed = false;
+  let reopenTimer: ReturnType<typeof setTimeout> | undefined;
+
+  function open(resumeToken?: m.ResumeToken): m.ChangeStream<m.BSON.Document> {
+    const stream = collection.watch(
+      pipeline,
+      resumeToken ? { ...options, startAfter: resumeToken } : options,
+    ) as unknown as m.ChangeStream<m.BSON.Document>;
+    stream.on("change", callback);
+    stream.on("error", (error) => {
+      log.warn(`${label}: change stream error, reopening`, error);
+      stream.close().catch(() => {});
+      if (closed) return;
+
+      reopenTimer = setTimeout(() => {
+        reopenTimer = undefined;
+        changeStream = open(stream.resumeToken ?? resumeToken);
+      }, REOPEN_DELAY);
+    });
+    return stream;
+  }
+
+  let changeStream = open();
+
+  return {
+    close() {
+      closed = true;
+      clearTimeout(reopenTimer);
+      return changeStream.close();
+    },
+  };
+}
+
+/**
+ * Opens a change stream on a collection, filtered server-side by a pipeline,
+ * and forwards its events to a callback.
+ *
+ * Unlike `watchEvent`, the stream is not shared with other watchers: use it
+ * when the events of interest can be selected with a `$match` stage, so
+ * the others are never sent to the client. Stream errors are logged and the
+ * stream is reopened.
+ *
+ * @param collection - The MongoDB collection to watch for changes
+ * @param pipeline - Change stream pipeline, e.g. a `$match` on the events
+ * @param callback - The callback function to execute when changes occur
+ * @returns A function closing the change stream
+ */
+export function watchCollection<TSchema extends m.Document = m.Document>(
+  collection: m.Collection<TSchema>,
+  pipeline: m.Document[],
+  callback: ChangeEventCallback,
+): () => Promise<void> {
+  const stream = openReopeningStream(collection, pipeline, {}, callback, `watchCollection(${collection.collectionName})`);
+
+  return () => stream.close();
+}
+
+/**
+ * Change stream shared by the listeners of an identical pipeline
+ * @internal
+ */
+type SharedStream = {
+  collectionName: string;
+  stream: ReopeningStream;
+  listeners: Set<ChangeEventCallback>;
+};
+
+/**
+ * Shared change streams of every database, indexed by namespace, pipeline and options
+ * @internal
+ */
+const sharedStreams = new WeakMap<m.Db, Map<string, SharedStream>>();
+
+/**
+ * Serializes a pipeline into a sharing key. Canonical extended JSON keeps
+ * the BSON types that JSON loses: an ObjectId doesn't share the key of its
+ * hex string, nor a Date of its ISO string, and regular expressions are kept.
+ */
+function pipelineKey(value: unknown): string {
+  return BSON.EJSON.stringify(value, { relaxed: false });
+}
+
+/**
+ * Prefixes the fields of a collection filter with `fullDocument.` so that it
+ * applies to the documents of change events.
+ *
+ * Only field conditions and the `$and`, `$or` and `$nor` operators can be
+ * translated: other top-level operators (`$expr`, `$text`...) throw.
+ *
+ * @param filter - Filter on the collection documents
+ * @returns The equivalent filter on the change events
+ */
+export function fullDocumentFilter(filter: m.Document): m.Document {
+  const result: m.Document = {};
+  for (const [key, value] of Object.entries(filter)) {
+    if (key === "$and" || key === "$or" || key === "$nor") {
+      result[key] = (value as m.Document[]).map(fullDocumentFilter);
+    } else if (key.startsWith("$")) {
+      throw new Error(`Operator ${key} is not supported in change stream filters`);
+    } else {
+      result[`fullDocument.${key}`] = value;
+    }
+  }
+  return result;
+}
+
+/**
+ * Opens a change stream on a collection, filtered server-side by a pipeline,
+ * shared by every listener of the same collection, pipeline and options.
+ *
+ * The stream is opened by the first listener and closed with the last one.
+ *
+ * @param db - The MongoDB database of the collection
+ * @param collection - The MongoDB collection to watch for changes
+ * @param pipeline - Change stream pipeline, e.g. `$match` and `$project` stages
+ * @param options - Change stream options, e.g. `fullDocument`
+ * @param callback - The callback function to execute when changes occur
+ * @returns A cleanup function that removes the registered callback when called
+ */
+export function watchShared<TSchema extends m.Document = m.Document>(
+  db: m.Db,
+  collection: m.Collection<TSchema>,
+  pipeline: m.Document[],
+  options: m.ChangeStreamOptions,
+  callback: ChangeEventCallback,
+): () => void {
+  let streams = sharedStreams.get(db);
+  if (!streams) {
+    streams = new Map();
+    sharedStreams.set(db, streams);
+  }
+
+  const key = pipelineKey([collection.collectionName, pipeline, options]);
+  let shared = streams.get(key);
+  if (!shared) {
+    const listeners = new Set<ChangeEventCallback>();
+    const stream = openReopeningStream(collection, pipeline, options, (change) => {
+      for (const listener of listeners) {
+        listener(change);
+      }
+    }, `watchShared(${collection.collectionName})`);
+    shared = { collectionName: collection.collectionName, stream, listeners };
+    streams.set(key, shared);
+  }
+  shared.listeners.add(callback);
+
+  return () => {
+    const current = sharedStreams.get(db)?.get(key);
+    if (!current) return;
+
+    current.listeners.delete(callback);
+    if (current.listeners.size === 0) {
+      // A stream failing to close is closed anyway
+      current.stream.close().catch(() => {});
+      sharedStreams.get(db)?.delete(key);
+    }
+  };
+}
+
+/**
+ * Closes the shared change streams of a collection, e.g. before dropping it
+ *
+ * @param db - The MongoDB database of the collection
+ * @param collectionName - Name of the collection
+ */
+export async function closeCollectionWatchers(db: m.Db, collectionName: string): Promise<void> {
+  const streams = sharedStreams.get(db);
+  if (!streams) return;
+
+  const closing = [...streams].filter(([, shared]) => shared.collectionName === collectionName);
+  for (const [key] of closing) {
+    streams.delete(key);
+  }
+  await Promise.all(closing.map(([, { stream }]) => stream.close()));
+}
+
 /**
  * Closes all change streams for a given database and cleans up resources
  * This should be called when closing or dropping a database to prevent resource leaks
@@ -159,4 +371,10 @@ export async function closeAllWatchers(db: m.Db): Promise<void> {
     // Give the change stream time to fully close and release resources
     await new Promise(resolve => setTimeout(resolve, 100));
   }
+
+  const streams = sharedStreams.get(db);
+  if (streams) {
+    await Promise.all([...streams.values()].map(({ stream }) => stream.close()));
+    sharedStreams.delete(db);
+  }
 }
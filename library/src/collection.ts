@@ -2,70 +2,197 @@ import * as v from "./schema.ts";
 import { toMongoValidator } from "./validator.ts";
 import { sanitizeForMongoDB, extractFieldsToRemove, REMOVE_FIELD } from "./sanitizer.ts";
 import { EventEmitter } from "./events.ts";
-import { watchEvent } from "./change-stream.ts";
+import {
+  foundCounts,
+  type HookContext,
+  HookRegistry,
+  type LifecycleHooks,
+  updateCounts,
+} from "./hooks.ts";
+import { fullDocumentFilter, watchEvent, watchShared } from "./change-stream.ts";
 import { getSessionContext } from "./session.ts";
-import { dirtyEquivalent } from "./utils/object.ts";
+import { dirtyEquivalent, isPlainObject } from "./utils/object.ts";
 import { mongoOperationQueue } from "./operation.ts";
 import { applyCollectionIndexes } from "./indexes-applier.ts";
 import { retryOnWriteConflict } from "./utils/retry.ts";
 import { isSchemaManaged } from "./runtime-config.ts";
-import { getNestedValue } from "./dot-notation.ts";
+import {
+  createDotNotationSchema,
+  deleteNestedValue,
+  getNestedValue,
+  setNestedValue,
+} from "./dot-notation.ts";
+import type {
+  AggregationStage,
+  PipelineOutput,
+  TypedStage,
+} from "./aggregation.ts";
+import {
+  VersionConflictError,
+  type VersionedWriteOptions,
+  type VersioningOptions,
+  nextVersionExpression,
+  versionSchemaEntry,
+  withExpectedVersion,
+  withUpsertedVersion,
+  type WithVersionField,
+  withVersionIncrement,
+} from "./versioning.ts";
+import {
+  onlyDeleted,
+  restoreUpdate,
+  type SoftDeleteOptions,
+  softDeleteSchemaEntry,
+  softDeleteUpdate,
+  type WithSoftDeleteField,
+  withoutDeleted,
+} from "./soft-delete.ts";
+import {
+  replacedTimestamps,
+  resolveTimestampFields,
+  type TimestampsOptions,
+  timestampSchemaEntries,
+  type WithTimestampFields,
+  withInsertTimestamps,
+  withUpdateTimestamps,
+} from "./timestamps.ts";
+import { replacementPipeline } from "./utils/update.ts";
+import { type AuditOptions, createAuditTrail, registerAuditHooks } from "./audit.ts";
+import { tenantSchemaEntry, tenantScopedCollection, type WithTenantField } from "./tenant.ts";
+import { createLogger } from "./utils/logger.ts";
+import { where, type WhereBuilder } from "./where.ts";
+import { createFilterValidator } from "./filter-validation.ts";
 import type { Db } from "./mongodb.ts";
 import type * as m from "mongodb";
 
-// Type for aggregation pipeline stages in simple collections
-type AggregationStage = Record<string, unknown>;
+const log = createLogger("collection");
+
+/**
+ * Options accepted by lookup stages
+ */
+type LookupOptions<A extends string> = {
+  as?: A;
+  pipeline?: AggregationStage[];
+  let?: Record<string, unknown>;
+};
 
 /**
  * Stage builder for simple collections (not multi-collection)
- * Provides helpers for building aggregation pipeline stages
+ * Provides helpers for building aggregation pipeline stages.
+ * Each helper returns a `TypedStage` so `aggregate()` can track the shape
+ * of the documents through the pipeline.
+ * @template TDoc - Document type stored in the collection
  */
-type SimpleStageBuilder = {
+type SimpleStageBuilder<TDoc = m.Document> = {
   /** Match documents by filter */
-  match: (filter: Record<string, unknown>) => AggregationStage;
+  match: (filter: Record<string, unknown>) => TypedStage<{ kind: "keep" }>;
   /** Unwind an array field */
-  unwind: (field: string) => AggregationStage;
+  unwind: <const F extends string>(
+    field: F,
+  ) => TypedStage<{ kind: "unwind"; field: F }>;
   /** 
    * Lookup into the same collection 
    * Useful for self-referential documents
    */
-  lookup: (
-    localField: string,
+  lookup: <const L extends string, const A extends string = L>(
+    localField: L,
     foreignField: string,
-    asOrOptions?: string | {
-      as?: string;
-      pipeline?: AggregationStage[];
-      let?: Record<string, unknown>;
-    },
-  ) => AggregationStage;
+    asOrOptions?: A | LookupOptions<A>,
+  ) => TypedStage<{ kind: "lookup"; as: A; joined: TDoc }>;
   /**
    * Lookup into an external collection
    * Useful for joining with other MongoDB collections
    */
-  externalLookup: (
+  externalLookup: <const L extends string, const A extends string = L>(
     fromCollection: string,
-    localField: string,
+    localField: L,
     foreignField: string,
-    asOrOptions?: string | {
-      as?: string;
-      pipeline?: AggregationStage[];
-      let?: Record<string, unknown>;
-    },
-  ) => AggregationStage;
+    asOrOptions?: A | LookupOptions<A>,
+  ) => TypedStage<{ kind: "lookup"; as: A; joined: m.Document }>;
   /** Project specific fields */
-  project: (projection: Record<string, 1 | 0 | string | Record<string, unknown>>) => AggregationStage;
+  project: <
+    const P extends Record<string, 1 | 0 | string | Record<string, unknown>>,
+  >(projection: P) => TypedStage<{ kind: "project"; spec: P }>;
   /** Add computed fields */
-  addFields: (fields: Record<string, unknown>) => AggregationStage;
+  addFields: <const F extends Record<string, unknown>>(
+    fields: F,
+  ) => TypedStage<{ kind: "addFields"; fields: F }>;
   /** Group documents */
-  group: (grouping: Record<string, unknown>) => AggregationStage;
+  group: <const G extends Record<string, unknown>>(
+    grouping: G,
+  ) => TypedStage<{ kind: "group"; spec: G }>;
   /** Sort documents */
-  sort: (sort: Record<string, 1 | -1>) => AggregationStage;
+  sort: (sort: Record<string, 1 | -1>) => TypedStage<{ kind: "keep" }>;
   /** Limit number of documents */
-  limit: (limit: number) => AggregationStage;
+  limit: (limit: number) => TypedStage<{ kind: "keep" }>;
   /** Skip documents */
-  skip: (skip: number) => AggregationStage;
+  skip: (skip: number) => TypedStage<{ kind: "keep" }>;
 };
 
+/**
+ * Creates the stage builder bound to a simple collection
+ */
+function createSimpleStageBuilder<TDoc>(
+  collectionName: string,
+): SimpleStageBuilder<TDoc> {
+  return {
+    match: (matchFilter) => ({ $match: matchFilter }),
+    unwind: (field) => ({ $unwind: field.startsWith('$') ? field : `$${field}` }),
+    lookup: (localField, foreignField, asOrOptions) => {
+      const baseAs = typeof asOrOptions === 'string' ? asOrOptions : asOrOptions?.as ?? localField;
+      if (typeof asOrOptions === 'object' && (asOrOptions.pipeline || asOrOptions.let)) {
+        return {
+          $lookup: {
+            from: collectionName,
+            localField,
+            foreignField,
+            as: baseAs,
+            ...(asOrOptions.let ? { let: asOrOptions.let } : {}),
+            ...(asOrOptions.pipeline ? { pipeline: asOrOptions.pipeline } : {}),
+          },
+        };
+      }
+      return {
+        $lookup: {
+          from: collectionName,
+          localField,
+          foreignField,
+          as: baseAs,
+        },
+      };
+    },
+    externalLookup: (fromCollection, localField, foreignField, asOrOptions) => {
+      const baseAs = typeof asOrOptions === 'string' ? asOrOptions : asOrOptions?.as ?? localField;
+      if (typeof asOrOptions === 'object' && (asOrOptions.pipeline || asOrOptions.let)) {
+        return {
+          $lookup: {
+            from: fromCollection,
+            localField,
+            foreignField,
+            as: baseAs,
+            ...(asOrOptions.let ? { let: asOrOptions.let } : {}),
+            ...(asOrOptions.pipeline ? { pipeline: asOrOptions.pipeline } : {}),
+          },
+        };
+      }
+      return {
+        $lookup: {
+          from: fromCollection,
+          localField,
+          foreignField,
+          as: baseAs,
+        },
+      };
+    },
+    project: (projection) => ({ $project: projection }),
+    addFields: (fields) => ({ $addFields: fields }),
+    group: (grouping) => ({ $group: grouping }),
+    sort: (sortSpec) => ({ $sort: sortSpec }),
+    limit: (limitVal) => ({ $limit: limitVal }),
+    skip: (skipVal) => ({ $skip: skipVal }),
+  };
+}
+
 type CollectionOptions = {
   safeDelete?: boolean;
   enableWatching?: boolean;
@@ -80,8 +207,47 @@ type CollectionOptions = {
    * - "inherit": Use global runtime config (default)
    */
   schemaManagement?: "auto" | "managed" | "inherit";
+  /**
+   * Optimistic concurrency control: keep an integer version in `field`,
+   * set to 0 on insert and incremented by every update
+   */
+  versioning?: VersioningOptions;
+  /**
+   * Deletes stamp the deletion date in `field` instead of removing the
+   * documents, and reads skip soft-deleted documents
+   */
+  softDelete?: SoftDeleteOptions;
+  /**
+   * Stamp the creation and update dates: `true` for `createdAt` /
+   * `updatedAt`, or custom field names
+   */
+  timestamps?: TimestampsOptions;
+  /**
+   * Append a record with a field-level diff and the actor (see `withActor`)
+   * to the `collection` audit collection for every write
+   */
+  audit?: AuditOptions;
+  /**
+   * Restrict every operation to the tenant set with `withTenant`, stored in
+   * this field. Operations outside of a tenant context throw unless they run
+   * inside `crossTenant`.
+   */
+  tenantField?: string;
+  /**
+   * Check the filters of reads, updates and deletes against the schema:
+   * unknown paths and values that can't match their field throw
+   */
+  validateFilters?: boolean;
 };
 
+/**
+ * Adds the fields managed through the collection options to a schema
+ */
+type WithOptionFields<T, O> = WithTenantField<
+  WithTimestampFields<WithSoftDeleteField<WithVersionField<T, O>, O>, O>,
+  O
+>;
+
 type WithId<T> = T extends { _id: infer U } ? T
   : m.WithId<T> | { _id: string } & T;
 
@@ -136,6 +302,102 @@ function processUpdateWithRemoveField(update: Record<string, unknown>): Record<s
   return result;
 }
 
+/**
+ * Collect the equality conditions of a filter, the same way MongoDB seeds
+ * the inserted document of an upsert (`{ a: 1 }`, `{ a: { $eq: 1 } }`, `$and`)
+ */
+function collectFilterEqualities(
+  filter: Record<string, unknown>,
+  doc: Record<string, unknown>,
+) {
+  for (const [key, value] of Object.entries(filter)) {
+    if (key === "$and" && Array.isArray(value)) {
+      for (const condition of value) {
+        collectFilterEqualities(condition as Record<string, unknown>, doc);
+      }
+      continue;
+    }
+    // $or, $nor, $expr... do not contribute to the inserted document
+    if (key.startsWith("$")) continue;
+
+    if (isPlainObject(value) && Object.keys(value).some((k) => k.startsWith("$"))) {
+      if ("$eq" in value) {
+        setNestedValue(doc, key, value.$eq);
+      }
+      continue;
+    }
+
+    setNestedValue(doc, key, value);
+  }
+}
+
+/**
+ * Build the document an upsert would insert if nothing matches the filter
+ */
+function buildUpsertDocument(
+  filter: Record<string, unknown>,
+  update: Record<string, unknown>,
+): Record<string, unknown> {
+  const doc: Record<string, unknown> = {};
+  collectFilterEqualities(filter, doc);
+
+  for (const [operator, fields] of Object.entries(update)) {
+    if (!isPlainObject(fields)) continue;
+
+    for (const [path, value] of Object.entries(fields)) {
+      switch (operator) {
+        case "$set":
+        case "$setOnInsert":
+        case "$inc":
+        case "$min":
+        case "$max":
+          setNestedValue(doc, path, value);
+          break;
+        case "$mul":
+          setNestedValue(doc, path, 0);
+          break;
+        case "$currentDate":
+          setNestedValue(doc, path, new Date());
+          break;
+        case "$push":
+        case "$addToSet":
+          setNestedValue(
+            doc,
+            path,
+            isPlainObject(value) && Array.isArray(value.$each)
+              ? [...value.$each]
+              : [value],
+          );
+          break;
+        case "$unset":
+          deleteNestedValue(doc, path);
+          break;
+      }
+    }
+  }
+
+  return doc;
+}
+
+/**
+ * Bulk write operation whose updates accept removeField() symbols
+ */
+type BulkWriteOperation<T extends m.Document> =
+  | Exclude<
+    m.AnyBulkWriteOperation<T>,
+    { updateOne: unknown } | { updateMany: unknown }
+  >
+  | {
+    updateOne:
+      & Omit<m.UpdateOneModel<T>, "update">
+      & { update: UpdateFilterWithRemovable<T> | m.Document[] };
+  }
+  | {
+    updateMany:
+      & Omit<m.UpdateManyModel<T>, "update">
+      & { update: UpdateFilterWithRemovable<T> | m.Document[] };
+  };
+
 type TInput<
   T extends Record<
     string,
@@ -149,18 +411,46 @@ type TOutput<
   >,
 > = WithId<v.InferOutput<v.ObjectSchema<T, undefined>>>;
 
+type DocumentEvents<TDoc extends m.Document> = {
+  insert: (insertEvent: m.ChangeStreamInsertDocument<TDoc>) => void;
+  update: (updateEvent: m.ChangeStreamUpdateDocument<TDoc>) => void;
+  replace: (replaceEvent: m.ChangeStreamReplaceDocument<TDoc>) => void;
+  delete: (deleteEvent: m.ChangeStreamDeleteDocument<TDoc>) => void;
+};
+
 type Events<
   T extends Record<
     string,
     v.BaseSchema<unknown, unknown, v.BaseIssue<unknown>>
   >,
+> = DocumentEvents<TOutput<T>>;
+
+/**
+ * Options of a listener filtered server-side, see `on()`
+ * @template TDoc - Document type of the collection
+ * @template F - Fields kept in the event documents
+ */
+export type WatchOptions<
+  TDoc,
+  F extends readonly (keyof TDoc & string)[] = readonly (keyof TDoc & string)[],
 > = {
-  insert: (insertEvent: m.ChangeStreamInsertDocument<TOutput<T>>) => void;
-  update: (updateEvent: m.ChangeStreamUpdateDocument<TOutput<T>>) => void;
-  replace: (replaceEvent: m.ChangeStreamReplaceDocument<TOutput<T>>) => void;
-  delete: (deleteEvent: m.ChangeStreamDeleteDocument<TOutput<T>>) => void;
+  /** Filter the event documents must match, compiled into a `$match` stage */
+  filter?: m.Filter<TDoc>;
+  /** Fields kept in the event documents (with `_id`), compiled into a `$project` stage */
+  fields?: F;
+  /**
+   * Change stream `fullDocument` option, required to filter update events:
+   * `"whenAvailable"` needs the pre- and post-images of the collection
+   */
+  fullDocument?: "updateLookup" | "whenAvailable";
 };
 
+/**
+ * Event document of a listener keeping only some fields
+ */
+type WatchedDocument<TDoc, F extends readonly string[]> = [F] extends [readonly []] ? TDoc
+  : Pick<TDoc, Extract<F[number] | "_id", keyof TDoc>>;
+
 /**
  * Type representing the enhanced MongoDB collection with validation and type safety
  * @template T - Schema type containing Valibot schemas for document fields
@@ -178,6 +468,7 @@ export type CollectionResult<
     | "insertOne"
     | "updateOne"
     | "updateMany"
+    | "replaceOne"
     | "distinct"
     | "findOneAndDelete"
     | "findOneAndReplace"
@@ -185,6 +476,8 @@ export type CollectionResult<
     | "indexInformation"
     | "listSearchIndexes"
     | "count"
+    | "aggregate"
+    | "bulkWrite"
   >
   & {
     collection: m.Collection<TInput<T>>;
@@ -192,8 +485,51 @@ export type CollectionResult<
       { readonly _id: v.OptionalSchema<v.AnySchema, undefined> } & T,
       undefined
     >;
-    on: ReturnType<typeof EventEmitter<Events<T>>>["on"];
+    /**
+     * Listen to the change events of the collection (requires `enableWatching`).
+     *
+     * With options, the listener gets its own change stream, filtered and
+     * projected server-side and shared by the listeners of identical options:
+     * it doesn't require `enableWatching`, its event documents are validated
+     * against the schema (invalid ones are skipped) and it's only removed by
+     * the returned function.
+     *
+     * @example
+     * ```typescript
+     * const unsubscribe = users.on("insert", (event) => {
+     *   console.log(event.fullDocument.email);
+     * }, { filter: { role: "admin" }, fields: ["email"] });
+     * ```
+     */
+    on: {
+      <E extends keyof Events<T>>(event: E, callback: Events<T>[E]): () => void;
+      <
+        E extends keyof Events<T>,
+        const F extends readonly (keyof TOutput<T> & string)[] = [],
+      >(
+        event: E,
+        callback: DocumentEvents<WatchedDocument<TOutput<T>, F>>[E],
+        options: WatchOptions<TOutput<T>, F>,
+      ): () => void;
+    };
     off: ReturnType<typeof EventEmitter<Events<T>>>["off"];
+    /**
+     * Register a lifecycle hook (`beforeInsert`, `afterUpdate`...), awaited
+     * inside the write operation with its session. Returns a function
+     * removing the hook.
+     *
+     * @example
+     * ```typescript
+     * users.hook("beforeInsert", ({ document }) => {
+     *   document.email = document.email.toLowerCase();
+     * });
+     * ```
+     */
+    hook: ReturnType<
+      typeof HookRegistry<
+        LifecycleHooks<WithId<TInput<T>>, m.OptionalUnlessRequiredId<TInput<T>>>
+      >
+    >["hook"];
     insertOne: (
       doc: m.OptionalUnlessRequiredId<TInput<T>>,
       options?: m.InsertOneOptions,
@@ -207,6 +543,16 @@ export type CollectionResult<
       filter: m.Filter<TInput<T>>,
       options?: m.FindOptions & m.Abortable,
     ) => m.AbstractCursor<TOutput<T>>;
+    /**
+     * Filter builder checking its paths and values against the schema
+     *
+     * @example
+     * ```typescript
+     * const filter = users.where().eq("address.city", "Paris").gte("age", 18).build();
+     * const parisians = await users.find(filter).toArray();
+     * ```
+     */
+    where: () => WhereBuilder<TInput<T>>;
     findInvalid: (
       filter: m.Filter<TInput<T>>,
       options?: m.FindOptions & m.Abortable,
@@ -224,7 +570,7 @@ export type CollectionResult<
         prepare?: (doc: WithId<TOutput<T>>) => Promise<E> | E;
         filter?: (doc: E) => Promise<boolean> | boolean;
         format?: (doc: E) => Promise<R> | R;
-        pipeline?: (stage: SimpleStageBuilder) => AggregationStage[];
+        pipeline?: (stage: SimpleStageBuilder<WithId<TOutput<T>>>) => AggregationStage[];
         /**
          * Skip the `countDocuments` call(s). `total` and `position` will be
          * `undefined` in the result. Useful when the caller only needs the
@@ -246,36 +592,160 @@ export type CollectionResult<
       hasMore?: boolean;
     }>;
 
+    /**
+     * Run an aggregation pipeline built with the stage builder.
+     * The output type is tracked through the stages; pass `output` to
+     * validate every result row against a Valibot schema instead.
+     *
+     * @example
+     * ```typescript
+     * const stats = await users.aggregate((stage) => [
+     *   stage.match({ age: { $gte: 18 } }),
+     *   stage.group({ _id: "$country", count: { $sum: 1 } }),
+     * ]);
+     * // stats: { _id: string; count: number }[]
+     * ```
+     */
+    aggregate<O extends v.GenericSchema>(
+      pipeline: (
+        stage: SimpleStageBuilder<WithId<TOutput<T>>>,
+      ) => readonly TypedStage[],
+      options: m.AggregateOptions & { output: O },
+    ): Promise<v.InferOutput<O>[]>;
+    aggregate<const S extends readonly TypedStage[]>(
+      pipeline: (stage: SimpleStageBuilder<WithId<TOutput<T>>>) => S,
+      options?: m.AggregateOptions,
+    ): Promise<PipelineOutput<WithId<TOutput<T>>, S>[]>;
+    aggregate<R extends m.Document = m.Document>(
+      pipeline?: m.Document[],
+      options?: m.AggregateOptions & m.Abortable,
+    ): m.AggregationCursor<R>;
+
     // From mongodb.Collection
+    /**
+     * With `versioning` enabled, the version is incremented and
+     * `expectedVersion` makes the update conditional (see `VersionConflictError`).
+     * A document inserted by an upsert starts at version 0, and
+     * `expectedVersion` can't be combined with `upsert`.
+     */
     updateOne(
       filter: m.Filter<WithId<TInput<T>>>,
       update: UpdateFilterWithRemovable<TInput<T>> | m.Document[],
-      options?: m.UpdateOptions,
+      options?: m.UpdateOptions & VersionedWriteOptions,
+    ): Promise<m.UpdateResult<TInput<T>>>;
+    /**
+     * With `versioning` enabled, the version is incremented and
+     * `expectedVersion` makes the replacement conditional (see `VersionConflictError`)
+     */
+    replaceOne(
+      filter: m.Filter<WithId<TInput<T>>>,
+      replacement: m.WithoutId<TInput<T>>,
+      options?: m.ReplaceOptions & VersionedWriteOptions,
     ): Promise<m.UpdateResult<TInput<T>>>;
     updateMany(
       filter: m.Filter<TInput<T>>,
       update: UpdateFilterWithRemovable<TInput<T>> | m.Document[],
       options?: m.UpdateOptions,
     ): Promise<m.UpdateResult<TInput<T>>>;
+    /**
+     * Update the matching document, or insert it if none matches.
+     * The document that would be inserted (filter equality fields, `$set`,
+     * `$setOnInsert`...) is validated against the full schema before the
+     * operation is sent, and schema defaults are applied on insert only.
+     *
+     * @example
+     * ```typescript
+     * await users.upsertOne(
+     *   { email: "jane@example.com" },
+     *   { $set: { name: "Jane" }, $setOnInsert: { age: 28 } },
+     * );
+     * ```
+     */
+    upsertOne(
+      filter: m.Filter<WithId<TInput<T>>>,
+      update: UpdateFilterWithRemovable<TInput<T>>,
+      options?: Omit<m.UpdateOptions, "upsert">,
+    ): Promise<m.UpdateResult<TInput<T>>>;
+    /**
+     * Bring back documents soft-deleted with the `softDelete` option.
+     * Returns the number of restored documents.
+     */
+    restore(filter: m.Filter<WithId<TInput<T>>>): Promise<number>;
+    /**
+     * Find the documents soft-deleted with the `softDelete` option
+     */
+    findDeleted(
+      filter?: m.Filter<TInput<T>>,
+      options?: m.FindOptions & m.Abortable,
+    ): m.AbstractCursor<TOutput<T>>;
+    /**
+     * Permanently remove documents soft-deleted before the given date.
+     * Returns the number of purged documents.
+     *
+     * @example
+     * ```typescript
+     * // 30 days grace period
+     * await users.purgeDeleted(new Date(Date.now() - 30 * 24 * 60 * 60 * 1000));
+     * ```
+     */
+    purgeDeleted(olderThan: Date): Promise<number>;
+    /**
+     * Bulk write where every insert and replacement is validated against the
+     * schema and every update goes through the same processing as `updateOne`.
+     * Nothing is sent if any operation is invalid. Upserts are rejected when
+     * `versioning` is enabled.
+     */
+    bulkWrite(
+      operations: ReadonlyArray<BulkWriteOperation<TInput<T>>>,
+      options?: m.BulkWriteOptions,
+    ): Promise<m.BulkWriteResult>;
     distinct<Key extends keyof WithId<TInput<T>>>(
       key: Key,
       filter: m.Filter<TInput<T>>,
       options?: m.DistinctOptions,
     ): Promise<Array<m.Flatten<WithId<TInput<T>>[Key]>>>;
+    /**
+     * Atomically delete the first matching document and return it,
+     * parsed through the output schema like `findOne`.
+     */
     findOneAndDelete(
-      filter: m.Filter<TInput<T>>,
-      options?: m.FindOneAndDeleteOptions & { includeResultMetadata: boolean },
-    ): Promise<WithId<TInput<T>> | null>;
+      filter: m.Filter<WithId<TInput<T>>>,
+      options?: Omit<m.FindOneAndDeleteOptions, "includeResultMetadata"> & {
+        includeResultMetadata?: false;
+      },
+    ): Promise<WithId<TOutput<T>> | null>;
+    /**
+     * Atomically replace the first matching document with a validated
+     * replacement. Returns the document after the replacement unless
+     * `returnDocument: "before"` is passed.
+     */
     findOneAndReplace(
-      filter: m.Filter<TInput<T>>,
+      filter: m.Filter<WithId<TInput<T>>>,
       replacement: m.WithoutId<TInput<T>>,
-      options?: m.FindOneAndReplaceOptions & { includeResultMetadata: boolean },
-    ): Promise<m.ModifyResult<TInput<T>> | null>;
+      options?: Omit<m.FindOneAndReplaceOptions, "includeResultMetadata"> & {
+        includeResultMetadata?: false;
+      },
+    ): Promise<WithId<TOutput<T>> | null>;
+    /**
+     * Atomically update the first matching document. The update is validated
+     * like `updateOne`, and the document after the update (or before it, with
+     * `returnDocument: "before"`) is parsed through the output schema.
+     *
+     * @example
+     * ```typescript
+     * const counter = await counters.findOneAndUpdate(
+     *   { name: "invoices" },
+     *   { $inc: { value: 1 } },
+     * );
+     * ```
+     */
     findOneAndUpdate(
-      filter: m.Filter<TInput<T>>,
+      filter: m.Filter<WithId<TInput<T>>>,
       update: UpdateFilterWithRemovable<TInput<T>> | m.Document[],
-      options?: m.FindOneAndUpdateOptions & { includeResultMetadata: boolean },
-    ): Promise<m.WithId<TInput<T>> | null>;
+      options?: Omit<m.FindOneAndUpdateOptions, "includeResultMetadata"> & {
+        includeResultMetadata?: false;
+      },
+    ): Promise<WithId<TOutput<T>> | null>;
     indexInformation(
       options: m.IndexInformationOptions & { full: true },
     ): Promise<m.IndexDescriptionInfo[]>;
@@ -312,19 +782,20 @@ export type CollectionSchema<T> = T extends CollectionResult<infer U>
 //        - [x] findOne
 //        - [x] find
 //    Update:
-//        - [-] updateOne
+//        - [x] updateOne
 //        - [x] replaceOne
-//        - [-] updateMany
+//        - [x] updateMany
+//        - [x] upsertOne
 //    Delete:
 //        - [x] deleteOne
 //        - [x] deleteMany
 //    Compound:
-//        - [ ] findOneAndUpdate
-//        - [ ] findOneAndReplace
-//        - [ ] findOneAndDelete
+//        - [x] findOneAndUpdate
+//        - [x] findOneAndReplace
+//        - [x] findOneAndDelete
 //    Aggregate:
-//        - [ ] aggregate
-//        - [ ] bulkWrite
+//        - [x] aggregate
+//        - [x] bulkWrite
 // 2. Support MongoDB json schema validation
 //    - [x] Create a collection with a validator
 //    - [x] Update a collection with a validator
@@ -364,20 +835,16 @@ export async function collection<
     string,
     v.BaseSchema<unknown, unknown, v.BaseIssue<unknown>>
   >,
+  const O extends CollectionOptions = CollectionOptions,
 >(
   db: Db,
   collectionName: string,
   collectionSchema: T,
-  options?: m.CollectionOptions & CollectionOptions,
-): Promise<CollectionResult<T>> {
+  options?: m.CollectionOptions & O,
+): Promise<CollectionResult<WithOptionFields<T, O>>> {
   type TInput = v.InferInput<v.ObjectSchema<T, undefined>>;
   type TOutput = WithId<v.InferOutput<v.ObjectSchema<T, undefined>>>;
 
-  const schema = v.object({
-    _id: v.optional(v.any()),
-    ...collectionSchema,
-  });
-
   const opts: m.CollectionOptions & CollectionOptions = {
     ...{
       safeDelete: true,
@@ -386,9 +853,307 @@ export async function collection<
     ...options,
   };
 
+  const versionField = opts.versioning?.field;
+  const softDeleteField = opts.softDelete?.field;
+  const timestampFields = resolveTimestampFields(opts.timestamps);
+
+  const schema = v.object({
+    _id: v.optional(v.any()),
+    ...collectionSchema,
+    // Kept out of the internal types, the result type adds them (WithOptionFields)
+    ...(versionField ? versionSchemaEntry(versionField) : {}) as object,
+    ...(softDeleteField ? softDeleteSchemaEntry(softDeleteField) : {}) as object,
+    ...(timestampFields ? timestampSchemaEntries(timestampFields) : {}) as object,
+    ...(opts.tenantField ? tenantSchemaEntry(opts.tenantField) : {}) as object,
+  });
+
   const events = EventEmitter<Events<T>>();
+  const hooks = HookRegistry<LifecycleHooks<TInput, m.OptionalUnlessRequiredId<TInput>>>();
   const validator = toMongoValidator(schema);
   const invalidValidation = { $nor: [validator] };
+  const dotSchema = createDotNotationSchema(schema);
+  const checkFilter = opts.validateFilters ? createFilterValidator(schema) : () => {};
+
+  /**
+   * Context given to the lifecycle hooks of the running operation
+   */
+  function hookContext(): HookContext {
+    return { session: sessionContext.getSession() };
+  }
+
+  /**
+   * Validate a full document against the schema and sanitize it for MongoDB
+   */
+  function prepareDocument(doc: unknown): m.OptionalUnlessRequiredId<TInput> {
+    const validatedDoc = v.parse(schema, doc);
+
+    // Apply sanitization based on configuration
+    return sanitizeForMongoDB(validatedDoc, {
+      undefinedBehavior: opts.undefinedBehavior || "remove",
+      deep: true,
+    }) as unknown as m.OptionalUnlessRequiredId<TInput>;
+  }
+
+  /**
+   * Validate a document to insert and initialize its version and timestamps
+   */
+  function prepareInsertDocument(doc: unknown): m.OptionalUnlessRequiredId<TInput> {
+    let safeDoc = prepareDocument(doc) as Record<string, unknown>;
+    if (versionField) {
+      safeDoc[versionField] = 0;
+    }
+    if (timestampFields) {
+      safeDoc = withInsertTimestamps(safeDoc, timestampFields);
+    }
+    return safeDoc as m.OptionalUnlessRequiredId<TInput>;
+  }
+
+  /**
+   * Add the version increment and update date to an update, when enabled
+   */
+  function withManagedFields<U extends m.Document | m.Document[]>(update: U): U {
+    let managedUpdate = update;
+    if (versionField) {
+      managedUpdate = withVersionIncrement(managedUpdate, versionField);
+    }
+    if (timestampFields) {
+      managedUpdate = withUpdateTimestamps(managedUpdate, timestampFields);
+    }
+    return managedUpdate;
+  }
+
+  /**
+   * Build the pipeline replacing a document while keeping its managed fields
+   * up to date (version, creation date...). Returns null when a plain
+   * replacement is enough.
+   */
+  function managedReplacement(replacement: m.Document, upsert?: boolean): m.Document[] | null {
+    const computed: Record<string, unknown> = {};
+    if (versionField) {
+      // An upserted document starts at version 0
+      computed[versionField] = nextVersionExpression(versionField, upsert ? -1 : 0);
+    }
+    if (timestampFields) {
+      Object.assign(computed, replacedTimestamps(timestampFields));
+    }
+
+    if (Object.keys(computed).length === 0) {
+      return null;
+    }
+    return replacementPipeline(replacement, computed);
+  }
+
+  /**
+   * Process removeField() symbols, sanitize the update and validate the
+   * values set through $set / $setOnInsert (dot notation supported).
+   * Pipeline-style updates are passed through untouched.
+   */
+  function prepareUpdate(
+    update: Record<string, unknown> | m.Document[],
+  ): m.UpdateFilter<TInput> | m.Document[] {
+    if (Array.isArray(update)) {
+      return withManagedFields(update);
+    }
+
+    // Process removeField() symbols in $set before sanitization
+    const processedUpdate = processUpdateWithRemoveField(update);
+    const sanitizedUpdate = sanitizeForMongoDB(processedUpdate, {
+      undefinedBehavior: opts.undefinedBehavior || "remove",
+      deep: true,
+    });
+
+    for (const operator of ["$set", "$setOnInsert"]) {
+      const fields = sanitizedUpdate[operator];
+      if (fields && typeof fields === "object") {
+        v.parse(dotSchema, fields);
+      }
+    }
+
+    return withManagedFields(sanitizedUpdate) as m.UpdateFilter<TInput>;
+  }
+
+  /**
+   * Validate the document an upsert would insert against the full schema.
+   * Schema defaults missing from the update are added to $setOnInsert so
+   * they are only applied when the document is actually inserted.
+   */
+  function prepareUpsert(
+    filter: m.Filter<TInput>,
+    update: m.UpdateFilter<TInput> | m.Document[],
+  ): m.UpdateFilter<TInput> {
+    if (Array.isArray(update)) {
+      throw new Error("Upsert is not supported with pipeline updates");
+    }
+
+    const insertDoc = buildUpsertDocument(
+      filter as Record<string, unknown>,
+      update as Record<string, unknown>,
+    );
+    const validatedDoc = sanitizeForMongoDB(v.parse(schema, insertDoc), {
+      undefinedBehavior: opts.undefinedBehavior || "remove",
+      deep: true,
+    }) as Record<string, unknown>;
+
+    const unsetKeys = Object.keys(update.$unset ?? {});
+    const defaults: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(validatedDoc)) {
+      if (key in insertDoc || unsetKeys.includes(key)) continue;
+      defaults[key] = value;
+    }
+
+    if (Object.keys(defaults).length === 0) {
+      return update;
+    }
+
+    return {
+      ...update,
+      $setOnInsert: { ...update.$setOnInsert, ...defaults },
+    } as m.UpdateFilter<TInput>;
+  }
+
+  /**
+   * Restrict a write filter to the expected version, if any
+   */
+  function versionedFilter<F>(filter: F, expectedVersion: number | undefined, upsert?: boolean): F {
+    if (expectedVersion === undefined) {
+      return filter;
+    }
+    if (!versionField) {
+      throw new Error("expectedVersion requires the versioning option");
+    }
+    // A version mismatch would insert a new document instead of failing
+    if (upsert) {
+      throw new Error("expectedVersion cannot be combined with upsert");
+    }
+    return withExpectedVersion(filter, versionField, expectedVersion);
+  }
+
+  /**
+   * On a versioned collection the version increment would also apply to a
+   * document inserted by an upsert: upserts run as a single pipeline update
+   * that seeds the version to 0 instead.
+   */
+  function versionedUpsert(
+    update: m.UpdateFilter<TInput> | m.Document[],
+    upsert: boolean | undefined,
+  ): m.UpdateFilter<TInput> | m.Document[] {
+    if (!upsert || !versionField || Array.isArray(update)) {
+      return update;
+    }
+    return withUpsertedVersion(update, versionField);
+  }
+
+  /**
+   * When a versioned write matched nothing, tell a missing document apart
+   * from a document that was modified since it was read
+   */
+  async function assertVersionMatched(
+    matchedCount: number,
+    filter: m.Filter<TInput>,
+    expectedVersion: number | undefined,
+  ) {
+    if (matchedCount > 0 || expectedVersion === undefined) return;
+
+    const session = sessionContext.getSession();
+    const existing = await collection.countDocuments(filter, { session, limit: 1 });
+    if (existing > 0) {
+      throw new VersionConflictError(expectedVersion, filter);
+    }
+  }
+
+  /**
+   * Build the update marking documents as deleted (soft delete) or restoring them
+   */
+  function softDeleteOperation(operation: "delete" | "restore"): m.UpdateFilter<TInput> {
+    if (!softDeleteField) {
+      throw new Error("softDelete option is not enabled");
+    }
+
+    const update = operation === "delete"
+      ? softDeleteUpdate(softDeleteField)
+      : restoreUpdate(softDeleteField);
+    return withManagedFields(update) as m.UpdateFilter<TInput>;
+  }
+
+  /**
+   * Find documents and drop the ones failing validation
+   */
+  function findValid(
+    filter: m.Filter<TInput>,
+    options?: m.FindOptions & m.Abortable,
+  ): m.AbstractCursor<TOutput> {
+    const session = sessionContext.getSession();
+    const cursor = collection.find(filter, { session, ...options });
+    const originalToArray = cursor.toArray;
+    // Override toArray
+    cursor.toArray = async function () {
+      const results = await originalToArray.call(cursor);
+      let invalidsCount = 0;
+
+      const output = results.map((item) => {
+        const validation = v.safeParse(schema, item);
+        if (!validation.success) {
+          invalidsCount++;
+          return null;
+        }
+        return validation.output as m.WithId<TInput>;
+      }).filter((item): item is m.WithId<TInput> => item !== null);
+
+      if (invalidsCount > 0) {
+        console.warn(
+          `Warning: ${invalidsCount} invalid documents were ignored during find operation`,
+        );
+      }
+
+      return output;
+    };
+
+    return cursor as unknown as m.AbstractCursor<TOutput>;
+  }
+
+  /**
+   * Parse a document returned by the driver through the output schema
+   */
+  function parseResult(result: m.Document | null): WithId<TOutput> | null {
+    if (!result) {
+      return null;
+    }
+
+    const validation = v.safeParse(schema, result);
+    if (validation.success) {
+      return validation.output as WithId<TOutput>;
+    }
+
+    throw {
+      message: "Validation error",
+      errors: validation,
+      result,
+    };
+  }
+
+  /**
+   * Refuse delete filters that would match the whole collection
+   */
+  function assertSafeDeleteFilter(filter: m.Filter<TInput> | undefined) {
+    if (!opts.safeDelete) return;
+
+    const filterSize = Object.keys(filter ?? {}).length;
+    if (filterSize === 0) throw new Error("Filter is empty");
+
+    let anyValidFilter = false;
+    for (const key in filter) {
+      if (key === "_id") continue;
+      const value = filter[key];
+      if (value !== undefined) {
+        anyValidFilter = true;
+        break;
+      }
+    }
+
+    if (!anyValidFilter) {
+      throw new Error("Filter is empty or only contains _id");
+    }
+  }
 
   async function applyValidator() {
     const collections = await db.listCollections({ name: collectionName })
@@ -467,6 +1232,67 @@ export async function collection<
     await new Promise((resolve) => setTimeout(resolve, 100));
   }
 
+  /**
+   * Register a listener, on its own filtered change stream when given options
+   */
+  function on<E extends keyof Events<T>>(
+    event: E,
+    callback: Events<T>[E],
+    options?: WatchOptions<TOutput>,
+  ): () => void {
+    if (!options) return events.on(event, callback);
+
+    const { filter, fields, fullDocument } = options;
+    if (filter && event === "delete") {
+      throw new Error("Delete events can't be filtered on the document fields");
+    }
+    if (filter && event === "update" && !fullDocument) {
+      throw new Error("Filtering update events requires the fullDocument option");
+    }
+
+    const pipeline: m.Document[] = [{
+      $match: {
+        operationType: event,
+        ...(filter ? fullDocumentFilter(filter) : {}),
+      },
+    }];
+    if (fields) {
+      pipeline.push({
+        $project: {
+          operationType: 1,
+          clusterTime: 1,
+          wallTime: 1,
+          ns: 1,
+          documentKey: 1,
+          updateDescription: 1,
+          "fullDocument._id": 1,
+          ...Object.fromEntries(fields.map((field) => [`fullDocument.${field}`, 1])),
+        },
+      });
+    }
+
+    const documentSchema = fields
+      ? v.object(Object.fromEntries(
+        ["_id", ...fields].map((field) => [field, (schema.entries as v.ObjectEntries)[field]]),
+      ))
+      : schema;
+    const listener = callback as (change: m.ChangeStreamDocument) => void;
+
+    return watchShared(db, rawCollection, pipeline, fullDocument ? { fullDocument } : {}, (change) => {
+      if (!("fullDocument" in change) || !change.fullDocument) {
+        listener(change);
+        return;
+      }
+
+      const parsed = v.safeParse(documentSchema, change.fullDocument);
+      if (!parsed.success) {
+        log.warn(`${collectionName}: skipped ${event} event with an invalid document`, parsed.issues);
+        return;
+      }
+      listener({ ...change, fullDocument: parsed.output } as m.ChangeStreamDocument);
+    });
+  }
+
   let sessionContext: Awaited<ReturnType<typeof getSessionContext>>;
 
   async function init() {
@@ -498,19 +1324,75 @@ export async function collection<
     }
   }
 
-  const collection = db.collection<TInput>(collectionName, opts);
+  const rawCollection = db.collection<TInput>(collectionName, opts);
+  // Every operation goes through the tenant scope when tenantField is set
+  const collection = opts.tenantField
+    ? tenantScopedCollection(rawCollection, opts.tenantField)
+    : rawCollection;
   await init();
 
-  return {
+  const auditTrail = opts.audit
+    ? createAuditTrail({
+      db,
+      options: opts.audit,
+      collectionName,
+      source: collection as unknown as m.Collection<m.Document>,
+      softDeleteField,
+    })
+    : undefined;
+  // Deletes skip the documents already soft-deleted
+  const auditScope = <F>(filter: F, operation: "update" | "delete"): F =>
+    operation === "delete" ? withoutDeleted(filter, softDeleteField) : filter;
+  if (auditTrail) {
+    registerAuditHooks(hooks, auditTrail, auditScope);
+  }
+
+  /**
+   * With audit enabled, restrict a single document write to the `_id` of
+   * the document it targets, so that the audit trail diffs that document
+   */
+  async function auditTarget(
+    filter: m.Filter<TInput>,
+    operation: "update" | "delete",
+    sort?: m.Sort,
+  ): Promise<m.Filter<TInput>> {
+    if (!auditTrail) return filter;
+
+    const session = sessionContext.getSession();
+    const target = await collection.findOne(auditScope(filter, operation), {
+      session,
+      sort,
+      projection: { _id: 1 },
+    });
+    return target ? { $and: [filter, { _id: target._id }] } as m.Filter<TInput> : filter;
+  }
+
+  /**
+   * Run a write bypassing the lifecycle hooks, recording its changes in the
+   * audit trail when enabled
+   */
+  async function audited<R>(
+    filter: m.Filter<TInput> | null,
+    write: () => Promise<R>,
+    createdIds?: (result: R) => unknown[],
+  ): Promise<R> {
+    if (!auditTrail) return await write();
+
+    const session = sessionContext.getSession();
+    return await auditTrail.track(filter as m.Filter<m.Document> | null, session, write, createdIds);
+  }
+
+  const collectionResult = {
     // Raw collection
-    collection,
+    collection: rawCollection,
 
     // Schema
     schema,
 
     // Events
-    on: events.on,
+    on,
     off: events.off,
+    hook: hooks.hook,
     withSession: sessionContext!.withSession,
 
     get bsonOptions() {
@@ -542,55 +1424,62 @@ export async function collection<
     },
     // Document creation operations with validation
     async insertOne(doc, options?) {
-      const validatedDoc = v.parse(schema, doc) as m.OptionalUnlessRequiredId<
-        TInput
-      >;
-
-      // Apply sanitization based on configuration
-      const safeDoc = sanitizeForMongoDB(validatedDoc, {
-        undefinedBehavior: opts.undefinedBehavior || "remove",
-        deep: true,
-      }) as unknown as m.OptionalUnlessRequiredId<TInput>;
+      const safeDoc = prepareInsertDocument(doc);
+      const context = hookContext();
+      await hooks.run("beforeInsert", { document: safeDoc }, context);
+      // Validate the changes made by the hooks
+      const document = prepareDocument(safeDoc);
 
       const session = sessionContext.getSession();
-      const inserted = await collection.insertOne(safeDoc, {
+      const inserted = await collection.insertOne(document, {
         session,
         ...options,
       });
       if (!inserted.acknowledged) {
         throw new Error("Insert failed");
       }
+      await hooks.run(
+        "afterInsert",
+        { document: { ...document, _id: inserted.insertedId } as TInput },
+        context,
+      );
       return inserted.insertedId as WithId<TOutput>["_id"];
     },
     async insertMany(docs, options?) {
-      const validatedDocs = docs.map((doc) => v.parse(schema, doc));
-
-      // Apply sanitization based on configuration
-      const safeDocs = validatedDocs.map((doc) =>
-        sanitizeForMongoDB(doc, {
-          undefinedBehavior: opts.undefinedBehavior || "remove",
-          deep: true,
-        }) as unknown as m.OptionalUnlessRequiredId<TInput>
-      );
+      const safeDocs = docs.map((doc) => prepareInsertDocument(doc));
+      const context = hookContext();
+      for (const safeDoc of safeDocs) {
+        await hooks.run("beforeInsert", { document: safeDoc }, context);
+      }
+      // Validate the changes made by the hooks
+      const documents = safeDocs.map((safeDoc) => prepareDocument(safeDoc));
 
       const session = sessionContext.getSession();
-      const inserted = await collection.insertMany(safeDocs, {
+      const inserted = await collection.insertMany(documents, {
         session,
         ...options,
       });
       if (!inserted.acknowledged) {
         throw new Error("Insert failed");
       }
+      for (const [index, document] of documents.entries()) {
+        await hooks.run(
+          "afterInsert",
+          { document: { ...document, _id: inserted.insertedIds[index] } as TInput },
+          context,
+        );
+      }
       return inserted;
     },
 
     // Document read operations with validation
     async findOne(filter, options?) {
+      checkFilter(filter);
       const session = sessionContext.getSession();
-      const result = await collection.findOne({
+      const result = await collection.findOne(withoutDeleted({
         ...validator, // Prevent returning invalid documents
         ...filter as unknown as m.Filter<TInput>,
-      }, { session, ...options });
+      }, softDeleteField), { session, ...options });
 
       if (!result) {
         return null;
@@ -609,7 +1498,7 @@ export async function collection<
     },
     async getById(id) {
       const session = sessionContext.getSession();
-      const result = await collection.findOne({ _id: id } as any, { session });
+      const result = await collection.findOne(withoutDeleted({ _id: id } as any, softDeleteField), { session });
 
       if (!result) {
         throw new Error("No element found");
@@ -630,33 +1519,17 @@ export async function collection<
       filter: m.Filter<TInput>,
       options?: m.FindOptions & m.Abortable,
     ): m.AbstractCursor<TOutput> {
-      const session = sessionContext.getSession();
-      const cursor = collection.find(filter, { session, ...options });
-      const originalToArray = cursor.toArray;
-      // Override toArray
-      cursor.toArray = async function () {
-        const results = await originalToArray.call(cursor);
-        let invalidsCount = 0;
-
-        const output = results.map((item) => {
-          const validation = v.safeParse(schema, item);
-          if (!validation.success) {
-            invalidsCount++;
-            return null;
-          }
-          return validation.output as m.WithId<TInput>;
-        }).filter((item): item is m.WithId<TInput> => item !== null);
-
-        if (invalidsCount > 0) {
-          console.warn(
-            `Warning: ${invalidsCount} invalid documents were ignored during find operation`,
-          );
-        }
-
-        return output;
-      };
-
-      return cursor as unknown as m.AbstractCursor<TOutput>;
+      checkFilter(filter);
+      return findValid(withoutDeleted(filter, softDeleteField), options);
+    },
+    findDeleted(filter, options?) {
+      if (!softDeleteField) {
+        throw new Error("softDelete option is not enabled");
+      }
+      return findValid(onlyDeleted(filter ?? {}, softDeleteField), options);
+    },
+    where() {
+      return where(schema) as unknown as WhereBuilder<TInput>;
     },
     findInvalid(
       filter: m.Filter<TInput>,
@@ -702,7 +1575,7 @@ export async function collection<
         prepare?: (doc: WithId<TOutput>) => Promise<E>,
         filter?: (doc: E) => Promise<boolean> | boolean,
         format?: (doc: E) => Promise<R>,
-        pipeline?: (stage: SimpleStageBuilder) => AggregationStage[],
+        pipeline?: (stage: SimpleStageBuilder<WithId<TOutput>>) => AggregationStage[],
         skipTotal?: boolean,
         peek?: boolean,
     }): Promise<{
@@ -716,8 +1589,8 @@ export async function collection<
         let limit = peek ? requestedLimit + 1 : requestedLimit;
         let { afterId, beforeId, sort, prepare, filter: customFilter, format, pipeline: pipelineBuilder } = options || {};
         const session = sessionContext.getSession();
-        const baseQuery: m.Filter<TInput> = { ...filter };
-        let query: m.Filter<TInput> = { ...filter };
+        const baseQuery: m.Filter<TInput> = withoutDeleted({ ...filter }, softDeleteField);
+        let query: m.Filter<TInput> = { ...baseQuery };
 
         // Normalize sort to object format
         sort = sort || { _id: 1 };
@@ -797,66 +1670,10 @@ export async function collection<
             sort = reversedSort;
         }
 
-        // Stage builder for simple collections
-        const stageBuilder: SimpleStageBuilder = {
-          match: (matchFilter: Record<string, unknown>) => ({ $match: matchFilter }),
-          unwind: (field: string) => ({ $unwind: field.startsWith('$') ? field : `$${field}` }),
-          lookup: (localField, foreignField, asOrOptions) => {
-            const baseAs = typeof asOrOptions === 'string' ? asOrOptions : asOrOptions?.as ?? localField;
-            if (typeof asOrOptions === 'object' && (asOrOptions.pipeline || asOrOptions.let)) {
-              return {
-                $lookup: {
-                  from: collectionName,
-                  localField,
-                  foreignField,
-                  as: baseAs,
-                  ...(asOrOptions.let ? { let: asOrOptions.let } : {}),
-                  ...(asOrOptions.pipeline ? { pipeline: asOrOptions.pipeline } : {}),
-                },
-              };
-            }
-            return {
-              $lookup: {
-                from: collectionName,
-                localField,
-                foreignField,
-                as: baseAs,
-              },
-            };
-          },
-          externalLookup: (fromCollection, localField, foreignField, asOrOptions) => {
-            const baseAs = typeof asOrOptions === 'string' ? asOrOptions : asOrOptions?.as ?? localField;
-            if (typeof asOrOptions === 'object' && (asOrOptions.pipeline || asOrOptions.let)) {
-              return {
-                $lookup: {
-                  from: fromCollection,
-                  localField,
-                  foreignField,
-                  as: baseAs,
-                  ...(asOrOptions.let ? { let: asOrOptions.let } : {}),
-                  ...(asOrOptions.pipeline ? { pipeline: asOrOptions.pipeline } : {}),
-                },
-              };
-            }
-            return {
-              $lookup: {
-                from: fromCollection,
-                localField,
-                foreignField,
-                as: baseAs,
-              },
-            };
-          },
-          project: (projection) => ({ $project: projection }),
-          addFields: (fields) => ({ $addFields: fields }),
-          group: (grouping) => ({ $group: grouping }),
-          sort: (sortSpec) => ({ $sort: sortSpec }),
-          limit: (limitVal) => ({ $limit: limitVal }),
-          skip: (skipVal) => ({ $skip: skipVal }),
-        };
-
         // Build aggregation pipeline if provided
-        const customPipeline = pipelineBuilder ? pipelineBuilder(stageBuilder) : [];
+        const customPipeline = pipelineBuilder
+          ? pipelineBuilder(createSimpleStageBuilder<WithId<TOutput>>(collectionName))
+          : [];
 
         // Count total + position. When a custom pipeline is present, the
         // count must reflect docs that pass through the WHOLE pipeline
@@ -1029,8 +1846,9 @@ export async function collection<
         };
     },
     countDocuments(filter, options?) {
+      checkFilter(filter);
       const session = sessionContext.getSession();
-      return collection.countDocuments(filter, { session, ...options });
+      return collection.countDocuments(withoutDeleted(filter ?? {}, softDeleteField), { session, ...options });
     },
     estimatedDocumentCount(options?) {
       const session = sessionContext.getSession();
@@ -1045,7 +1863,7 @@ export async function collection<
     },
 
     // Document update operations
-    replaceOne(filter, replacement, options?) {
+    async replaceOne(filter, replacement, options?) {
       const validation = v.safeParse(schema, replacement);
       if (!validation.success) {
         throw {
@@ -1058,77 +1876,189 @@ export async function collection<
         undefinedBehavior: opts.undefinedBehavior || "remove",
         deep: true,
       }) as unknown as TInput;
+      const { expectedVersion, ...replaceOptions } = options ?? {};
+      const targetFilter = await auditTarget(filter as m.Filter<TInput>, "update");
+      const writeFilter = versionedFilter(targetFilter, expectedVersion, replaceOptions.upsert);
+      const replacementUpdate = managedReplacement(sanitizedReplacement, replaceOptions.upsert);
+      const hookEvent = {
+        filter: targetFilter,
+        replacement: sanitizedReplacement,
+        multi: false,
+      };
+      const context = hookContext();
+      await hooks.run("beforeUpdate", hookEvent, context);
       const session = sessionContext.getSession();
-      return collection.replaceOne(filter, sanitizedReplacement, {
-        session,
-        ...options,
+
+      const result = replacementUpdate
+        ? await collection.updateOne(writeFilter, replacementUpdate, { session, ...replaceOptions })
+        : await collection.replaceOne(writeFilter, sanitizedReplacement, {
+          session,
+          ...replaceOptions,
+        }) as m.UpdateResult<TInput>;
+      await assertVersionMatched(result.matchedCount, filter as m.Filter<TInput>, expectedVersion);
+      await hooks.run("afterUpdate", { ...hookEvent, ...updateCounts(result) }, context);
+      return result;
+    },
+    async updateOne(filter, update, options?) {
+      checkFilter(filter);
+      // Validation happens outside retry - no need to retry validation errors
+      const { expectedVersion, ...updateOptions } = options ?? {};
+      let sanitizedUpdate = prepareUpdate(update as Record<string, unknown>);
+      if (updateOptions.upsert) {
+        sanitizedUpdate = prepareUpsert(filter as m.Filter<TInput>, sanitizedUpdate);
+      }
+      const targetFilter = await auditTarget(filter as m.Filter<TInput>, "update");
+      const writeFilter = versionedFilter(targetFilter, expectedVersion, updateOptions.upsert);
+      const hookEvent = { filter: targetFilter, update: sanitizedUpdate, multi: false };
+      const context = hookContext();
+      await hooks.run("beforeUpdate", hookEvent, context);
+
+      const result = await retryOnWriteConflict(async () => {
+        const session = sessionContext.getSession();
+        return await collection.updateOne(
+          writeFilter,
+          versionedUpsert(sanitizedUpdate, updateOptions.upsert),
+          { session, ...updateOptions },
+        );
       });
+      await assertVersionMatched(result.matchedCount, filter as m.Filter<TInput>, expectedVersion);
+      await hooks.run("afterUpdate", { ...hookEvent, ...updateCounts(result) }, context);
+      return result;
     },
-    updateOne(filter, update, options?) {
-      // @TODO: check if update is valid
-      return retryOnWriteConflict(async () => {
-        // Process removeField() symbols in $set before sanitization
-        const processedUpdate = processUpdateWithRemoveField(update as Record<string, unknown>);
-        const sanitizedUpdate = sanitizeForMongoDB(processedUpdate, {
-          undefinedBehavior: opts.undefinedBehavior || "remove",
-          deep: true,
-        });
+    async updateMany(filter, update, options?) {
+      checkFilter(filter);
+      // Validation happens outside retry - no need to retry validation errors
+      let sanitizedUpdate = prepareUpdate(update as Record<string, unknown>);
+      if (options?.upsert) {
+        sanitizedUpdate = prepareUpsert(filter, sanitizedUpdate);
+      }
+      const hookEvent = { filter, update: sanitizedUpdate, multi: true };
+      const context = hookContext();
+      await hooks.run("beforeUpdate", hookEvent, context);
+
+      const result = await retryOnWriteConflict(async () => {
         const session = sessionContext.getSession();
-        return await collection.updateOne(filter as any, sanitizedUpdate as any, {
-          session,
-          ...options,
-        });
+        return await collection.updateMany(
+          filter,
+          versionedUpsert(sanitizedUpdate, options?.upsert),
+          { session, ...options },
+        );
       });
+      await hooks.run("afterUpdate", { ...hookEvent, ...updateCounts(result) }, context);
+      return result;
     },
-    updateMany(filter, update, options?) {
-      // @TODO: check if update is valid
-      return retryOnWriteConflict(async () => {
-        // Process removeField() symbols in $set before sanitization
-        const processedUpdate = processUpdateWithRemoveField(update as Record<string, unknown>);
-        const sanitizedUpdate = sanitizeForMongoDB(processedUpdate, {
-          undefinedBehavior: opts.undefinedBehavior || "remove",
-          deep: true,
-        });
+    async upsertOne(filter, update, options?) {
+      // Validation happens outside retry - no need to retry validation errors
+      const sanitizedUpdate = prepareUpsert(
+        filter as m.Filter<TInput>,
+        prepareUpdate(update as Record<string, unknown>),
+      );
+      const targetFilter = await auditTarget(filter as m.Filter<TInput>, "update");
+      const hookEvent = { filter: targetFilter, update: sanitizedUpdate, multi: false };
+      const context = hookContext();
+      await hooks.run("beforeUpdate", hookEvent, context);
+
+      const result = await retryOnWriteConflict(async () => {
         const session = sessionContext.getSession();
-        return await collection.updateMany(filter, sanitizedUpdate as any, { session, ...options });
+        return await collection.updateOne(
+          targetFilter,
+          versionedUpsert(sanitizedUpdate, true),
+          { session, ...options, upsert: true },
+        );
       });
+      await hooks.run("afterUpdate", { ...hookEvent, ...updateCounts(result) }, context);
+      return result;
     },
 
     // Document delete operations
-    deleteOne(filter, options?) {
+    async deleteOne(filter, options?) {
+      checkFilter(filter);
+      const targetFilter = await auditTarget(filter ?? {}, "delete");
+      const hookEvent = { filter: targetFilter, multi: false };
+      const context = hookContext();
+      await hooks.run("beforeDelete", hookEvent, context);
+
       const session = sessionContext.getSession();
-      return collection.deleteOne(filter, { session, ...options });
+      const result = softDeleteField
+        ? await collection.updateOne(
+          withoutDeleted(targetFilter, softDeleteField),
+          softDeleteOperation("delete"),
+          { session, ...options },
+        ).then((result) => ({ acknowledged: result.acknowledged, deletedCount: result.modifiedCount }))
+        : await collection.deleteOne(targetFilter, { session, ...options });
+
+      await hooks.run("afterDelete", { ...hookEvent, deletedCount: result.deletedCount }, context);
+      return result;
     },
-    deleteMany(filter, options?) {
-      if (opts.safeDelete) {
-        const filterSize = Object.keys(filter ?? {}).length;
-        if (filterSize === 0) throw new Error("Filter is empty");
-
-        let anyValidFilter = false;
-        for (const key in filter) {
-          if (key === "_id") continue;
-          const value = filter[key];
-          if (value !== undefined) {
-            anyValidFilter = true;
-            break;
-          }
-        }
+    async deleteMany(filter, options?) {
+      checkFilter(filter);
+      assertSafeDeleteFilter(filter);
+      const hookEvent = { filter: filter ?? {}, multi: true };
+      const context = hookContext();
+      await hooks.run("beforeDelete", hookEvent, context);
 
-        if (!anyValidFilter) {
-          throw new Error("Filter is empty or only contains _id");
-        }
+      const session = sessionContext.getSession();
+      const result = softDeleteField
+        ? await collection.updateMany(
+          withoutDeleted(filter ?? {}, softDeleteField),
+          softDeleteOperation("delete"),
+          { session, ...options },
+        ).then((result) => ({ acknowledged: result.acknowledged, deletedCount: result.modifiedCount }))
+        : await collection.deleteMany(filter, { session, ...options });
+
+      await hooks.run("afterDelete", { ...hookEvent, deletedCount: result.deletedCount }, context);
+      return result;
+    },
+    async restore(filter) {
+      const update = softDeleteOperation("restore");
+      const deletedFilter = onlyDeleted(filter as m.Filter<TInput>, softDeleteField!);
+      const session = sessionContext.getSession();
+      const result = await audited(
+        deletedFilter,
+        () => collection.updateMany(deletedFilter, update, { session }),
+      );
+      return result.modifiedCount;
+    },
+    async purgeDeleted(olderThan) {
+      if (!softDeleteField) {
+        throw new Error("softDelete option is not enabled");
       }
 
+      const purgeFilter = { [softDeleteField]: { $lte: olderThan } } as m.Filter<TInput>;
       const session = sessionContext.getSession();
-      return collection.deleteMany(filter, { session, ...options });
+      const result = await audited(
+        purgeFilter,
+        () => collection.deleteMany(purgeFilter, { session }),
+      );
+      return result.deletedCount;
     },
 
     // Compound operations
-    findOneAndDelete(filter, options?) {
+    async findOneAndDelete(filter, options?) {
+      checkFilter(filter);
+      const targetFilter = await auditTarget(filter as m.Filter<TInput>, "delete", options?.sort);
+      const hookEvent = { filter: targetFilter, multi: false };
+      const context = hookContext();
+      await hooks.run("beforeDelete", hookEvent, context);
+
       const session = sessionContext.getSession();
-      return collection.findOneAndDelete(filter, { session, ...options });
+      const result = softDeleteField
+        ? await collection.findOneAndUpdate(
+          withoutDeleted(targetFilter, softDeleteField),
+          softDeleteOperation("delete"),
+          { session, ...options, returnDocument: "before", includeResultMetadata: false },
+        )
+        : await collection.findOneAndDelete(targetFilter, {
+          session,
+          ...options,
+          includeResultMetadata: false,
+        });
+      await hooks.run("afterDelete", { ...hookEvent, deletedCount: result ? 1 : 0 }, context);
+
+      return parseResult(result);
     },
-    findOneAndReplace(filter, replacement, options?) {
+    async findOneAndReplace(filter, replacement, options?) {
+      checkFilter(filter);
       const validation = v.safeParse(schema, replacement);
       if (!validation.success) {
         throw {
@@ -1142,34 +2072,180 @@ export async function collection<
         deep: true,
       }) as unknown as TInput;
 
-      const session = sessionContext.getSession();
-      return collection.findOneAndReplace(filter, sanitizedReplacement, {
-        session,
-        ...options,
+      const replacementUpdate = managedReplacement(sanitizedReplacement, options?.upsert);
+      const targetFilter = await auditTarget(filter as m.Filter<TInput>, "update", options?.sort);
+      const hookEvent = {
+        filter: targetFilter,
+        replacement: sanitizedReplacement,
+        multi: false,
+      };
+      const context = hookContext();
+      await hooks.run("beforeUpdate", hookEvent, context);
+
+      const result = await retryOnWriteConflict(async () => {
+        const session = sessionContext.getSession();
+        if (replacementUpdate) {
+          return await collection.findOneAndUpdate(targetFilter, replacementUpdate, {
+            session,
+            returnDocument: "after",
+            ...options,
+            includeResultMetadata: false,
+          });
+        }
+        return await collection.findOneAndReplace(targetFilter, sanitizedReplacement, {
+          session,
+          returnDocument: "after",
+          ...options,
+          includeResultMetadata: false,
+        });
       });
+      await hooks.run("afterUpdate", { ...hookEvent, ...foundCounts(result) }, context);
+
+      return parseResult(result);
     },
-    findOneAndUpdate(filter, update, options?) {
-      // Process removeField() symbols in $set before sanitization
-      const processedUpdate = processUpdateWithRemoveField(update as Record<string, unknown>);
-      const sanitizedUpdate = sanitizeForMongoDB(processedUpdate, {
-        undefinedBehavior: opts.undefinedBehavior || "remove",
-        deep: true,
-      });
-      const session = sessionContext.getSession();
-      return collection.findOneAndUpdate(filter, sanitizedUpdate as any, {
-        session,
-        ...options,
+    async findOneAndUpdate(filter, update, options?) {
+      checkFilter(filter);
+      // Validation happens outside retry - no need to retry validation errors
+      let sanitizedUpdate = prepareUpdate(update as Record<string, unknown>);
+      if (options?.upsert) {
+        sanitizedUpdate = prepareUpsert(filter as m.Filter<TInput>, sanitizedUpdate);
+      }
+      const targetFilter = await auditTarget(filter as m.Filter<TInput>, "update", options?.sort);
+      const hookEvent = { filter: targetFilter, update: sanitizedUpdate, multi: false };
+      const context = hookContext();
+      await hooks.run("beforeUpdate", hookEvent, context);
+
+      const result = await retryOnWriteConflict(async () => {
+        const session = sessionContext.getSession();
+        return await collection.findOneAndUpdate(
+          targetFilter,
+          versionedUpsert(sanitizedUpdate, options?.upsert),
+          {
+            session,
+            returnDocument: "after",
+            ...options,
+            includeResultMetadata: false,
+          },
+        );
       });
+      await hooks.run("afterUpdate", { ...hookEvent, ...foundCounts(result) }, context);
+
+      return parseResult(result);
     },
 
     // Bulk operations
-    aggregate(pipeline, options?) {
+    aggregate(
+      pipeline?:
+        | m.Document[]
+        | ((stage: SimpleStageBuilder<WithId<TOutput>>) => readonly TypedStage[]),
+      options?: m.AggregateOptions & m.Abortable & { output?: v.GenericSchema },
+    ) {
       const session = sessionContext.getSession();
-      return collection.aggregate(pipeline, { session, ...options });
+      if (typeof pipeline !== "function") {
+        return collection.aggregate(pipeline, { session, ...options });
+      }
+
+      const { output, ...aggregateOptions } = options ?? {};
+      const stages = pipeline(createSimpleStageBuilder<WithId<TOutput>>(collectionName));
+      return collection.aggregate([...stages], { session, ...aggregateOptions })
+        .toArray()
+        .then((results) => {
+          if (!output) return results;
+          // Validate each row against the caller-supplied output schema
+          return results.map((result) => v.parse(output, result));
+        });
     },
-    bulkWrite(operations, options?) {
-      const session = sessionContext.getSession();
-      return collection.bulkWrite(operations, { session, ...options });
+    async bulkWrite(operations, options?) {
+      // Validate every operation before anything is sent, so an invalid
+      // operation never leaves the bulk partially applied
+      const validatedOperations = operations.map(
+        (operation: BulkWriteOperation<TInput>): m.AnyBulkWriteOperation<TInput> => {
+          if ("insertOne" in operation) {
+            return {
+              insertOne: {
+                ...operation.insertOne,
+                document: prepareInsertDocument(operation.insertOne.document) as m.OptionalId<TInput>,
+              },
+            };
+          }
+          if ("replaceOne" in operation) {
+            const { filter, replacement, upsert, hint, collation } = operation.replaceOne;
+            const safeReplacement = prepareDocument(replacement);
+            // A plain replacement would reset the managed fields
+            const replacementUpdate = managedReplacement(safeReplacement, upsert);
+            if (replacementUpdate) {
+              return {
+                updateOne: { filter, update: replacementUpdate, upsert, hint, collation },
+              };
+            }
+            return {
+              replaceOne: {
+                ...operation.replaceOne,
+                replacement: safeReplacement as m.WithoutId<TInput>,
+              },
+            };
+          }
+          if ("updateOne" in operation) {
+            const { filter, upsert } = operation.updateOne;
+            const update = prepareUpdate(operation.updateOne.update as Record<string, unknown>);
+            return {
+              updateOne: {
+                ...operation.updateOne,
+                update: upsert ? versionedUpsert(prepareUpsert(filter, update), upsert) : update,
+              },
+            };
+          }
+          if ("updateMany" in operation) {
+            const { filter, upsert } = operation.updateMany;
+            const update = prepareUpdate(operation.updateMany.update as Record<string, unknown>);
+            return {
+              updateMany: {
+                ...operation.updateMany,
+                update: upsert ? versionedUpsert(prepareUpsert(filter, update), upsert) : update,
+              },
+            };
+          }
+          if ("deleteMany" in operation) {
+            assertSafeDeleteFilter(operation.deleteMany.filter);
+          }
+          if (softDeleteField && "deleteOne" in operation) {
+            const { filter, ...deleteOptions } = operation.deleteOne;
+            return {
+              updateOne: {
+                ...deleteOptions,
+                filter: withoutDeleted(filter, softDeleteField),
+                update: softDeleteOperation("delete"),
+              },
+            };
+          }
+          if (softDeleteField && "deleteMany" in operation) {
+            const { filter, ...deleteOptions } = operation.deleteMany;
+            return {
+              updateMany: {
+                ...deleteOptions,
+                filter: withoutDeleted(filter, softDeleteField),
+                update: softDeleteOperation("delete"),
+              },
+            };
+          }
+          return operation;
+        },
+      );
+
+      // The audit trail reads the documents matching any of the filters
+      const filters = validatedOperations.flatMap((operation) => {
+        const [{ filter }] = Object.values(operation) as { filter?: m.Filter<TInput> }[];
+        return filter ? [filter] : [];
+      });
+
+      return await retryOnWriteConflict(async () => {
+        const session = sessionContext.getSession();
+        return await audited(
+          filters.length > 0 ? { $or: filters } as m.Filter<TInput> : null,
+          () => collection.bulkWrite(validatedOperations, { session, ...options }),
+          (result) => [...Object.values(result.insertedIds), ...Object.values(result.upsertedIds)],
+        );
+      });
     },
     initializeOrderedBulkOp(options?) {
       const session = sessionContext.getSession();
@@ -1254,4 +2330,7 @@ export async function collection<
       return collection.watch(pipeline, { session, ...options });
     },
   } as CollectionResult<T>;
+
+  // Option fields are part of the runtime schema, reflect them in the types
+  return collectionResult as unknown as CollectionResult<WithOptionFields<T, O>>;
 }
\ No newline at end of file
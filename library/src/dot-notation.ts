@@ -107,8 +107,14 @@ export function extractSchemaPaths(
   while (toProcess.length > 0) {
     const { key, value } = toProcess.pop()!;
 
-    if (value.type === "object") {
-      const objectValue = value as v.ObjectSchema<any, any>;
+    // Nested paths of optional and nullable fields
+    let inner = value;
+    while (inner.type === "optional" || inner.type === "nullable" || inner.type === "nullish") {
+      inner = (inner as unknown as { wrapped: typeof inner }).wrapped;
+    }
+
+    if (inner.type === "object") {
+      const objectValue = inner as v.ObjectSchema<any, any>;
       for (const k in objectValue.entries) {
         const v = objectValue.entries[k as keyof typeof objectValue];
         toProcess.push({
@@ -116,17 +122,17 @@ export function extractSchemaPaths(
           value: v,
         });
       }
-    } else if (value.type === "array") {
+    } else if (inner.type === "array") {
       // Support for array using wildcard notation
       toProcess.push({
         key: [...key, `$[]`],
-        value: (value as v.ArraySchema<any, any>).item,
+        value: (inner as v.ArraySchema<any, any>).item,
       });
 
       // Support for array using numeric indices
       toProcess.push({
         key: [...key, (v: string) => !isNaN(Number(v))],
-        value: (value as v.ArraySchema<any, any>).item,
+        value: (inner as v.ArraySchema<any, any>).item,
       });
     }
 
@@ -244,3 +250,47 @@ export function getNestedValue(obj: Record<string, unknown>, path: string): unkn
   }
   return current;
 }
+
+/**
+ * Sets a nested value in an object using dot notation path
+ *
+ * Intermediate objects are created when missing. This mirrors how MongoDB
+ * builds a document from dot notation paths (e.g. during an upsert).
+ *
+ * @param obj - The object to modify
+ * @param path - The dot notation path string (e.g., "data.email")
+ * @param value - The value to set
+ * @example
+ * ```typescript
+ * const doc = {};
+ * setNestedValue(doc, "data.email", "test@example.com");
+ * // doc = { data: { email: "test@example.com" } }
+ * ```
+ */
+export function setNestedValue(obj: Record<string, unknown>, path: string, value: unknown): void {
+  const parts = path.split('.');
+  let current = obj;
+  for (const part of parts.slice(0, -1)) {
+    const next = current[part];
+    if (next === null || next === undefined || typeof next !== 'object') {
+      current[part] = {};
+    }
+    current = current[part] as Record<string, unknown>;
+  }
+  current[parts[parts.length - 1]] = value;
+}
+
+/**
+ * Deletes a nested value from an object using dot notation path
+ *
+ * @param obj - The object to modify
+ * @param path - The dot notation path string (e.g., "data.email")
+ */
+export function deleteNestedValue(obj: Record<string, unknown>, path: string): void {
+  const parts = path.split('.');
+  const parent = getNestedValue(obj, parts.slice(0, -1).join('.'));
+  const target = parts.length === 1 ? obj : parent;
+  if (target !== null && typeof target === 'object') {
+    delete (target as Record<string, unknown>)[parts[parts.length - 1]];
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * @fileoverview Validation of query filters against a schema
+ *
+ * With the `validateFilters` collection option, the filters given to reads,
+ * updates and deletes are checked before they are sent: every field path
+ * must exist in the schema, and the values compared for equality (plain
+ * values, `$eq`, `$ne`, `$in`, `$nin`) must match the schema of the field.
+ * A filter such as `{ age: "30" }` on a `v.number()` field throws instead of
+ * silently matching nothing.
+ *
+ * Paths follow the MongoDB query semantics: numeric segments index arrays,
+ * and array fields match their elements (`{ tags: "admin" }`,
+ * `{ "items.sku": "A1" }`). Record keys can be any segment (`{ "meta.color":
+ * "red" }` on a `v.record()` field), and any sub-path of `v.record()`,
+ * `v.any()` and `v.unknown()` fields is accepted without checking its value.
+ * Other operators (`$gt`, `$regex`, `$exists`...) only have their path
+ * checked, and `null` always matches missing fields.
+ *
+ * @module
+ */
+
+import * as v from "./schema.ts";
+import { createSimpleVisitor, SchemaNavigator } from "./schema-navigator.ts";
+import { isPlainObject } from "./utils/object.ts";
+
+type AnySchema = v.BaseSchema<unknown, unknown, v.BaseIssue<unknown>>;
+
+/**
+ * Operators whose values are compared for equality with the field
+ */
+const EQUALITY_OPERATORS = new Set(["$eq", "$ne"]);
+const LIST_OPERATORS = new Set(["$in", "$nin"]);
+const LOGICAL_OPERATORS = new Set(["$and", "$or", "$nor"]);
+
+/**
+ * Schemas whose sub-paths are all accepted
+ */
+const OPEN_SCHEMA_TYPES = new Set(["record", "any", "unknown"]);
+
+/**
+ * Segment matching any record key
+ */
+const RECORD_KEY = "*";
+
+/**
+ * Schemas of a filter path, and the paths below it
+ */
+type PathNode = {
+  schemas: AnySchema[];
+  children: Map<string, PathNode>;
+  /** Whether any sub-path is accepted (record, any and unknown schemas) */
+  open: boolean;
+};
+
+/**
+ * Index the schemas of a schema by filter path. Array items and union
+ * options share the path of their field, so a path can have several schemas.
+ */
+function indexFilterPaths(schema: AnySchema): PathNode {
+  const root: PathNode = { schemas: [], children: new Map(), open: false };
+  const navigator = new SchemaNavigator();
+
+  navigator.navigate(schema, createSimpleVisitor({
+    onNode: (node) => {
+      if (node.path.length === 0 || node.schema.kind !== "schema") return;
+      // Record keys are not values of the path
+      if (node.path.includes("$key")) return;
+      // Array ($[]), union ($union[i]) and pipe ($pipe[i]) segments share the
+      // path of their field, record values are below any key
+      const segments = node.path
+        .filter((segment) => segment === "$value" || !segment.startsWith("$"))
+        .map((segment) => segment === "$value" ? RECORD_KEY : segment);
+      if (segments.length === 0) return;
+
+      let target = root;
+      for (const segment of segments) {
+        let child = target.children.get(segment);
+        if (!child) {
+          child = { schemas: [], children: new Map(), open: false };
+          target.children.set(segment, child);
+        }
+        target = child;
+      }
+      target.schemas.push(node.schema as AnySchema);
+      target.open ||= OPEN_SCHEMA_TYPES.has(node.schema.type);
+    },
+  }));
+
+  return root;
+}
+
+/**
+ * Find the schemas of a filter path. Numeric segments may index arrays.
+ *
+ * @returns The schemas of the path, null for a path below a record, any or
+ * unknown schema that can't be checked, undefined for an unknown path
+ */
+function findPathSchemas(node: PathNode, segments: string[]): AnySchema[] | null | undefined {
+  if (segments.length === 0) {
+    return node.schemas;
+  }
+
+  const [segment, ...rest] = segments;
+  const candidates = [node.children.get(segment), node.children.get(RECORD_KEY)]
+    .map((child) => child && findPathSchemas(child, rest));
+  if (/^\d+$/.test(segment)) {
+    candidates.push(findPathSchemas(node, rest));
+  }
+
+  const schemas = candidates.flatMap((found) => found ?? []);
+  if (schemas.length > 0) {
+    return schemas;
+  }
+  return node.open || candidates.includes(null) ? null : undefined;
+}
+
+/**
+ * Create a function checking the paths and values of filters against a schema
+ *
+ * @param schema - Schema of the documents
+ * @returns A function throwing when a filter has an unknown path or a value
+ * that doesn't match the schema of its field
+ *
+ * @example
+ * ```typescript
+ * const checkFilter = createFilterValidator(v.object({ age: v.number() }));
+ *
+ * checkFilter({ age: { $in: [30, 31] } }); // ok
+ * checkFilter({ age: "30" }); // throws: Invalid value for "age" in filter
+ * checkFilter({ agee: 30 }); // throws: Unknown path "agee" in filter
+ * ```
+ */
+export function createFilterValidator(
+  schema: AnySchema,
+): (filter: object | undefined) => void {
+  const paths = indexFilterPaths(schema);
+
+  function checkValue(path: string, schemas: AnySchema[], value: unknown) {
+    // null matches missing fields, regular expressions match strings
+    if (value === null || value instanceof RegExp) return;
+    if (!schemas.some((fieldSchema) => v.safeParse(fieldSchema, value).success)) {
+      throw new Error(`Invalid value for "${path}" in filter`);
+    }
+  }
+
+  function checkCondition(path: string, condition: unknown) {
+    const schemas = findPathSchemas(paths, path.split("."));
+    if (schemas === undefined) {
+      throw new Error(`Unknown path "${path}" in filter`);
+    }
+    // Sub-paths of records, any and unknown values are not checked
+    if (schemas === null) return;
+
+    const isOperatorObject = isPlainObject(condition) &&
+      Object.keys(condition).some((key) => key.startsWith("$"));
+    if (!isOperatorObject) {
+      checkValue(path, schemas, condition);
+      return;
+    }
+
+    for (const [operator, value] of Object.entries(condition)) {
+      if (EQUALITY_OPERATORS.has(operator)) {
+        checkValue(path, schemas, value);
+      } else if (LIST_OPERATORS.has(operator) && Array.isArray(value)) {
+        value.forEach((item) => checkValue(path, schemas, item));
+      }
+    }
+  }
+
+  function checkFilter(filter: object | undefined) {
+    for (const [key, condition] of Object.entries(filter ?? {})) {
+      if (LOGICAL_OPERATORS.has(key)) {
+        (condition as object[]).forEach(checkFilter);
+      } else if (!key.startsWith("$")) {
+        // Other top-level operators ($expr, $text, $comment...) are not checked
+        checkCondition(key, condition);
+      }
+    }
+  }
+
+  return checkFilter;
+}
@@ -0,0 +1,146 @@
+/**
+ * @fileoverview Document lifecycle hooks
+ *
+ * Hooks run inline with the write operations of a collection: `before`
+ * hooks run after validation and before the write is sent (throwing aborts the
+ * operation), `after` hooks run once the write succeeded. Documents changed by
+ * `beforeInsert` are validated again before being inserted. They receive the
+ * active session, so side effects written with it are part of the same
+ * transaction.
+ *
+ * Unlike change stream events (`on()`), hooks do not need a replica set, but
+ * they only see writes made through the collection methods: raw driver
+ * access and `bulkWrite` bypass them.
+ *
+ * @module
+ */
+
+import type * as m from "mongodb";
+
+type Awaitable<T> = T | Promise<T>;
+
+/**
+ * Context passed to every hook, shared by the `before` and `after` hooks of
+ * an operation
+ */
+export type HookContext = {
+  /** Session of the operation, undefined outside `withSession` */
+  session: m.ClientSession | undefined;
+};
+
+/**
+ * Documents targeted by an update or delete
+ */
+export type HookTarget<TDoc> = {
+  filter: m.Filter<TDoc>;
+  /** Whether the operation may change several documents (`updateMany`, `deleteMany`...) */
+  multi: boolean;
+};
+
+/**
+ * Description of an update for the update hooks: either an update
+ * (operators or pipeline) or a full replacement document
+ */
+export type HookUpdate<TDoc> =
+  & HookTarget<TDoc>
+  & (
+    | { update: m.UpdateFilter<TDoc> | m.Document[] }
+    | { replacement: TDoc }
+  );
+
+/**
+ * Lifecycle hooks of a collection
+ * @template TDoc - Validated document type
+ * @template TNewDoc - Document type before insertion, when its `_id` may not be generated yet
+ */
+export type LifecycleHooks<TDoc, TNewDoc = TDoc> = {
+  beforeInsert: (
+    event: { document: TNewDoc },
+    context: HookContext,
+  ) => Awaitable<void>;
+  afterInsert: (
+    event: { document: TDoc },
+    context: HookContext,
+  ) => Awaitable<void>;
+  beforeUpdate: (event: HookUpdate<TDoc>, context: HookContext) => Awaitable<void>;
+  afterUpdate: (
+    event: HookUpdate<TDoc> & { matchedCount: number; modifiedCount: number },
+    context: HookContext,
+  ) => Awaitable<void>;
+  beforeDelete: (
+    event: HookTarget<TDoc>,
+    context: HookContext,
+  ) => Awaitable<void>;
+  afterDelete: (
+    event: HookTarget<TDoc> & { deletedCount: number },
+    context: HookContext,
+  ) => Awaitable<void>;
+};
+
+/**
+ * Creates a registry of awaited hooks
+ *
+ * Same registration API as `EventEmitter`, but `run` awaits every callback
+ * in registration order and propagates their errors.
+ *
+ * @template T - An object type where keys are hook names and values are callback signatures
+ */
+export function HookRegistry<
+  T extends { [key: string]: (...params: never[]) => Awaitable<void> },
+>(): {
+  hook<E extends keyof T>(event: E, callback: T[E]): () => void;
+  run<E extends keyof T>(event: E, ...params: Parameters<T[E]>): Promise<void>;
+  has(event: keyof T): boolean;
+} {
+  const hooks: {
+    [key in keyof T]?: (T[key])[];
+  } = {};
+
+  function hook<E extends keyof T>(event: E, callback: T[E]) {
+    if (!hooks[event]) hooks[event] = [];
+    hooks[event]?.push(callback);
+
+    // Return a function to remove the callback
+    return () => {
+      const index = hooks[event]?.indexOf(callback) ?? -1;
+      if (index >= 0) hooks[event]?.splice(index, 1);
+    };
+  }
+
+  async function run<E extends keyof T>(event: E, ...params: Parameters<T[E]>) {
+    // Copy so hooks removing themselves don't skip the next one
+    for (const callback of [...(hooks[event] ?? [])]) {
+      await callback(...params);
+    }
+  }
+
+  /**
+   * Whether callbacks are registered for an event, to skip work only
+   * hooks need
+   */
+  function has(event: keyof T) {
+    return (hooks[event]?.length ?? 0) > 0;
+  }
+
+  return { hook, run, has };
+}
+
+/**
+ * Counts given to `afterUpdate` for an update result
+ */
+export function updateCounts(
+  result: { matchedCount: number; modifiedCount: number },
+): { matchedCount: number; modifiedCount: number } {
+  return { matchedCount: result.matchedCount, modifiedCount: result.modifiedCount };
+}
+
+/**
+ * Counts given to `afterUpdate` for a find and modify operation, which
+ * returns the document it changed, or null if none matched
+ */
+export function foundCounts(
+  result: unknown,
+): { matchedCount: number; modifiedCount: number } {
+  const count = result ? 1 : 0;
+  return { matchedCount: count, modifiedCount: count };
+}
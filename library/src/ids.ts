@@ -1,5 +1,6 @@
 import * as v from "./schema.ts";
 import { ulid } from "@std/ulid";
+import type { OnDelete, RefOptions } from "./references.ts";
 
 /**
  * Generates a new unique ID using ULID
@@ -16,27 +17,49 @@ export function newId(): string {
  * @param type - The document type identifier to use in the ID prefix
  * @returns A Valibot schema for an ID field with optional auto-generation
  */
-export function dbId(
-  type: string,
-): v.OptionalSchema<
-  v.SchemaWithPipe<
-    readonly [v.StringSchema<undefined>, v.RegexAction<string, undefined>]
-  >,
-  () => string
-> {
+export function dbId<const K extends string>(
+  type: K,
+): v.OptionalSchema<RefIdSchema<K>, () => string> {
   return v.optional(refId(type), () => `${type}:${newId()}`);
 }
 
+/**
+ * Schema of a reference ID, carrying the referenced type in its metadata
+ */
+export type RefIdSchema<K extends string = string> = v.SchemaWithPipe<
+  readonly [
+    v.StringSchema<undefined>,
+    v.RegexAction<string, undefined>,
+    v.MetadataAction<string, { readonly ref: K; readonly onDelete?: OnDelete }>,
+  ]
+>;
+
 /**
  * Creates a reference ID field that must match a specific type prefix
  *
+ * The referenced type is kept as `ref` metadata, which lets multi-collections
+ * populate the field with the referenced element (see `populate`) and apply
+ * its `onDelete` rule when the referenced element is deleted.
+ *
  * @param type - The document type identifier that must prefix the ID
+ * @param options - Referential integrity options
  * @returns A Valibot schema for validating reference IDs
+ *
+ * @example
+ * ```typescript
+ * const catalog = await multiCollection(db, "catalog", {
+ *   category: { name: v.string() },
+ *   product: { category: refId("category", { onDelete: "restrict" }) },
+ * });
+ * ```
  */
-export function refId(
-  type: string,
-): v.SchemaWithPipe<
-  readonly [v.StringSchema<undefined>, v.RegexAction<string, undefined>]
-> {
-  return v.pipe(v.string(), v.regex(new RegExp(`^${type}:[a-zA-Z0-9]+`)));
+export function refId<const K extends string>(
+  type: K,
+  options: RefOptions = {},
+): RefIdSchema<K> {
+  return v.pipe(
+    v.string(),
+    v.regex(new RegExp(`^${type}:[a-zA-Z0-9]+`)),
+    v.metadata(options.onDelete ? { ref: type, onDelete: options.onDelete } : { ref: type }),
+  );
 }
@@ -1,8 +1,34 @@
 import { ulid } from "@std/ulid/ulid";
-import type { DatabaseState, MigrationDefinition, MigrationRule } from "../types.ts"
+import type { DatabaseState, MigrationDefinition, MigrationRule, TransformFunction } from "../types.ts"
 import * as v from "valibot"
+import { createStateTransformContext } from "../transform-context.ts"
 
 export function createMemoryApplier(_migration: MigrationDefinition) {
+  /**
+   * Transforms the documents of a simulated collection (of a document type
+   * if given) in a single batch, reading the simulated state
+   */
+  async function transformContent(
+    state: DatabaseState,
+    collectionName: string,
+    content: Record<string, unknown>[],
+    transformer: TransformFunction,
+    documentType?: string,
+  ): Promise<Record<string, unknown>[]> {
+    const matches = (doc: Record<string, unknown>) => documentType === undefined || doc._type === documentType;
+    const context = createStateTransformContext(state, {
+      collectionName,
+      index: 0,
+      size: content.filter(matches).length,
+    });
+
+    const transformed: Record<string, unknown>[] = [];
+    for (const doc of content) {
+      transformed.push(matches(doc) ? await transformer(doc, context) : doc);
+    }
+    return transformed;
+  }
+
   const migrations: {
     [K in MigrationRule['type']]: {
       apply: (state: DatabaseState, operation: Extract<MigrationRule, { type: K }>) => DatabaseState | Promise<DatabaseState>,
@@ -181,15 +207,15 @@ export function createMemoryApplier(_migration: MigrationDefinition) {
       }
     },
     transform_collection: {
-      apply: (state, operation) => {
+      apply: async (state, operation) => {
         const collection = state.collections[operation.collectionName];
         if(!collection) {
           throw new Error(`Collection ${operation.collectionName} does not exist`);
         }
-        collection.content = collection.content.map(operation.up as (doc: Record<string, unknown>) => Record<string, unknown>);
+        collection.content = await transformContent(state, operation.collectionName, collection.content, operation.up);
         return state;
       },
-      reverse: (state, operation) => {
+      reverse: async (state, operation) => {
         if (operation.irreversible) {
           throw new Error(`Operation is irreversible`);
         }
@@ -197,25 +223,26 @@ export function createMemoryApplier(_migration: MigrationDefinition) {
         if(!collection) {
           throw new Error(`Collection ${operation.collectionName} does not exist`);
         }
-        collection.content = collection.content.map(operation.down as (doc: Record<string, unknown>) => Record<string, unknown>);
+        collection.content = await transformContent(state, operation.collectionName, collection.content, operation.down);
         return state;
       }
     },
     transform_multicollection_type: {
-      apply: (state, operation) => {
+      apply: async (state, operation) => {
         const multiCollection = state.multiCollections[operation.collectionName];
         if(!multiCollection) {
           throw new Error(`Multi-collection ${operation.collectionName} does not exist`);
         }
-        multiCollection.content = multiCollection.content.map(doc => {
-          if (doc._type === operation.documentType) {
-            return operation.up(doc as Record<string, unknown>);
-          }
-          return doc;
-        });
+        multiCollection.content = await transformContent(
+          state,
+          operation.collectionName,
+          multiCollection.content,
+          operation.up,
+          operation.documentType,
+        );
         return state;
       },
-      reverse: (state, operation) => {
+      reverse: async (state, operation) => {
         if (operation.irreversible) {
           throw new Error(`Operation is irreversible`);
         }
@@ -223,30 +250,32 @@ export function createMemoryApplier(_migration: MigrationDefinition) {
         if(!multiCollection) {
           throw new Error(`Multi-collection ${operation.collectionName} does not exist`);
         }
-        multiCollection.content = multiCollection.content.map(doc => {
-          if (doc._type === operation.documentType) {
-            return operation.down(doc as Record<string, unknown>);
-          }
-          return doc;
-        });
+        multiCollection.content = await transformContent(
+          state,
+          operation.collectionName,
+          multiCollection.content,
+          operation.down,
+          operation.documentType,
+        );
         return state;
       }
     },
     transform_multimodel_instance_type: {
-      apply: (state, operation) => {
+      apply: async (state, operation) => {
         const multiCollection = state.multiModels[operation.collectionName];
         if(!multiCollection) {
           throw new Error(`Multi-model instance ${operation.collectionName} does not exist`);
         }
-        multiCollection.content = multiCollection.content.map(doc => {
-          if (doc._type === operation.documentType) {
-            return operation.up(doc as Record<string, unknown>);
-          }
-          return doc;
-        });
+        multiCollection.content = await transformContent(
+          state,
+          operation.collectionName,
+          multiCollection.content,
+          operation.up,
+          operation.documentType,
+        );
         return state;
       },
-      reverse: (state, operation) => {
+      reverse: async (state, operation) => {
         if (operation.irreversible) {
           throw new Error(`Operation is irreversible`);
         }
@@ -254,43 +283,46 @@ export function createMemoryApplier(_migration: MigrationDefinition) {
         if(!multiCollection) {
           throw new Error(`Multi-model instance ${operation.collectionName} does not exist`);
         }
-        multiCollection.content = multiCollection.content.map(doc => {
-          if (doc._type === operation.documentType) {
-            return operation.down(doc as Record<string, unknown>);
-          }
-          return doc;
-        });
+        multiCollection.content = await transformContent(
+          state,
+          operation.collectionName,
+          multiCollection.content,
+          operation.down,
+          operation.documentType,
+        );
         return state;
       }
     },
     transform_multimodel_instances_type: {
-      apply: (state, operation) => {
+      apply: async (state, operation) => {
         const modelType = operation.modelType;
-        for (const [_instanceName, instance] of Object.entries(state.multiModels)) {
+        for (const [instanceName, instance] of Object.entries(state.multiModels)) {
           if (instance.modelType === modelType) {
-            instance.content = instance.content.map(doc => {
-              if (doc._type === operation.documentType) {
-                return operation.up(doc as Record<string, unknown>);
-              }
-              return doc;
-            });
+            instance.content = await transformContent(
+              state,
+              instanceName,
+              instance.content,
+              operation.up,
+              operation.documentType,
+            );
           }
         }
         return state;
       },
-      reverse: (state, operation) => {
+      reverse: async (state, operation) => {
         if (operation.irreversible) {
           throw new Error(`Operation is irreversible`);
         }
         const modelType = operation.modelType;
-        for (const [_instanceName, instance] of Object.entries(state.multiModels)) {
+        for (const [instanceName, instance] of Object.entries(state.multiModels)) {
           if (instance.modelType === modelType) {
-            instance.content = instance.content.map(doc => {
-              if (doc._type === operation.documentType) {
-                return operation.down(doc as Record<string, unknown>);
-              }
-              return doc;
-            });
+            instance.content = await transformContent(
+              state,
+              instanceName,
+              instance.content,
+              operation.down,
+              operation.documentType,
+            );
           }
         }
         return state;
@@ -9,7 +9,7 @@
  */
 
 import type { Db } from "../../mongodb.ts";
-import type { MigrationDefinition, MigrationRule, SchemasDefinition } from "../types.ts";
+import type { MigrationDefinition, MigrationRule, SchemasDefinition, TransformFunction } from "../types.ts";
 import { ulid } from "@std/ulid";
 import * as v from "valibot";
 import { toMongoValidator } from "../../validator.ts";
@@ -25,6 +25,17 @@ import {
   shouldInstanceReceiveMigration,
 } from "../multicollection-registry.ts";
 import { ObjectId } from "mongodb";
+import { createMongodbTransformContext } from "../transform-context.ts";
+import {
+  clearTransformCheckpoints,
+  getTransformCheckpoint,
+  removeTransformCheckpoints,
+  saveTransformCheckpoint,
+  type TransformProgress,
+} from "../checkpoint.ts";
+import { createLogger } from "../../utils/logger.ts";
+
+const log = createLogger("migration");
 
 /**
  * Generates a new unique ID using ULID
@@ -41,14 +52,22 @@ export interface MongodbApplierOptions {
   strictValidation?: boolean;
   /** Maximum number of documents to process in a single batch */
   batchSize?: number;
-  /** Current migration ID being applied (for version tracking) */
+  /** Current migration ID being applied (for version tracking and transform checkpoints) */
   currentMigrationId?: string;
+  /** Called after each batch of a transform */
+  onProgress?: (progress: TransformProgress) => void;
+  /**
+   * Aborts the migration before its next operation or transform batch,
+   * e.g. the signal of the migration lock
+   */
+  signal?: AbortSignal;
 }
 
-const DEFAULT_OPTIONS: Required<MongodbApplierOptions> = {
+const DEFAULT_OPTIONS: Required<Omit<MongodbApplierOptions, "signal">> = {
   strictValidation: true,
   batchSize: 1000,
   currentMigrationId: "unknown",
+  onProgress: () => {},
 };
 
 export function createMongodbApplier(
@@ -60,6 +79,7 @@ export function createMongodbApplier(
   reverseOperation: (operation: MigrationRule) => Promise<void>;
   applyMigration: (operations: MigrationRule[], direction: 'up' | 'down') => Promise<void>;
   setCurrentMigrationId: (migrationId: string) => void;
+  clearCheckpoints: () => Promise<void>;
 } {
   const opts = { ...DEFAULT_OPTIONS, ...options };
 
@@ -232,34 +252,135 @@ export function createMongodbApplier(
     }
   }
 
+  /**
+   * Number of transforms started per collection and filter, to tell apart
+   * the checkpoints of several transforms of one migration on the same
+   * documents
+   */
+  const transformOccurrences = new Map<string, number>();
+
+  /** Checkpoints written by this applier */
+  const checkpointIds = new Set<string>();
+
+  /**
+   * Throw when the documents to transform mix `_id` types, the documents
+   * of the other types would be skipped by the batches
+   */
+  async function assertSingleIdType(
+    collectionName: string,
+    filter: Record<string, unknown>,
+  ): Promise<void> {
+    const types = await db.collection(collectionName).aggregate<{ _id: string }>([
+      { $match: filter },
+      { $group: { _id: { $type: "$_id" } } },
+    ]).toArray();
+
+    // Numbers of every type are compared with each other
+    const numeric = ["double", "int", "long", "decimal"];
+    const kinds = new Set(types.map(({ _id }) => numeric.includes(_id) ? "number" : _id));
+    if (kinds.size > 1) {
+      throw new Error(
+        `Cannot transform ${collectionName}: its documents mix _id types (${[...kinds].sort().join(", ")})`,
+      );
+    }
+  }
+
   /**
    * Helper to transform documents in batches
+   *
+   * Documents are read in `_id` order, each batch starting after the last
+   * `_id` of the previous one, so that transformed documents which no longer
+   * match the filter don't shift the next batches. Within a migration, the
+   * last `_id` is checkpointed after each batch and an interrupted transform
+   * resumes from it. The batch write and its checkpoint are not atomic: a
+   * batch interrupted before its checkpoint is written is transformed again,
+   * its documents possibly already written. Collections mixing `_id` types
+   * are rejected, as `$gt` only compares values of the same type.
    */
   async function transformDocuments(
     collectionName: string,
     filter: Record<string, unknown>,
-    transformer: (doc: Record<string, unknown>) => Record<string, unknown>,
+    transformer: TransformFunction,
+    direction: 'up' | 'down',
   ): Promise<void> {
     const collection = db.collection(collectionName);
-    let processedCount = 0;
+    const migrationId = opts.currentMigrationId;
+    const checkpointed = migrationId !== DEFAULT_OPTIONS.currentMigrationId;
+
+    const operationKey = `${direction}:${collectionName}:${JSON.stringify(filter)}`;
+    const occurrence = transformOccurrences.get(operationKey) ?? 0;
+    transformOccurrences.set(operationKey, occurrence + 1);
+    const checkpointId = `${migrationId}:${operationKey}:${occurrence}`;
+
+    const checkpoint = checkpointed ? await getTransformCheckpoint(db, checkpointId) : null;
+    if (checkpointed) {
+      checkpointIds.add(checkpointId);
+    }
+    if (checkpoint?.completed) {
+      log.info(`Transform of ${collectionName} already completed, skipping`);
+      return;
+    }
+
+    let lastId = checkpoint?.lastId;
+    let processedCount = checkpoint?.processed ?? 0;
+    let batchIndex = 0;
+    const resumedFrom = processedCount;
+    if (checkpoint) {
+      log.info(`Resuming transform of ${collectionName} after ${processedCount} document(s)`);
+    }
+
+    await assertSingleIdType(collectionName, filter);
+    const total = processedCount + await collection.countDocuments(
+      lastId === undefined ? filter : { $and: [filter, { _id: { $gt: lastId } }] },
+    );
+    const startTime = Date.now();
+
+    const reportProgress = (done: boolean) => {
+      const elapsedMs = Date.now() - startTime;
+      const docsPerSecond = elapsedMs > 0 ? ((processedCount - resumedFrom) * 1000) / elapsedMs : 0;
+      opts.onProgress({
+        migrationId,
+        collectionName,
+        processed: processedCount,
+        total,
+        resumedFrom,
+        elapsedMs,
+        docsPerSecond,
+        etaMs: docsPerSecond > 0
+          ? (Math.max(total - processedCount, 0) * 1000) / docsPerSecond
+          : undefined,
+        done,
+      });
+    };
 
     while (true) {
-      const documents = await collection.find(filter)
+      opts.signal?.throwIfAborted();
+      const documents = await collection
+        .find(lastId === undefined ? filter : { $and: [filter, { _id: { $gt: lastId } }] })
+        .sort({ _id: 1 })
         .limit(opts.batchSize)
-        .skip(processedCount)
         .toArray();
 
       if (documents.length === 0) break;
 
-      const bulkOps = documents.map(doc => {
+      const context = createMongodbTransformContext(db, {
+        collectionName,
+        index: batchIndex,
+        size: documents.length,
+      });
+
+      // Documents are transformed one at a time, so that transforms reading
+      // the database don't flood it with concurrent queries
+      const bulkOps = [];
+      for (const doc of documents) {
         try {
-          const transformed = transformer(doc);
-          return {
+          const transformed = await transformer(doc, context);
+          bulkOps.push({
             replaceOne: {
               filter: { _id: doc._id },
               replacement: transformed,
             },
-          };
+          });
         } catch (error) {
           if (opts.strictValidation) {
             throw new Error(
@@ -269,16 +390,43 @@ export function createMongodbApplier(
             );
           }
           console.warn(`Skipping document ${doc._id} due to transform error:`, error);
-          return null;
         }
-      }).filter(op => op !== null);
+      }
 
       if (bulkOps.length > 0) {
         await collection.bulkWrite(bulkOps);
       }
 
+      lastId = documents[documents.length - 1]._id;
       processedCount += documents.length;
+      batchIndex++;
+
+      if (checkpointed) {
+        await saveTransformCheckpoint(db, {
+          _id: checkpointId,
+          migrationId,
+          direction,
+          collectionName,
+          lastId,
+          processed: processedCount,
+          completed: false,
+        });
+      }
+      reportProgress(false);
     }
+
+    if (checkpointed) {
+      await saveTransformCheckpoint(db, {
+        _id: checkpointId,
+        migrationId,
+        direction,
+        collectionName,
+        lastId,
+        processed: processedCount,
+        completed: true,
+      });
+    }
+    reportProgress(true);
   }
 
   const migrations: {
@@ -786,7 +934,7 @@ export function createMongodbApplier(
         if (opts.strictValidation && !await collectionExists(operation.collectionName)) {
           throw new Error(`Collection ${operation.collectionName} does not exist`);
         }
-        await transformDocuments(operation.collectionName, {}, operation.up as (doc: Record<string, unknown>) => Record<string, unknown>);
+        await transformDocuments(operation.collectionName, {}, operation.up, 'up');
       },
       reverse: async (operation) => {
         if (operation.irreversible) {
@@ -795,7 +943,7 @@ export function createMongodbApplier(
         if (opts.strictValidation && !await collectionExists(operation.collectionName)) {
           throw new Error(`Collection ${operation.collectionName} does not exist`);
         }
-        await transformDocuments(operation.collectionName, {}, operation.down as (doc: Record<string, unknown>) => Record<string, unknown>);
+        await transformDocuments(operation.collectionName, {}, operation.down, 'down');
       }
     },
 
@@ -807,7 +955,8 @@ export function createMongodbApplier(
         await transformDocuments(
           operation.collectionName,
           { _type: operation.documentType } as Record<string, unknown>,
-          operation.up as (doc: Record<string, unknown>) => Record<string, unknown>
+          operation.up,
+          'up',
         );
       },
       reverse: async (operation) => {
@@ -820,7 +969,8 @@ export function createMongodbApplier(
         await transformDocuments(
           operation.collectionName,
           { _type: operation.documentType } as Record<string, unknown>,
-          operation.down as (doc: Record<string, unknown>) => Record<string, unknown>
+          operation.down,
+          'down',
         );
       }
     },
@@ -833,7 +983,8 @@ export function createMongodbApplier(
         await transformDocuments(
           operation.collectionName,
           { _type: operation.documentType } as Record<string, unknown>,
-          operation.up as (doc: Record<string, unknown>) => Record<string, unknown>
+          operation.up,
+          'up',
         );
       },
       reverse: async (operation) => {
@@ -846,7 +997,8 @@ export function createMongodbApplier(
         await transformDocuments(
           operation.collectionName,
           { _type: operation.documentType } as Record<string, unknown>,
-          operation.down as (doc: Record<string, unknown>) => Record<string, unknown>
+          operation.down,
+          'down',
         );
       }
     },
@@ -877,7 +1029,8 @@ export function createMongodbApplier(
           await transformDocuments(
             collectionName,
             { _type: operation.documentType } as Record<string, unknown>,
-            operation.up as (doc: Record<string, unknown>) => Record<string, unknown>
+            operation.up,
+            'up',
           );
 
           // Record migration for this instance (only once per migration, even if multiple operations)
@@ -901,7 +1054,8 @@ export function createMongodbApplier(
           await transformDocuments(
             collectionName,
             { _type: operation.documentType } as Record<string, unknown>,
-            operation.down as (doc: Record<string, unknown>) => Record<string, unknown>
+            operation.down,
+            'down',
           );
 
           // Record rollback for this instance (only once per migration, even if multiple operations)
@@ -1108,6 +1262,7 @@ export function createMongodbApplier(
   };
 
   async function applyOperation(operation: MigrationRule): Promise<void> {
+    opts.signal?.throwIfAborted();
     const handler = migrations[operation.type]?.apply;
     if (!handler) {
       throw new Error(`No handler for operation type: ${operation.type}`);
@@ -1118,6 +1273,7 @@ export function createMongodbApplier(
   }
 
   async function reverseOperation(operation: MigrationRule): Promise<void> {
+    opts.signal?.throwIfAborted();
     const handler = migrations[operation.type]?.reverse;
     if (!handler) {
       throw new Error(`No reverse handler for operation type: ${operation.type}`);
@@ -1156,7 +1312,18 @@ export function createMongodbApplier(
     // - Down: new validators would reject documents transformed back to old schema
     await disableAllValidators(targetSchemas);
 
+    // Checkpoints of an interrupted run in the other direction are stale
+    if (opts.currentMigrationId !== DEFAULT_OPTIONS.currentMigrationId) {
+      await clearTransformCheckpoints(
+        db,
+        opts.currentMigrationId,
+        direction === 'up' ? 'down' : 'up',
+      );
+    }
+
     // STEP 2: Apply all operations without validation interference
+    // Transforms completed by an interrupted run are skipped and the
+    // interrupted one resumes from its checkpoint
     for (const operation of operations) {
       if (direction === 'up') {
         await applyOperation(operation);
@@ -1176,6 +1343,23 @@ export function createMongodbApplier(
         direction === 'up' ? 'applied' : 'reverted'
       );
     }
+
+    // STEP 5: Remove transform checkpoints, the migration went through
+    if (opts.currentMigrationId !== DEFAULT_OPTIONS.currentMigrationId) {
+      await clearTransformCheckpoints(db, opts.currentMigrationId);
+    }
+    checkpointIds.clear();
+    transformOccurrences.clear();
+  }
+
+  /**
+   * Removes the checkpoints of the transforms run by this applier, once the
+   * operations applied one by one all went through
+   */
+  async function clearCheckpoints(): Promise<void> {
+    await removeTransformCheckpoints(db, [...checkpointIds]);
+    checkpointIds.clear();
+    transformOccurrences.clear();
   }
 
   /**
@@ -1229,5 +1413,6 @@ export function createMongodbApplier(
     setCurrentMigrationId: (migrationId: string) => {
       opts.currentMigrationId = migrationId;
     },
+    clearCheckpoints,
   };
 }
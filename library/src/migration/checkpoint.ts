@@ -0,0 +1,166 @@
+/**
+ * @fileoverview Checkpoints of migration transforms
+ *
+ * The MongoDB applier transforms documents in batches ordered by `_id` and
+ * records, after each batch, the last `_id` it wrote. A migration interrupted
+ * in the middle of a transform (crash, timeout, failing transform) resumes
+ * after that document on the next run instead of starting over, and the
+ * transforms it had completed are not run a second time.
+ *
+ * A batch is written before its checkpoint, not atomically: a run
+ * interrupted between the two transforms that batch again, documents already
+ * transformed included. Transforms are applied at least once, so they should
+ * accept their own output (e.g. `{ ...doc, slug: doc.slug ?? slugify(doc.name) }`).
+ *
+ * Checkpoints are scoped to a migration and a direction, and are removed once
+ * the migration has been fully applied or reverted.
+ *
+ * @module
+ */
+
+import type * as m from "mongodb";
+import type { Db } from "../mongodb.ts";
+
+/**
+ * Name of the collection holding transform checkpoints
+ */
+export const MIGRATION_CHECKPOINT_COLLECTION = "__dbee_migration_checkpoint__";
+
+/**
+ * Checkpoint document stored in the database
+ */
+export type TransformCheckpoint = {
+  /** Migration, direction, collection, filter and occurrence of the transform */
+  _id: string;
+
+  migrationId: string;
+
+  direction: "up" | "down";
+
+  collectionName: string;
+
+  /** `_id` of the last transformed document */
+  lastId?: unknown;
+
+  /** Number of documents processed so far */
+  processed: number;
+
+  /** The transform went through the whole collection */
+  completed: boolean;
+
+  updatedAt: Date;
+};
+
+/**
+ * Progress of a transform, reported after each batch
+ */
+export type TransformProgress = {
+  migrationId: string;
+
+  collectionName: string;
+
+  /** Documents processed, including those of an interrupted run */
+  processed: number;
+
+  /** Documents matching the transform when it started */
+  total: number;
+
+  /** Documents processed before resuming an interrupted run */
+  resumedFrom: number;
+
+  /** Time spent by this run, in milliseconds */
+  elapsedMs: number;
+
+  /** Throughput of this run */
+  docsPerSecond: number;
+
+  /** Estimated remaining time in milliseconds, undefined until measurable */
+  etaMs?: number;
+
+  /** Last report of the transform */
+  done: boolean;
+};
+
+function getCheckpointCollection(db: Db): m.Collection<TransformCheckpoint> {
+  return db.collection<TransformCheckpoint>(MIGRATION_CHECKPOINT_COLLECTION);
+}
+
+/**
+ * Get the checkpoint of a transform
+ *
+ * @param db - Database instance
+ * @param id - Checkpoint ID
+ * @returns The checkpoint, or null if the transform has not started
+ */
+export async function getTransformCheckpoint(
+  db: Db,
+  id: string,
+): Promise<TransformCheckpoint | null> {
+  return await getCheckpointCollection(db).findOne({ _id: id });
+}
+
+/**
+ * Record the progress of a transform
+ *
+ * @param db - Database instance
+ * @param checkpoint - Checkpoint to save, replacing the previous one
+ */
+export async function saveTransformCheckpoint(
+  db: Db,
+  checkpoint: Omit<TransformCheckpoint, "updatedAt">,
+): Promise<void> {
+  await getCheckpointCollection(db).replaceOne(
+    { _id: checkpoint._id },
+    { ...checkpoint, updatedAt: new Date() },
+    { upsert: true },
+  );
+}
+
+/**
+ * List the checkpoints of interrupted or in-progress migrations
+ *
+ * @param db - Database instance
+ * @param migrationId - Only list the checkpoints of this migration
+ */
+export async function listTransformCheckpoints(
+  db: Db,
+  migrationId?: string,
+): Promise<TransformCheckpoint[]> {
+  return await getCheckpointCollection(db)
+    .find(migrationId ? { migrationId } : {})
+    .sort({ updatedAt: 1 })
+    .toArray();
+}
+
+/**
+ * Remove the checkpoints of a migration, so that its transforms start over
+ *
+ * @param db - Database instance
+ * @param migrationId - Migration ID
+ * @param direction - Only remove the checkpoints of this direction
+ * @returns Number of removed checkpoints
+ */
+export async function clearTransformCheckpoints(
+  db: Db,
+  migrationId: string,
+  direction?: "up" | "down",
+): Promise<number> {
+  const result = await getCheckpointCollection(db).deleteMany(
+    direction ? { migrationId, direction } : { migrationId },
+  );
+  return result.deletedCount;
+}
+
+/**
+ * Remove checkpoints by ID
+ *
+ * @param db - Database instance
+ * @param ids - Checkpoint IDs
+ */
+export async function removeTransformCheckpoints(
+  db: Db,
+  ids: string[],
+): Promise<void> {
+  if (ids.length === 0) return;
+  await getCheckpointCollection(db).deleteMany({ _id: { $in: ids } });
+}
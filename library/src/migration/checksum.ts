@@ -0,0 +1,174 @@
+/**
+ * @fileoverview Checksums of migration definitions
+ *
+ * The checksum of a migration is recorded when it is applied, so that
+ * `status`, `check` and `migrate` can detect applied migrations that were
+ * edited afterwards (the database would then drift from environments where
+ * the new version was applied).
+ *
+ * The checksum covers what the migration does rather than the file text: its
+ * schemas and the compiled operations of its builder, functions included
+ * (with whitespace collapsed, so reformatting a file doesn't change it).
+ * Values generated when the file is loaded, such as dates and ObjectIds in
+ * seed documents, are only hashed by type.
+ *
+ * @module
+ */
+
+import { createHash } from "node:crypto";
+import type { Db } from "../mongodb.ts";
+import type { MigrationDefinition } from "./types.ts";
+import { migrationBuilder } from "./builder.ts";
+import { getAllOperations, updateAppliedChecksum, type MigrationOperation } from "./history.ts";
+
+/**
+ * Applied migration whose definition changed since it was applied
+ */
+export type ModifiedMigration = {
+  migration: MigrationDefinition;
+
+  /** Checksum recorded when the migration was applied */
+  appliedChecksum: string;
+
+  /** Checksum of the current definition */
+  currentChecksum: string;
+};
+
+const SCHEMA_NODE_KINDS = new Set(["schema", "validation", "transformation", "metadata"]);
+
+/**
+ * Convert a value to a JSON-serializable form with a deterministic key order
+ */
+function canonicalize(value: unknown, ancestors: Set<unknown>): unknown {
+  if (typeof value === "function") {
+    return `[Function ${value.toString().replace(/\s+/g, " ")}]`;
+  }
+  if (typeof value === "bigint" || typeof value === "symbol") {
+    return `[${typeof value} ${value.toString()}]`;
+  }
+  if (value === undefined || value === null || typeof value !== "object") {
+    return value;
+  }
+  if (value instanceof RegExp) {
+    return `[RegExp ${value.toString()}]`;
+  }
+  if (ancestors.has(value)) {
+    return "[Circular]";
+  }
+
+  ancestors.add(value);
+  try {
+    if (Array.isArray(value)) {
+      return value.map((item) => canonicalize(item, ancestors));
+    }
+
+    const prototype = Object.getPrototypeOf(value);
+    if (prototype !== Object.prototype && prototype !== null) {
+      // Dates, ObjectIds... are usually generated when the file is loaded
+      return `[${prototype.constructor?.name ?? "Object"}]`;
+    }
+
+    const record = value as Record<string, unknown>;
+    // Valibot internals (`~run`, `~standard`, `reference`) depend on the
+    // library version, not on the migration
+    const isSchemaNode = SCHEMA_NODE_KINDS.has(record.kind as string);
+
+    const result: Record<string, unknown> = {};
+    for (const key of Object.keys(record).sort()) {
+      if (record[key] === undefined) continue;
+      if (isSchemaNode && (key.startsWith("~") || key === "reference")) continue;
+      result[key] = canonicalize(record[key], ancestors);
+    }
+    return result;
+  } finally {
+    ancestors.delete(value);
+  }
+}
+
+/**
+ * Compute the checksum of a migration definition
+ *
+ * @param migration - Migration definition
+ * @returns SHA-256 hex digest of the schemas and compiled operations
+ */
+export function computeMigrationChecksum(migration: MigrationDefinition): string {
+  const builder = migrationBuilder({ schemas: migration.schemas });
+  const { operations } = migration.migrate(builder);
+
+  const content = JSON.stringify(canonicalize({
+    id: migration.id,
+    schemas: migration.schemas,
+    operations,
+  }, new Set()));
+
+  return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Get the checksum recorded for each applied migration
+ *
+ * Migrations applied before checksums were recorded have none and are left
+ * out.
+ */
+async function getAppliedChecksums(db: Db): Promise<Map<string, string>> {
+  const byMigration = new Map<string, MigrationOperation[]>();
+  for (const op of await getAllOperations(db)) {
+    if (op.status !== "success") continue;
+    const operations = byMigration.get(op.migrationId) ?? [];
+    operations.push(op);
+    byMigration.set(op.migrationId, operations);
+  }
+
+  const checksums = new Map<string, string>();
+  for (const [migrationId, operations] of byMigration) {
+    const last = operations[operations.length - 1];
+    if (last.operation === "applied" && last.checksum) {
+      checksums.set(migrationId, last.checksum);
+    }
+  }
+  return checksums;
+}
+
+/**
+ * Find the applied migrations whose definition changed since they were applied
+ *
+ * @param db - Database instance
+ * @param migrations - Current migration chain
+ * @returns The modified migrations, in chain order
+ */
+export async function findModifiedMigrations(
+  db: Db,
+  migrations: MigrationDefinition[],
+): Promise<ModifiedMigration[]> {
+  const appliedChecksums = await getAppliedChecksums(db);
+  const modified: ModifiedMigration[] = [];
+
+  for (const migration of migrations) {
+    const appliedChecksum = appliedChecksums.get(migration.id);
+    if (!appliedChecksum) continue;
+
+    const currentChecksum = computeMigrationChecksum(migration);
+    if (currentChecksum !== appliedChecksum) {
+      modified.push({ migration, appliedChecksum, currentChecksum });
+    }
+  }
+
+  return modified;
+}
+
+/**
+ * Record the current checksums of modified migrations, so they are no longer
+ * reported. The database is not changed: the new definitions are accepted as
+ * they are.
+ *
+ * @param db - Database instance
+ * @param modified - Modified migrations returned by `findModifiedMigrations`
+ */
+export async function acceptMigrationChanges(
+  db: Db,
+  modified: ModifiedMigration[],
+): Promise<void> {
+  for (const { migration, currentChecksum } of modified) {
+    await updateAppliedChecksum(db, migration.id, currentChecksum);
+  }
+}
@@ -9,6 +9,7 @@
 import process from "node:process";
 import { blue, bold, dim, green, red, yellow } from "@std/fmt/colors";
 import * as path from "@std/path";
+import { MongoClient } from "../../../mongodb.ts";
 
 import { loadConfig } from "../../config/loader.ts";
 import {
@@ -18,6 +19,7 @@ import {
 import { validateMigrationChainWithProjectSchema } from "../../schema-validation.ts";
 import { validateMigrationsWithSimulation } from "../utils/validate-migrations.ts";
 import type { SimulationPowerLevel } from "../../validators/simulation.ts";
+import { checkModifiedMigrations } from "../utils/modified-migrations.ts";
 
 export interface CheckCommandOptions {
   configPath?: string;
@@ -34,6 +36,8 @@ export interface CheckCommandOptions {
    * Only validate the last N migrations
    */
   last?: number;
+  /** Report applied migrations modified afterwards as warnings instead of errors */
+  acceptChanges?: boolean;
 }
 
 /**
@@ -129,4 +133,34 @@ export async function checkCommand(
     powerLevel,
     lastN,
   });
+
+  // Compare applied migrations with their current definitions
+  console.log(bold("🔍 Checking applied migrations..."));
+
+  const connectionUri = config.database?.connection?.uri ||
+    "mongodb://localhost:27017";
+  const dbName = config.database?.name || "myapp";
+  const acceptChanges = options.acceptChanges ||
+    (options as { "accept-changes"?: boolean })["accept-changes"];
+
+  const client = new MongoClient(connectionUri, { serverSelectionTimeoutMS: 5000 });
+  try {
+    await client.connect();
+  } catch {
+    console.log(dim("  Database unreachable, skipped"));
+    console.log();
+    return;
+  }
+
+  try {
+    const modifiedCount = await checkModifiedMigrations(client.db(dbName), allMigrations, {
+      acceptChanges: acceptChanges ? "warn" : undefined,
+    });
+    if (modifiedCount === 0) {
+      console.log(green("  ✓ Applied migrations are unchanged"));
+      console.log();
+    }
+  } finally {
+    await client.close(true);
+  }
 }
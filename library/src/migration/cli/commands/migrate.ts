@@ -23,11 +23,16 @@ import {
   markMigrationAsFailed,
 } from "../../state.ts";
 import { createMongodbApplier } from "../../appliers/mongodb.ts";
+import { acquireMigrationLock, type MigrationLockHandle } from "../../lock.ts";
 import { validateMigrationChainWithProjectSchema } from "../../schema-validation.ts";
 import { validateMigrationsWithSimulation } from "../utils/validate-migrations.ts";
 import type { SimulationPowerLevel } from "../../validators/simulation.ts";
 import { migrationBuilder } from "../../builder.ts";
 import { confirm } from "../utils/confirm.ts";
+import { checkModifiedMigrations } from "../utils/modified-migrations.ts";
+import { computeMigrationChecksum } from "../../checksum.ts";
+import { planMigrateTo } from "../../plan.ts";
+import { createTransformProgressReporter } from "../utils/transform-progress.ts";
 import {
   detectInstancesNeedingCatchUp,
   filterOperationsForModelType,
@@ -41,6 +46,7 @@ interface CliArgs {
   force?: boolean;
   verbose?: boolean;
   "auto-sync"?: boolean;
+  "accept-changes"?: boolean;
   mode?: string;
   last?: number;
   [key: string]: unknown;
@@ -54,6 +60,10 @@ export interface MigrateCommandOptions {
   verbose?: boolean;
   /** Automatically catch up orphaned multi-model instances without confirmation */
   autoSync?: boolean;
+  /** Only apply the migrations up to this one (included) */
+  to?: string;
+  /** Record the new checksums of applied migrations modified afterwards instead of failing */
+  acceptChanges?: boolean;
   /**
    * Simulation mode controlling validation complexity
    * - `quick`: Fast validation with minimal mock data
@@ -90,6 +100,7 @@ export async function migrateCommand(
   console.log();
 
   let client: MongoClient | undefined;
+  let lock: MigrationLockHandle | undefined;
 
   try {
     // Map CLI args to options (handle kebab-case to camelCase)
@@ -101,6 +112,8 @@ export async function migrateCommand(
       force: options.force,
       verbose: options.verbose,
       autoSync: options.autoSync || cliArgs["auto-sync"],
+      acceptChanges: options.acceptChanges || cliArgs["accept-changes"],
+      to: options.to !== undefined ? String(options.to) : undefined,
       mode: options.mode || cliArgs.mode,
       last: options.last || cliArgs.last,
     };
@@ -126,6 +139,9 @@ export async function migrateCommand(
 
     const db = client.db(dbName);
 
+    // Hold the migration lock so concurrent runs don't apply the same migrations
+    lock = await acquireMigrationLock(db, { command: "migrate" });
+
     // Discover and load migrations
     const migrationsWithFiles = await loadAllMigrations(migrationsDir);
     
@@ -175,8 +191,32 @@ export async function migrateCommand(
     const appliedIds = await getAppliedMigrationIds(db);
     console.log(dim(`Applied migrations: ${appliedIds.length}`));
 
-    // Calculate pending migrations
-    const pendingMigrations = getPendingMigrations(allMigrations, appliedIds);
+    // Applied migrations must not have been edited since they were applied
+    await checkModifiedMigrations(db, allMigrations, {
+      acceptChanges: opts.acceptChanges ? (opts.dryRun ? "warn" : "record") : undefined,
+    });
+
+    // Calculate pending migrations, up to the target migration with --to
+    const plan = opts.to ? planMigrateTo(allMigrations, appliedIds, opts.to) : undefined;
+    const pendingMigrations = plan
+      ? plan.map((step) => step.migration)
+      : getPendingMigrations(allMigrations, appliedIds);
+
+    if (plan && plan.length > 0) {
+      console.log();
+      console.log(bold(`Migration plan (${plan.length} migration(s) up to ${opts.to}):`));
+      plan.forEach((step, index) => {
+        const tags: string[] = [];
+        if (step.irreversible) tags.push(red("irreversible"));
+        if (step.lossy) tags.push(yellow("lossy"));
+        console.log(
+          `  ${index + 1}. ${step.migration.name} ${dim(`(${step.migration.id})`)}${
+            tags.length > 0 ? `  ${tags.join(", ")}` : ""
+          }`,
+        );
+      });
+      console.log();
+    }
 
     if (pendingMigrations.length === 0) {
       console.log(green("✓ No pending migrations. Database is up to date."));
@@ -261,12 +301,15 @@ export async function migrateCommand(
                   // Create applier for this migration
                   const applier = createMongodbApplier(db, migration, {
                     currentMigrationId: migration.id,
+                    onProgress: createTransformProgressReporter(),
+                    signal: lock?.signal,
                   });
 
                   // Apply filtered operations
                   for (const op of filteredOps) {
                     await applier.applyOperation(op);
                   }
+                  await applier.clearCheckpoints();
 
                   const duration = Date.now() - startTime;
 
@@ -411,12 +454,15 @@ export async function migrateCommand(
                   // Create applier and apply only filtered operations
                   const applier = createMongodbApplier(db, migration, {
                     currentMigrationId: migration.id,
+                    onProgress: createTransformProgressReporter(),
+                    signal: lock?.signal,
                   });
 
                   // Apply filtered operations
                   for (const op of filteredOps) {
                     await applier.applyOperation(op);
                   }
+                  await applier.clearCheckpoints();
 
                   const duration = Date.now() - startTime;
 
@@ -532,12 +578,15 @@ export async function migrateCommand(
                 // Create applier and apply only filtered operations
                 const applier = createMongodbApplier(db, migration, {
                   currentMigrationId: migration.id,
+                  onProgress: createTransformProgressReporter(),
+                  signal: lock?.signal,
                 });
 
                 // Apply filtered operations
                 for (const op of filteredOps) {
                   await applier.applyOperation(op);
                 }
+                await applier.clearCheckpoints();
 
                 const duration = Date.now() - startTime;
 
@@ -750,6 +799,8 @@ export async function migrateCommand(
         // Create applier with migration context
         const migrationApplier = createMongodbApplier(db, migration, {
           currentMigrationId: migration.id,
+          onProgress: createTransformProgressReporter(),
+          signal: lock?.signal,
         });
 
         // Apply all operations and synchronize schemas
@@ -763,6 +814,7 @@ export async function migrateCommand(
           migration.id,
           migration.name,
           duration,
+          computeMigrationChecksum(migration),
         );
 
         console.log(
@@ -795,6 +847,7 @@ export async function migrateCommand(
     console.error(red(bold("Error:")), message);
     throw error;
   } finally {
+    await lock?.release();
     if (client) {
       await client.close(true);
     }
@@ -1,7 +1,8 @@
 /**
  * Rollback command for MongoDBee Migration CLI
  *
- * Rolls back the last applied migration
+ * Rolls back the last applied migration, or every migration applied after a
+ * target migration
  *
  * @module
  */
@@ -14,21 +15,139 @@ import * as path from "@std/path";
 import { loadConfig } from "../../config/loader.ts";
 import { buildMigrationChain, loadAllMigrations } from "../../discovery.ts";
 import {
+  getAppliedMigrationIds,
   getLastAppliedMigration,
   markMigrationAsReverted,
 } from "../../state.ts";
 import { createMongodbApplier } from "../../appliers/mongodb.ts";
+import { acquireMigrationLock, type MigrationLockHandle } from "../../lock.ts";
 import { migrationBuilder } from "../../builder.ts";
 import { confirm } from "../utils/confirm.ts";
+import { planRollback } from "../../plan.ts";
+import { createTransformProgressReporter } from "../utils/transform-progress.ts";
+import type { Db } from "../../../mongodb.ts";
+import type { MigrationDefinition } from "../../types.ts";
 
 export interface RollbackCommandOptions {
   configPath?: string;
   force?: boolean;
   cwd?: string;
+  /** Roll back every migration applied after this one */
+  to?: string;
+  /** Number of migrations to roll back */
+  steps?: number;
 }
 
 /**
- * Rolls back the last applied migration
+ * Reverts the operations of an applied migration and records it as reverted
+ */
+async function revertMigration(
+  db: Db,
+  migration: MigrationDefinition,
+  signal: AbortSignal,
+): Promise<void> {
+  try {
+    const builder = migrationBuilder({ schemas: migration.schemas });
+    const state = migration.migrate(builder);
+
+    // Create applier with migration context
+    const applier = createMongodbApplier(db, migration, {
+      currentMigrationId: migration.id,
+      onProgress: createTransformProgressReporter(),
+      signal,
+    });
+
+    // Reverse operations and synchronize with parent schemas
+    // This automatically handles:
+    // - Collections
+    // - Multi-collections
+    // - Multi-model instances (with automatic history recording)
+    const reversedOps = [...state.operations].reverse();
+    await applier.applyMigration(reversedOps, 'down');
+
+    // Mark as reverted in global history
+    await markMigrationAsReverted(db, migration.id);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to rollback migration ${migration.name}: ${message}`);
+  }
+}
+
+/**
+ * Rolls back the migrations of a plan, refusing irreversible ones
+ */
+async function rollbackPlan(
+  db: Db,
+  allMigrations: MigrationDefinition[],
+  options: RollbackCommandOptions,
+  signal: AbortSignal,
+): Promise<void> {
+  const appliedIds = await getAppliedMigrationIds(db);
+  const plan = planRollback(
+    allMigrations,
+    appliedIds,
+    options.to !== undefined ? { to: String(options.to) } : { steps: Number(options.steps) },
+  );
+
+  if (plan.length === 0) {
+    console.log(yellow("No migrations to rollback."));
+    return;
+  }
+
+  console.log(bold(`Rollback plan (${plan.length} migration(s), latest first):`));
+  plan.forEach((step, index) => {
+    const tags: string[] = [];
+    if (step.irreversible) tags.push(red("irreversible"));
+    if (step.lossy) tags.push(yellow("lossy"));
+    console.log(
+      `  ${index + 1}. ${step.migration.name} ${dim(`(${step.migration.id})`)}${
+        tags.length > 0 ? `  ${tags.join(", ")}` : ""
+      }`,
+    );
+  });
+  console.log();
+
+  const irreversible = plan.filter((step) => step.irreversible);
+  if (irreversible.length > 0) {
+    console.log(red("⚠  The plan contains IRREVERSIBLE migrations:"));
+    for (const step of irreversible) {
+      console.log(red(`   - ${step.migration.name}`));
+    }
+    console.log();
+    throw new Error(
+      `Cannot rollback past irreversible migration ${irreversible[irreversible.length - 1].migration.name}`,
+    );
+  }
+
+  if (plan.some((step) => step.lossy)) {
+    console.log(yellow("⚠  Rolling back LOSSY migrations will result in DATA LOSS."));
+    console.log();
+
+    if (!options.force) {
+      const confirmed = await confirm(
+        `Are you sure you want to rollback these ${plan.length} migration(s)?`,
+      );
+
+      if (!confirmed) {
+        console.log(yellow("Rollback cancelled."));
+        return;
+      }
+    }
+  }
+
+  for (const step of plan) {
+    console.log(bold(`Rolling back: ${blue(step.migration.name)} ${dim(`(${step.migration.id})`)}`));
+    await revertMigration(db, step.migration, signal);
+    console.log(green("  ✓ Rolled back"));
+  }
+
+  console.log();
+  console.log(green(bold(`✓ ${plan.length} migration(s) rolled back successfully!`)));
+}
+
+/**
+ * Rolls back the last applied migration, or the migrations selected with
+ * `to` or `steps`
  */
 export async function rollbackCommand(
   options: RollbackCommandOptions = {},
@@ -37,6 +156,7 @@ export async function rollbackCommand(
   console.log();
 
   let client: MongoClient | undefined;
+  let lock: MigrationLockHandle | undefined;
 
   try {
     // Load configuration
@@ -60,8 +180,17 @@ export async function rollbackCommand(
     await client.connect();
 
     const db = client.db(dbName);
+
+    // Hold the migration lock so no concurrent run applies migrations meanwhile
+    lock = await acquireMigrationLock(db, { command: "rollback" });
     console.log();
 
+    if (options.to !== undefined || options.steps !== undefined) {
+      const migrationsWithFiles = await loadAllMigrations(migrationsDir);
+      await rollbackPlan(db, buildMigrationChain(migrationsWithFiles), options, lock.signal);
+      return;
+    }
+
     // Get last applied migration
     const lastApplied = await getLastAppliedMigration(db);
 
@@ -144,39 +273,21 @@ export async function rollbackCommand(
     // Apply reverse operations
     console.log(bold("Rolling back operations..."));
 
-    try {
-      // Create applier with migration context
-      const applier = createMongodbApplier(db, migrationToRollback, {
-        currentMigrationId: migrationToRollback.id,
-      });
-
-      // Reverse operations and synchronize with parent schemas
-      // This automatically handles:
-      // - Collections
-      // - Multi-collections
-      // - Multi-model instances (with automatic history recording)
-      const reversedOps = [...state.operations].reverse();
-      await applier.applyMigration(reversedOps, 'down');
+    await revertMigration(db, migrationToRollback, lock.signal);
 
-      // Mark as reverted in global history
-      await markMigrationAsReverted(db, migrationToRollback.id);
-
-      console.log();
-      console.log(green(bold("✓ Migration rolled back successfully!")));
-      console.log();
-      console.log(
-        dim("  Note: The migration file still exists in the filesystem."),
-      );
-      console.log(dim("  To re-apply it, run `mongodbee migrate`."));
-    } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
-      throw new Error(`Failed to rollback migration: ${message}`);
-    }
+    console.log();
+    console.log(green(bold("✓ Migration rolled back successfully!")));
+    console.log();
+    console.log(
+      dim("  Note: The migration file still exists in the filesystem."),
+    );
+    console.log(dim("  To re-apply it, run `mongodbee migrate`."));
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
     console.error(red(bold("Error:")), message);
     throw error;
   } finally {
+    await lock?.release();
     if (client) {
       await client.close(true);
     }
@@ -21,6 +21,9 @@ import { getAllOperations } from "../../history.ts";
 import { validateMigrationChainWithProjectSchema } from "../../schema-validation.ts";
 import { migrationBuilder } from "../../builder.ts";
 import { detectInstancesNeedingCatchUp } from "../../catch-up.ts";
+import { getMigrationLock } from "../../lock.ts";
+import { listTransformCheckpoints } from "../../checkpoint.ts";
+import { findModifiedMigrations } from "../../checksum.ts";
 import { validateMigrationsWithSimulation } from "../utils/validate-migrations.ts";
 import type { SimulationPowerLevel } from "../../validators/simulation.ts";
 
@@ -152,6 +155,8 @@ export async function statusCommand(
     const statesMap = new Map<string, MigrationStateRecord>(
       migrationStates.map((s) => [s.id, s]),
     );
+    const modifiedMigrations = await findModifiedMigrations(db, allMigrations);
+    const modifiedIds = new Set(modifiedMigrations.map(({ migration }) => migration.id));
 
     console.log(bold("Migrations:"));
     console.log();
@@ -210,7 +215,7 @@ export async function statusCommand(
         statusDisplay = yellow("pending");
         appliedDisplay = dim("-");
       } else if (state.status === "applied") {
-        statusDisplay = green("applied");
+        statusDisplay = modifiedIds.has(migration.id) ? red("modified") : green("applied");
         appliedDisplay = state.appliedAt
           ? dim(state.appliedAt.toISOString().split("T")[0])
           : dim("-");
@@ -273,6 +278,68 @@ export async function statusCommand(
       console.log(green("  ✓ Database is up to date!"));
     }
 
+    if (modifiedMigrations.length > 0) {
+      console.log();
+      console.log(
+        red(`  ⚠ ${modifiedMigrations.length} applied migration(s) were modified since they were applied:`),
+      );
+      for (const { migration } of modifiedMigrations) {
+        console.log(red(`    • ${migration.name} (${migration.id})`));
+      }
+      console.log(
+        dim("  `mongodbee migrate` will refuse to run until the changes are reverted or accepted with --accept-changes."),
+      );
+    }
+
+    // Show the migration lock
+    console.log();
+    console.log(bold("Migration Lock:"));
+    console.log();
+
+    const lock = await getMigrationLock(db);
+
+    if (!lock) {
+      console.log(green("  ✓ Not locked"));
+    } else {
+      const expired = lock.expiresAt.getTime() <= Date.now();
+      console.log(
+        expired
+          ? yellow(`  ⚠ Stale lock held by ${bold(lock.owner)}`)
+          : yellow(`  🔒 Locked by ${bold(lock.owner)}`),
+      );
+      if (lock.command) {
+        console.log(dim(`     Command: ${lock.command}`));
+      }
+      console.log(dim(`     Acquired at: ${lock.acquiredAt.toISOString()}`));
+      console.log(dim(`     Last heartbeat: ${lock.heartbeatAt.toISOString()}`));
+      console.log(dim(`     Expires at: ${lock.expiresAt.toISOString()}`));
+      console.log();
+      console.log(
+        dim(
+          expired
+            ? "  The next migration run will take it over."
+            : "  Run `mongodbee unlock --force` if the holder is gone.",
+        ),
+      );
+    }
+
+    // Show transforms interrupted in the middle of a collection
+    const interrupted = (await listTransformCheckpoints(db)).filter((checkpoint) => !checkpoint.completed);
+
+    if (interrupted.length > 0) {
+      console.log();
+      console.log(bold("Interrupted Transforms:"));
+      console.log();
+      for (const checkpoint of interrupted) {
+        console.log(
+          yellow(
+            `  ⏸ ${checkpoint.migrationId} (${checkpoint.direction}) on ${bold(checkpoint.collectionName)}: ${checkpoint.processed} document(s) processed`,
+          ),
+        );
+      }
+      console.log(dim("  The next run resumes them from their checkpoint."));
+    }
+
     // Check for multi-model instances needing catch-up
     console.log();
     console.log(bold("Multi-Model Instances:"));
@@ -19,6 +19,7 @@ import {
 } from "../../discovery.ts";
 import { getAppliedMigrationIds } from "../../state.ts";
 import { createMongodbApplier } from "../../appliers/mongodb.ts";
+import { acquireMigrationLock, type MigrationLockHandle } from "../../lock.ts";
 
 export interface SyncCommandOptions {
   configPath?: string;
@@ -37,6 +38,7 @@ export async function syncCommand(
   console.log();
 
   let client: MongoClient | undefined;
+  let lock: MigrationLockHandle | undefined;
 
   try {
     // Load configuration
@@ -61,6 +63,9 @@ export async function syncCommand(
 
     const db = client.db(dbName);
 
+    // Hold the migration lock so no concurrent run applies migrations meanwhile
+    lock = await acquireMigrationLock(db, { command: "sync" });
+
     // Load migrations from filesystem
     const migrationsWithFiles = await loadAllMigrations(migrationsDir);
 
@@ -168,6 +173,7 @@ export async function syncCommand(
     // Create applier for synchronization
     const applier = createMongodbApplier(db, latestMigration, {
       currentMigrationId: latestMigration.id,
+      signal: lock.signal,
     });
 
     console.log(bold(blue("📋 Synchronizing validators and indexes...")));
@@ -195,6 +201,7 @@ export async function syncCommand(
     console.error(red(bold("Error:")), message);
     throw error;
   } finally {
+    await lock?.release();
     if (client) {
       await client.close(true);
     }
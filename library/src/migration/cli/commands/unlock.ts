@@ -0,0 +1,88 @@
+/**
+ * Unlock command for MongoDBee Migration CLI
+ *
+ * Removes the migration lock left by a process that is gone
+ *
+ * @module
+ */
+
+import process from "node:process";
+import { blue, bold, dim, green, red, yellow } from "@std/fmt/colors";
+import { MongoClient } from "../../../mongodb.ts";
+
+import { loadConfig } from "../../config/loader.ts";
+import { forceReleaseMigrationLock, getMigrationLock } from "../../lock.ts";
+
+export interface UnlockCommandOptions {
+  configPath?: string;
+  cwd?: string;
+  /** Required, the lock is removed even if its holder is still running */
+  force?: boolean;
+}
+
+/**
+ * Remove the migration lock
+ */
+export async function unlockCommand(
+  options: UnlockCommandOptions = {},
+): Promise<void> {
+  console.log(bold(blue("🐝 Removing migration lock...")));
+  console.log();
+
+  let client: MongoClient | undefined;
+
+  try {
+    // Load configuration
+    const cwd = options.cwd || process.cwd();
+    const config = await loadConfig({ configPath: options.configPath, cwd });
+
+    const connectionUri = config.database?.connection?.uri ||
+      "mongodb://localhost:27017";
+    const dbName = config.database?.name || "myapp";
+
+    console.log(dim(`Database: ${dbName}`));
+    console.log();
+
+    // Connect to database
+    client = new MongoClient(connectionUri);
+    await client.connect();
+
+    const db = client.db(dbName);
+
+    const lock = await getMigrationLock(db);
+
+    if (!lock) {
+      console.log(green("✓ Migrations are not locked."));
+      return;
+    }
+
+    console.log(bold(`Lock held by: ${blue(lock.owner)}`));
+    if (lock.command) {
+      console.log(dim(`  Command: ${lock.command}`));
+    }
+    console.log(dim(`  Acquired at: ${lock.acquiredAt.toISOString()}`));
+    console.log(dim(`  Last heartbeat: ${lock.heartbeatAt.toISOString()}`));
+    console.log(dim(`  Expires at: ${lock.expiresAt.toISOString()}`));
+    console.log();
+
+    if (!options.force) {
+      console.log(
+        yellow("⚠  Removing the lock of a running migration can corrupt the database."),
+      );
+      console.log(dim("  Make sure the holder is gone, then run `mongodbee unlock --force`."));
+      throw new Error("Refusing to remove the migration lock without --force");
+    }
+
+    await forceReleaseMigrationLock(db);
+
+    console.log(green(bold("✓ Migration lock removed")));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(red(bold("Error:")), message);
+    throw error;
+  } finally {
+    if (client) {
+      await client.close(true);
+    }
+  }
+}
@@ -19,6 +19,7 @@ import { historyCommand } from "./commands/history.ts";
 import { initCommand } from "./commands/init.ts";
 import { checkCommand } from "./commands/check.ts";
 import { syncCommand } from "./commands/sync.ts";
+import { unlockCommand } from "./commands/unlock.ts";
 
 import packageInfo from "../../../deno.json" with { type: "json" };
 
@@ -64,7 +65,7 @@ const commands = [
   },
   {
     name: "rollback",
-    description: "Rollback the last applied migration",
+    description: "Rollback the last applied migration(s)",
     handler: rollbackCommand,
   },
   {
@@ -72,6 +73,11 @@ const commands = [
     description: "Show migration operation history",
     handler: historyCommand,
   },
+  {
+    name: "unlock",
+    description: "Remove the migration lock left by a crashed process",
+    handler: unlockCommand,
+  },
 ];
 
 /**
@@ -92,7 +98,8 @@ ${yellow("COMMANDS:")}
   ${green("sync")}      Synchronize schemas and indexes with latest migration
   ${green("status")}    Show migration status
   ${green("history")}   Show migration operation history
-  ${green("rollback")}  Rollback the last applied migration
+  ${green("rollback")}  Rollback the last applied migration(s)
+  ${green("unlock")}    Remove the migration lock left by a crashed process
 
 ${yellow("GLOBAL OPTIONS:")}
   -h, --help        Show this help message
@@ -104,6 +111,7 @@ ${yellow("CHECK OPTIONS:")}
   -m, --mode        Simulation mode: quick, normal, hard (default: normal)
   -l, --last        Only validate the last N migrations
   --check-indexes   Check database indexes against schema (requires database connection)
+  --accept-changes  Report applied migrations modified afterwards as warnings
 
 ${yellow("STATUS OPTIONS:")}
   --validate        Run schema and simulation validation checks
@@ -114,6 +122,8 @@ ${yellow("MIGRATE OPTIONS:")}
   --dry-run         Simulate migration without applying changes
   --force           Skip all confirmations (use with caution!)
   --auto-sync       Automatically catch up orphaned multi-model instances
+  --accept-changes  Accept applied migrations modified afterwards and record their new checksums
+  --to <id>         Only apply the migrations up to this one (included)
   --verbose         Show detailed migration information
   -m, --mode        Simulation mode: quick, normal, hard (default: normal)
   -l, --last        Only validate the last N migrations
@@ -121,6 +131,14 @@ ${yellow("MIGRATE OPTIONS:")}
 ${yellow("SYNC OPTIONS:")}
   --force           Sync even if pending migrations exist (not recommended)
   --verbose         Show detailed schema information
+
+${yellow("ROLLBACK OPTIONS:")}
+  --to <id>         Rollback every migration applied after this one
+  --steps <n>       Rollback the last N applied migrations
+  --force           Skip confirmations (irreversible migrations are still refused with --to/--steps)
+
+${yellow("UNLOCK OPTIONS:")}
+  --force           Required, removes the lock even if its holder is still running
 `);
 }
 
@@ -136,8 +154,8 @@ function showVersion(): void {
  */
 async function main(): Promise<void> {
   const args = parseArgs(process.argv.slice(2), {
-    boolean: ["version", "dry-run", "force", "auto-sync", "verbose", "help", "check-indexes", "validate"],
-    string: ["config", "env", "name", "mode"],
+    boolean: ["version", "dry-run", "force", "auto-sync", "accept-changes", "verbose", "help", "check-indexes", "validate"],
+    string: ["config", "env", "name", "mode", "to"],
     alias: {
       v: "version",
       h: "help",
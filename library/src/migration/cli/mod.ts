@@ -12,6 +12,7 @@ export { rollbackCommand } from "./commands/rollback.ts";
 export { statusCommand } from "./commands/status.ts";
 export { checkCommand } from "./commands/check.ts";
 export { syncCommand } from "./commands/sync.ts";
+export { unlockCommand } from "./commands/unlock.ts";
 
 export type { InitCommandOptions } from "./commands/init.ts";
 export type { GenerateCommandOptions } from "./commands/generate.ts";
@@ -20,3 +21,4 @@ export type { RollbackCommandOptions } from "./commands/rollback.ts";
 export type { StatusCommandOptions } from "./commands/status.ts";
 export type { CheckCommandOptions } from "./commands/check.ts";
 export type { SyncCommandOptions } from "./commands/sync.ts";
+export type { UnlockCommandOptions } from "./commands/unlock.ts";
@@ -0,0 +1,65 @@
+/**
+ * Detection of applied migrations modified afterwards
+ *
+ * @module
+ */
+
+import { bold, dim, red, yellow } from "@std/fmt/colors";
+import type { Db } from "../../../mongodb.ts";
+import type { MigrationDefinition } from "../../types.ts";
+import { acceptMigrationChanges, findModifiedMigrations } from "../../checksum.ts";
+
+export interface CheckModifiedMigrationsOptions {
+  /**
+   * Accept the changes instead of failing
+   * - `record`: record the new checksums so they are no longer reported
+   * - `warn`: only report them as warnings
+   */
+  acceptChanges?: "record" | "warn";
+}
+
+/**
+ * Fails when applied migrations were modified since they were applied,
+ * unless the changes are accepted
+ *
+ * @returns The number of modified migrations
+ */
+export async function checkModifiedMigrations(
+  db: Db,
+  migrations: MigrationDefinition[],
+  options: CheckModifiedMigrationsOptions = {},
+): Promise<number> {
+  const modified = await findModifiedMigrations(db, migrations);
+
+  if (modified.length === 0) {
+    return 0;
+  }
+
+  const color = options.acceptChanges ? yellow : red;
+  console.log(
+    color(bold(`⚠  ${modified.length} applied migration(s) were modified since they were applied:`)),
+  );
+  for (const { migration, appliedChecksum, currentChecksum } of modified) {
+    console.log(color(`  • ${migration.name} (${migration.id})`));
+    console.log(dim(`      applied: ${appliedChecksum.slice(0, 12)}  current: ${currentChecksum.slice(0, 12)}`));
+  }
+  console.log();
+
+  if (!options.acceptChanges) {
+    console.log(
+      dim("  Revert the changes and create a new migration instead, or use --accept-changes"),
+    );
+    console.log(dim("  if the database already matches the new definitions."));
+    throw new Error("Applied migrations were modified");
+  }
+
+  if (options.acceptChanges === "record") {
+    await acceptMigrationChanges(db, modified);
+    console.log(yellow("  --accept-changes flag detected, new checksums recorded"));
+  } else {
+    console.log(yellow("  --accept-changes flag detected, continuing"));
+  }
+  console.log();
+
+  return modified.length;
+}
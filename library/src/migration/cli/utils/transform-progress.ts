@@ -0,0 +1,64 @@
+/**
+ * Progress output of long-running transforms
+ *
+ * @module
+ */
+
+import { dim } from "@std/fmt/colors";
+import type { TransformProgress } from "../../checkpoint.ts";
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 1) return "<1s";
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+/**
+ * Format a progress report, e.g.
+ * `users: 20000/100000 (20%) · 4000 docs/s · ETA 20s`
+ */
+export function formatTransformProgress(progress: TransformProgress): string {
+  const percent = progress.total > 0
+    ? Math.min(100, Math.floor((progress.processed / progress.total) * 100))
+    : 100;
+  const parts = [
+    `${progress.collectionName}: ${progress.processed}/${progress.total} (${percent}%)`,
+    `${Math.round(progress.docsPerSecond)} docs/s`,
+  ];
+
+  if (progress.done) {
+    parts.push(`done in ${formatDuration(progress.elapsedMs)}`);
+  } else if (progress.etaMs !== undefined) {
+    parts.push(`ETA ${formatDuration(progress.etaMs)}`);
+  }
+  if (progress.resumedFrom > 0) {
+    parts.push(`resumed after ${progress.resumedFrom}`);
+  }
+
+  return parts.join(" · ");
+}
+
+/**
+ * Create a progress callback for the MongoDB applier printing the last report
+ * of each transform and, for transforms lasting longer than the interval, at
+ * most one line per interval
+ *
+ * @param interval - Minimum time between two lines in milliseconds
+ */
+export function createTransformProgressReporter(
+  interval = 1000,
+): (progress: TransformProgress) => void {
+  let lastReport = 0;
+
+  return (progress) => {
+    const now = Date.now();
+    if (!progress.done && (progress.elapsedMs < interval || now - lastReport < interval)) {
+      return;
+    }
+    lastReport = progress.done ? 0 : now;
+    console.log(dim(`    ${formatTransformProgress(progress)}`));
+  };
+}
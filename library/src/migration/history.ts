@@ -58,6 +58,12 @@ export type MigrationOperation = {
 
   /** Version of MongoDBee that executed this operation */
   mongodbeeVersion: string;
+
+  /** Checksum of the migration definition (applied operations only) */
+  checksum?: string;
+
+  /** Checksums replaced with `--accept-changes` after the migration was modified */
+  acceptedChanges?: Array<{ checksum?: string; acceptedAt: Date }>;
 };
 
 /**
@@ -83,6 +89,7 @@ export function getMigrationOperationsCollection(
  * @param operation - Type of operation (applied, reverted, failed)
  * @param duration - Duration in milliseconds
  * @param error - Error message if operation failed
+ * @param checksum - Checksum of the migration definition
  */
 export async function recordOperation(
   db: Db,
@@ -91,6 +98,7 @@ export async function recordOperation(
   operation: MigrationOperationType,
   duration?: number,
   error?: string,
+  checksum?: string,
 ): Promise<void> {
   const collection = getMigrationOperationsCollection(db);
   const mongodbeeVersion = getCurrentVersion();
@@ -104,6 +112,7 @@ export async function recordOperation(
     error,
     status: error ? "failure" : "success",
     mongodbeeVersion,
+    ...(checksum !== undefined && { checksum }),
   };
 
   // deno-lint-ignore no-explicit-any
@@ -277,6 +286,37 @@ export async function getLastAppliedMigration(
   return appliedMigrations[0];
 }
 
+/**
+ * Replaces the checksum recorded when a migration was last applied, keeping
+ * the previous one in `acceptedChanges`
+ *
+ * @param db - Database instance
+ * @param migrationId - ID of the migration
+ * @param checksum - Checksum of the current migration definition
+ */
+export async function updateAppliedChecksum(
+  db: Db,
+  migrationId: string,
+  checksum: string,
+): Promise<void> {
+  const collection = getMigrationOperationsCollection(db);
+
+  const [lastApplied] = await collection
+    .find({ migrationId, operation: "applied", status: "success" })
+    .sort({ executedAt: -1 })
+    .limit(1)
+    .toArray();
+
+  if (!lastApplied) {
+    throw new Error(`Migration ${migrationId} has never been applied`);
+  }
+
+  await collection.updateOne({ _id: lastApplied._id }, {
+    $set: { checksum },
+    $push: { acceptedChanges: { checksum: lastApplied.checksum, acceptedAt: new Date() } },
+  });
+}
+
 /**
  * Clears all migration operations (dangerous, use with caution)
  *
@@ -0,0 +1,261 @@
+/**
+ * @fileoverview Distributed lock for migration runs
+ *
+ * Mutating migration commands (`migrate`, `rollback`, `sync`) and
+ * `runMigrations()` hold a lease stored in a single database document, so
+ * that two processes started at the same time (e.g. several deploy pods)
+ * never apply the same migration twice.
+ *
+ * The lease expires after a TTL and is extended by a heartbeat while the
+ * holder is alive. Lease dates are set by the database server (`$$NOW`), so
+ * the clocks of the processes don't need to agree. A lock whose holder
+ * crashed is taken over once it has expired, and `unlock --force` removes it
+ * immediately. A holder whose lease is taken over or removed is notified
+ * through the `signal` of its handle, which aborts its migration run.
+ *
+ * @module
+ */
+
+import * as m from "mongodb";
+import process from "node:process";
+import { hostname } from "node:os";
+import type { Db } from "../mongodb.ts";
+import { createLogger } from "../utils/logger.ts";
+
+const log = createLogger("migration");
+
+/**
+ * Name of the collection holding the migration lock
+ */
+export const MIGRATION_LOCK_COLLECTION = "__dbee_migration_lock__";
+
+const LOCK_ID = "migration";
+
+/**
+ * Lock document stored in the database
+ */
+export type MigrationLock = {
+  _id: string;
+
+  /** Identifier of the process holding the lock */
+  owner: string;
+
+  /** Command that acquired the lock (migrate, rollback...) */
+  command?: string;
+
+  /** When the lock was acquired */
+  acquiredAt: Date;
+
+  /** Last heartbeat of the holder */
+  heartbeatAt: Date;
+
+  /** When the lock can be taken over if no heartbeat extends it */
+  expiresAt: Date;
+};
+
+export type MigrationLockOptions = {
+  /** Identifier of the process (default: hostname, pid and a random suffix) */
+  owner?: string;
+
+  /** Command recorded in the lock */
+  command?: string;
+
+  /** Lease duration in milliseconds (default: 60000) */
+  ttl?: number;
+
+  /** Interval between heartbeats in milliseconds (default: a third of the TTL) */
+  heartbeatInterval?: number;
+};
+
+/**
+ * Lock held by the current process
+ */
+export type MigrationLockHandle = {
+  owner: string;
+
+  /** Aborted with a `MigrationLockLostError` when the lease is lost */
+  signal: AbortSignal;
+
+  /** Stops the heartbeat and removes the lock if it is still ours */
+  release(): Promise<void>;
+};
+
+/**
+ * Thrown when the migration lock is held by another process
+ */
+export class MigrationLockError extends Error {
+  override name = "MigrationLockError";
+
+  constructor(
+    /** Current lock */
+    public readonly lock: MigrationLock,
+  ) {
+    super(
+      `Migrations are locked by "${lock.owner}"${
+        lock.command ? ` (${lock.command})` : ""
+      } since ${lock.acquiredAt.toISOString()}, the lock expires at ${lock.expiresAt.toISOString()}. ` +
+        "Use `mongodbee unlock --force` if the holder is gone",
+    );
+  }
+}
+
+/**
+ * Thrown when the lease of the migration lock was taken over or removed
+ * while migrations were running
+ */
+export class MigrationLockLostError extends Error {
+  override name = "MigrationLockLostError";
+
+  constructor(
+    /** Identifier of the process that held the lock */
+    public readonly owner: string,
+  ) {
+    super(`Migration lock of "${owner}" was released or taken over by another process`);
+  }
+}
+
+function getLockCollection(db: Db): m.Collection<MigrationLock> {
+  return db.collection<MigrationLock>(MIGRATION_LOCK_COLLECTION);
+}
+
+function defaultOwner(): string {
+  return `${hostname()}:${process.pid}:${crypto.randomUUID().slice(0, 8)}`;
+}
+
+/**
+ * Acquire the migration lock
+ *
+ * @param db - Database instance
+ * @param options - Lock options
+ * @returns The lock handle, to release once the migration run is over
+ * @throws MigrationLockError when another process holds an unexpired lock
+ *
+ * @example
+ * ```typescript
+ * const lock = await acquireMigrationLock(db, { command: "migrate" });
+ * try {
+ *   // apply migrations
+ * } finally {
+ *   await lock.release();
+ * }
+ * ```
+ */
+export async function acquireMigrationLock(
+  db: Db,
+  options: MigrationLockOptions = {},
+): Promise<MigrationLockHandle> {
+  const collection = getLockCollection(db);
+  const owner = options.owner ?? defaultOwner();
+  const ttl = options.ttl ?? 60_000;
+  const heartbeatInterval = options.heartbeatInterval ?? Math.floor(ttl / 3);
+
+  let previous: MigrationLock | null;
+  try {
+    // Matches a missing, expired or already owned lock. When another
+    // process holds it, the upsert fails on the duplicate _id.
+    previous = await collection.findOneAndUpdate(
+      { _id: LOCK_ID, $or: [{ $expr: { $lte: ["$expiresAt", "$$NOW"] } }, { owner }] },
+      [{
+        $set: {
+          owner: { $literal: owner },
+          command: options.command === undefined ? "$$REMOVE" : { $literal: options.command },
+          acquiredAt: "$$NOW",
+          heartbeatAt: "$$NOW",
+          expiresAt: { $add: ["$$NOW", ttl] },
+        },
+      }],
+      { upsert: true, returnDocument: "before" },
+    );
+  } catch (error) {
+    if (error instanceof m.MongoServerError && error.code === 11000) {
+      const current = await collection.findOne({ _id: LOCK_ID });
+      if (current) {
+        throw new MigrationLockError(current);
+      }
+      // Released in the meantime
+      return await acquireMigrationLock(db, { ...options, owner });
+    }
+    throw error;
+  }
+
+  if (previous && previous.owner !== owner) {
+    log.warn(
+      `Took over the stale migration lock of "${previous.owner}" (expired at ${previous.expiresAt.toISOString()})`,
+    );
+  }
+
+  const lost = new AbortController();
+  const heartbeat = setInterval(async () => {
+    try {
+      const result = await collection.updateOne(
+        { _id: LOCK_ID, owner },
+        [{ $set: { heartbeatAt: "$$NOW", expiresAt: { $add: ["$$NOW", ttl] } } }],
+      );
+      if (result.matchedCount === 0) {
+        clearInterval(heartbeat);
+        const error = new MigrationLockLostError(owner);
+        log.error(error.message);
+        lost.abort(error);
+      }
+    } catch (error) {
+      log.error("Migration lock heartbeat failed", error);
+    }
+  }, heartbeatInterval);
+
+  return {
+    owner,
+    signal: lost.signal,
+    async release() {
+      clearInterval(heartbeat);
+      await collection.deleteOne({ _id: LOCK_ID, owner });
+    },
+  };
+}
+
+/**
+ * Run a function while holding the migration lock
+ *
+ * @param db - Database instance
+ * @param fn - Function to run, given the signal of the lock
+ * @param options - Lock options
+ * @returns The result of the function
+ * @throws MigrationLockError when another process holds an unexpired lock
+ * @throws MigrationLockLostError when the lease was lost while the function ran
+ */
+export async function withMigrationLock<T>(
+  db: Db,
+  fn: (signal: AbortSignal) => Promise<T>,
+  options: MigrationLockOptions = {},
+): Promise<T> {
+  const lock = await acquireMigrationLock(db, options);
+  try {
+    const result = await fn(lock.signal);
+    lock.signal.throwIfAborted();
+    return result;
+  } finally {
+    await lock.release();
+  }
+}
+
+/**
+ * Get the current migration lock
+ *
+ * @param db - Database instance
+ * @returns The lock document, or null if migrations are not locked. An
+ * expired lock is still returned until it is taken over.
+ */
+export async function getMigrationLock(db: Db): Promise<MigrationLock | null> {
+  return await getLockCollection(db).findOne({ _id: LOCK_ID });
+}
+
+/**
+ * Remove the migration lock whoever holds it
+ *
+ * @param db - Database instance
+ * @returns The removed lock, or null if migrations were not locked
+ */
+export async function forceReleaseMigrationLock(
+  db: Db,
+): Promise<MigrationLock | null> {
+  return await getLockCollection(db).findOneAndDelete({ _id: LOCK_ID });
+}
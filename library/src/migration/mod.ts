@@ -64,7 +64,10 @@ export type {
   // Schema types
   SchemasDefinition,
   SeedCollectionRule,
+  TransformCollectionReader,
   TransformCollectionRule,
+  TransformContext,
+  TransformFunction,
   TransformRule,
 } from "./types.ts";
 
@@ -181,6 +184,46 @@ export type {
   MigrationValidationDetails,
 } from "./check-status.ts";
 
+// Distributed migration lock
+export {
+  acquireMigrationLock,
+  forceReleaseMigrationLock,
+  getMigrationLock,
+  MIGRATION_LOCK_COLLECTION,
+  MigrationLockError,
+  MigrationLockLostError,
+  withMigrationLock,
+} from "./lock.ts";
+export type {
+  MigrationLock,
+  MigrationLockHandle,
+  MigrationLockOptions,
+} from "./lock.ts";
+
+// Checksums of applied migrations
+export {
+  acceptMigrationChanges,
+  computeMigrationChecksum,
+  findModifiedMigrations,
+} from "./checksum.ts";
+export type { ModifiedMigration } from "./checksum.ts";
+
+// Plans to a target migration
+export { planMigrateTo, planRollback } from "./plan.ts";
+export type { MigrationPlanStep } from "./plan.ts";
+
+// Checkpoints of resumable transforms
+export {
+  clearTransformCheckpoints,
+  listTransformCheckpoints,
+  MIGRATION_CHECKPOINT_COLLECTION,
+} from "./checkpoint.ts";
+export type { TransformCheckpoint, TransformProgress } from "./checkpoint.ts";
+
+// Programmatic migration runner
+export { runMigrations } from "./runner.ts";
+export type { RunMigrationsOptions, RunMigrationsResult } from "./runner.ts";
+
 /**
  * Version information for the migration system
  */
@@ -0,0 +1,120 @@
+/**
+ * @fileoverview Migration plans to a target migration
+ *
+ * Computes the migrations to apply to reach a target migration
+ * (`migrate --to`) and the migrations to revert to get back to one
+ * (`rollback --to`, `rollback --steps`), along the parent chain of the
+ * target.
+ *
+ * @module
+ */
+
+import type { MigrationDefinition } from "./types.ts";
+import { getMigrationPath } from "./definition.ts";
+import { migrationBuilder } from "./builder.ts";
+
+/**
+ * Step of a migration plan
+ */
+export type MigrationPlanStep = {
+  migration: MigrationDefinition;
+
+  /** The migration is marked as irreversible */
+  irreversible: boolean;
+
+  /** The migration has lossy transformations */
+  lossy: boolean;
+};
+
+function findMigration(
+  allMigrations: MigrationDefinition[],
+  id: string,
+): MigrationDefinition {
+  const migration = allMigrations.find((m) => m.id === id);
+  if (!migration) {
+    throw new Error(`Migration ${id} not found`);
+  }
+  return migration;
+}
+
+function toPlanStep(migration: MigrationDefinition): MigrationPlanStep {
+  const state = migration.migrate(migrationBuilder({
+    schemas: migration.schemas,
+    parentSchemas: migration.parent?.schemas,
+  }));
+
+  return {
+    migration,
+    irreversible: state.hasProperty("irreversible"),
+    lossy: state.hasProperty("lossy"),
+  };
+}
+
+/**
+ * Plan the migrations to apply to reach a target migration
+ *
+ * @param allMigrations - Migration chain
+ * @param appliedIds - IDs of the applied migrations
+ * @param targetId - ID of the target migration
+ * @returns The pending migrations of the path to the target, in order
+ * @throws Error when the target doesn't exist or migrations after it are
+ * applied (use a rollback plan instead)
+ */
+export function planMigrateTo(
+  allMigrations: MigrationDefinition[],
+  appliedIds: string[],
+  targetId: string,
+): MigrationPlanStep[] {
+  const target = findMigration(allMigrations, targetId);
+  const path = getMigrationPath(target);
+  const pathIds = new Set(path.map((m) => m.id));
+
+  const appliedAfter = allMigrations.filter((m) => !pathIds.has(m.id) && appliedIds.includes(m.id));
+  if (appliedAfter.length > 0) {
+    throw new Error(
+      `Migrations after ${targetId} are applied (${appliedAfter.map((m) => m.id).join(", ")}), use rollback --to instead`,
+    );
+  }
+
+  return path.filter((m) => !appliedIds.includes(m.id)).map(toPlanStep);
+}
+
+/**
+ * Plan the migrations to revert to get back to a target migration, or to
+ * revert a number of migrations
+ *
+ * @param allMigrations - Migration chain
+ * @param appliedIds - IDs of the applied migrations
+ * @param target - `to`: ID of the migration to get back to (kept applied),
+ * `steps`: number of migrations to revert
+ * @returns The applied migrations to revert, latest first
+ * @throws Error when the target doesn't exist or is not applied, or when
+ * there are fewer applied migrations than steps
+ */
+export function planRollback(
+  allMigrations: MigrationDefinition[],
+  appliedIds: string[],
+  target: { to: string } | { steps: number },
+): MigrationPlanStep[] {
+  const applied = allMigrations.filter((m) => appliedIds.includes(m.id));
+
+  let toRevert: MigrationDefinition[];
+  if ("to" in target) {
+    const migration = findMigration(allMigrations, target.to);
+    if (!appliedIds.includes(migration.id)) {
+      throw new Error(`Migration ${target.to} is not applied`);
+    }
+    const pathIds = new Set(getMigrationPath(migration).map((m) => m.id));
+    toRevert = applied.filter((m) => !pathIds.has(m.id));
+  } else {
+    if (!Number.isInteger(target.steps) || target.steps < 1) {
+      throw new Error(`Invalid number of steps: ${target.steps}`);
+    }
+    if (target.steps > applied.length) {
+      throw new Error(`Cannot rollback ${target.steps} migration(s), only ${applied.length} applied`);
+    }
+    toRevert = applied.slice(applied.length - target.steps);
+  }
+
+  return toRevert.reverse().map(toPlanStep);
+}
@@ -0,0 +1,128 @@
+/**
+ * @fileoverview Programmatic migration runner
+ *
+ * `runMigrations()` applies the pending migrations from application code
+ * (e.g. at startup) instead of the CLI. Like `mongodbee migrate`, it holds
+ * the migration lock for the whole run so concurrent instances of the
+ * application don't apply the same migration twice: the applied migrations
+ * are read once the lock is acquired, and the run is aborted if the lease of
+ * the lock is lost.
+ *
+ * @module
+ */
+
+import type { Db } from "../mongodb.ts";
+import type { MigrationDefinition } from "./types.ts";
+import { buildMigrationChain, getPendingMigrations, loadAllMigrations } from "./discovery.ts";
+import { getAppliedMigrationIds, markMigrationAsApplied, markMigrationAsFailed } from "./state.ts";
+import { createMongodbApplier } from "./appliers/mongodb.ts";
+import { migrationBuilder } from "./builder.ts";
+import { withMigrationLock, type MigrationLockOptions } from "./lock.ts";
+import { acceptMigrationChanges, computeMigrationChecksum, findModifiedMigrations } from "./checksum.ts";
+import { createLogger } from "../utils/logger.ts";
+
+const log = createLogger("migration");
+
+export type RunMigrationsOptions = {
+  /** Directory containing the migration files */
+  migrationsDir?: string;
+
+  /** Migration chain, used instead of `migrationsDir` */
+  migrations?: MigrationDefinition[];
+
+  /**
+   * Record the new checksums of applied migrations modified afterwards
+   * instead of failing
+   */
+  acceptChanges?: boolean;
+
+  /** Options of the migration lock */
+  lock?: Omit<MigrationLockOptions, "command">;
+};
+
+export type RunMigrationsResult = {
+  /** IDs of the migrations applied by this run, in order */
+  applied: string[];
+};
+
+/**
+ * Apply the pending migrations while holding the migration lock
+ *
+ * @param db - Database instance
+ * @param options - Migrations to apply and lock options
+ * @returns The IDs of the applied migrations
+ * @throws MigrationLockError when another process holds the migration lock
+ * @throws MigrationLockLostError when the lease was lost during the run
+ * @throws Error when applied migrations were modified, unless `acceptChanges`
+ * @throws Error when a migration fails, the following ones are not applied
+ *
+ * @example
+ * ```typescript
+ * const { applied } = await runMigrations(db, { migrationsDir: "./migrations" });
+ * console.log(`Applied ${applied.length} migration(s)`);
+ * ```
+ */
+export async function runMigrations(
+  db: Db,
+  options: RunMigrationsOptions,
+): Promise<RunMigrationsResult> {
+  let allMigrations = options.migrations;
+  if (!allMigrations) {
+    if (!options.migrationsDir) {
+      throw new Error("runMigrations requires migrations or a migrationsDir");
+    }
+    allMigrations = buildMigrationChain(await loadAllMigrations(options.migrationsDir));
+  }
+  const migrations = allMigrations;
+
+  return await withMigrationLock(db, async (signal) => {
+    const modified = await findModifiedMigrations(db, migrations);
+    if (modified.length > 0) {
+      if (!options.acceptChanges) {
+        const names = modified.map(({ migration }) => migration.name).join(", ");
+        throw new Error(`Applied migrations were modified: ${names}`);
+      }
+      log.warn(`Accepting changes of ${modified.length} applied migration(s)`);
+      await acceptMigrationChanges(db, modified);
+    }
+
+    const appliedIds = await getAppliedMigrationIds(db);
+    const applied: string[] = [];
+
+    for (const migration of getPendingMigrations(migrations, appliedIds)) {
+      signal.throwIfAborted();
+      const startTime = Date.now();
+      log.info(`Applying migration ${migration.name} (${migration.id})`);
+
+      try {
+        const builder = migrationBuilder({ schemas: migration.schemas });
+        const migrator = migration.migrate(builder);
+
+        const applier = createMongodbApplier(db, migration, {
+          currentMigrationId: migration.id,
+          signal,
+        });
+        await applier.applyMigration(migrator.operations, "up");
+        signal.throwIfAborted();
+
+        await markMigrationAsApplied(
+          db,
+          migration.id,
+          migration.name,
+          Date.now() - startTime,
+          computeMigrationChecksum(migration),
+        );
+        applied.push(migration.id);
+      } catch (error) {
+        // Another process holds the lock, it's not ours to record the failure
+        if (signal.aborted) throw signal.reason;
+
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        await markMigrationAsFailed(db, migration.id, migration.name, errorMessage);
+        throw new Error(`Migration ${migration.name} failed: ${errorMessage}`, { cause: error });
+      }
+    }
+
+    return { applied };
+  }, { ...options.lock, command: "runMigrations" });
+}
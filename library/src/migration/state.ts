@@ -89,6 +89,7 @@ function operationToStateRecord(
     revertedAt: lastReverted?.executedAt,
     duration: lastOp?.duration,
     error: lastFailed?.error,
+    checksum: lastApplied?.checksum,
   };
 }
 
@@ -155,8 +156,9 @@ export async function markMigrationAsApplied(
   migrationId: string,
   name: string,
   duration?: number,
+  checksum?: string,
 ): Promise<void> {
-  await recordOperation(db, migrationId, name, "applied", duration);
+  await recordOperation(db, migrationId, name, "applied", duration, undefined, checksum);
 }
 
 /**
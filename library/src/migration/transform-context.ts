@@ -0,0 +1,173 @@
+/**
+ * @fileoverview Contexts passed to migration transforms
+ *
+ * Transforms receive, along with each document, a context giving read-only
+ * access to the database (to backfill a field from another collection or
+ * look up reference data), the batch being transformed and a logger.
+ *
+ * The MongoDB applier reads the real database. The memory applier, used by
+ * simulations, reads the simulated `DatabaseState`, with support for the
+ * common query operators.
+ *
+ * @module
+ */
+
+import type { Db } from "../mongodb.ts";
+import type { DatabaseState, TransformCollectionReader, TransformContext } from "./types.ts";
+import { createLogger } from "../utils/logger.ts";
+
+const log = createLogger("migration:transform");
+
+type Document = Record<string, unknown>;
+
+/**
+ * Create the context of a batch transformed by the MongoDB applier
+ *
+ * @param db - Database instance
+ * @param batch - Batch being transformed
+ */
+export function createMongodbTransformContext(
+  db: Db,
+  batch: TransformContext["batch"],
+): TransformContext {
+  return {
+    db: {
+      collection(name: string): TransformCollectionReader {
+        const collection = db.collection<Document>(name);
+        return {
+          findOne: (filter = {}) => collection.findOne(filter),
+          find: (filter = {}) => collection.find(filter).toArray(),
+          countDocuments: (filter = {}) => collection.countDocuments(filter),
+        };
+      },
+    },
+    batch,
+    log,
+  };
+}
+
+/**
+ * Get the values at a dot notation path, array elements included
+ */
+function valuesAtPath(value: unknown, path: string[]): unknown[] {
+  if (path.length === 0) {
+    return Array.isArray(value) ? [value, ...value] : [value];
+  }
+  if (Array.isArray(value)) {
+    const [segment] = path;
+    if (/^\d+$/.test(segment)) {
+      return valuesAtPath(value[Number(segment)], path.slice(1));
+    }
+    return value.flatMap((item) => valuesAtPath(item, path));
+  }
+  if (value === null || typeof value !== "object") {
+    return [undefined];
+  }
+  return valuesAtPath((value as Document)[path[0]], path.slice(1));
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+  if (a === null || b === null || typeof a !== "object" || typeof b !== "object") {
+    // Missing fields match null
+    return (a === null && b === undefined) || (a === undefined && b === null);
+  }
+  // ObjectIds and other BSON values
+  if (typeof (a as { equals?: unknown }).equals === "function") {
+    return (a as { equals(other: unknown): boolean }).equals(b);
+  }
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function compare(a: unknown, b: unknown): number | undefined {
+  if (a instanceof Date && b instanceof Date) return a.getTime() - b.getTime();
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  if (typeof a === "string" && typeof b === "string") return a < b ? -1 : a > b ? 1 : 0;
+  return undefined;
+}
+
+function matchesOperator(values: unknown[], operator: string, operand: unknown): boolean {
+  const some = (predicate: (value: unknown) => boolean) => values.some(predicate);
+  const ordered = (check: (order: number) => boolean) =>
+    some((value) => {
+      const order = compare(value, operand);
+      return order !== undefined && check(order);
+    });
+
+  switch (operator) {
+    case "$eq":
+      return some((value) => isEqual(value, operand));
+    case "$ne":
+      return !some((value) => isEqual(value, operand));
+    case "$in":
+      return (operand as unknown[]).some((item) => some((value) => isEqual(value, item)));
+    case "$nin":
+      return !(operand as unknown[]).some((item) => some((value) => isEqual(value, item)));
+    case "$gt":
+      return ordered((order) => order > 0);
+    case "$gte":
+      return ordered((order) => order >= 0);
+    case "$lt":
+      return ordered((order) => order < 0);
+    case "$lte":
+      return ordered((order) => order <= 0);
+    case "$exists":
+      return some((value) => value !== undefined) === Boolean(operand);
+    default:
+      throw new Error(`Operator ${operator} is not supported in simulated transforms`);
+  }
+}
+
+/**
+ * Check a document against a filter, with the semantics of MongoDB queries
+ */
+function matchesFilter(doc: Document, filter: Document): boolean {
+  return Object.entries(filter).every(([key, condition]) => {
+    if (key === "$and") return (condition as Document[]).every((sub) => matchesFilter(doc, sub));
+    if (key === "$or") return (condition as Document[]).some((sub) => matchesFilter(doc, sub));
+    if (key === "$nor") return !(condition as Document[]).some((sub) => matchesFilter(doc, sub));
+
+    const values = valuesAtPath(doc, key.split("."));
+    const isOperatorObject = condition !== null && typeof condition === "object" &&
+      !Array.isArray(condition) && Object.keys(condition).some((k) => k.startsWith("$"));
+
+    if (!isOperatorObject) {
+      return matchesOperator(values, "$eq", condition);
+    }
+    return Object.entries(condition as Document).every(([operator, operand]) =>
+      matchesOperator(values, operator, operand)
+    );
+  });
+}
+
+/**
+ * Create the context of a batch transformed by the memory applier
+ *
+ * @param state - Simulated database state
+ * @param batch - Batch being transformed
+ */
+export function createStateTransformContext(
+  state: DatabaseState,
+  batch: TransformContext["batch"],
+): TransformContext {
+  return {
+    db: {
+      collection(name: string): TransformCollectionReader {
+        const documents = () =>
+          (state.collections[name] ?? state.multiCollections[name] ?? state.multiModels[name])
+            ?.content ?? [];
+        const find = (filter: Document = {}) =>
+          documents().filter((doc) => matchesFilter(doc, filter)).map((doc) => structuredClone(doc));
+
+        return {
+          findOne: (filter) => Promise.resolve(find(filter)[0] ?? null),
+          find: (filter) => Promise.resolve(find(filter)),
+          countDocuments: (filter) => Promise.resolve(find(filter).length),
+        };
+      },
+    },
+    batch,
+    log,
+  };
+}
@@ -9,6 +9,53 @@
  */
 
 import type * as v from "../schema.ts";
+import type { Logger } from "../utils/logger.ts";
+
+/**
+ * Read-only access to a collection from a transform
+ */
+export interface TransformCollectionReader {
+  findOne(filter?: Record<string, unknown>): Promise<Record<string, unknown> | null>;
+  find(filter?: Record<string, unknown>): Promise<Record<string, unknown>[]>;
+  countDocuments(filter?: Record<string, unknown>): Promise<number>;
+}
+
+/**
+ * Context passed to transforms, along with the document
+ */
+export type TransformContext = {
+  /**
+   * Read-only access to the database. During simulations, it reads the
+   * simulated database state.
+   */
+  db: {
+    collection(name: string): TransformCollectionReader;
+  };
+
+  /** Batch of documents being transformed */
+  batch: {
+    /** Collection of the documents */
+    collectionName: string;
+    /** Index of the batch, starting at 0 */
+    index: number;
+    /** Number of documents in the batch */
+    size: number;
+  };
+
+  /** Logger of the migration */
+  log: Logger;
+};
+
+/**
+ * Transformation of a document, possibly asynchronous
+ *
+ * @template T - Input document type
+ * @template U - Output document type
+ */
+export type TransformFunction<T = Record<string, unknown>, U = Record<string, unknown>> = (
+  doc: T,
+  context: TransformContext,
+) => U | Promise<U>;
 
 /**
  * Represents the different properties that can be applied to a migration
@@ -92,8 +139,8 @@ export type TransformCollectionRule<
 > = {
   type: "transform_collection";
   collectionName: string;
-  up: (doc: T) => U;
-  down: (doc: U) => T;
+  up: TransformFunction<T, U>;
+  down: TransformFunction<U, T>;
   schema: SchemaContent;
   parentSchema?: SchemaContent;
   /** Marks this transformation as irreversible (cannot be rolled back) */
@@ -109,8 +156,8 @@ export type TransformMultiCollectionTypeRule<
   type: "transform_multicollection_type";
   collectionName: string;
   documentType: string;
-  up: (doc: T) => U;
-  down: (doc: U) => T;
+  up: TransformFunction<T, U>;
+  down: TransformFunction<U, T>;
   schema: SchemaContent,
   parentSchema?: SchemaContent,
   /** Marks this transformation as irreversible (cannot be rolled back) */
@@ -127,8 +174,8 @@ export type TransformMultiModelInstanceTypeRule<
   collectionName: string;
   modelType: string;
   documentType: string;
-  up: (doc: T) => U;
-  down: (doc: U) => T;
+  up: TransformFunction<T, U>;
+  down: TransformFunction<U, T>;
   schema: SchemaContent,
   parentSchema?: SchemaContent,
   /** Marks this transformation as irreversible (cannot be rolled back) */
@@ -144,8 +191,8 @@ export type TransformMultiModelInstancesTypeRule<
   type: "transform_multimodel_instances_type";
   modelType: string;
   documentType: string;
-  up: (doc: T) => U;
-  down: (doc: U) => T;
+  up: TransformFunction<T, U>;
+  down: TransformFunction<U, T>;
   schema: SchemaContent,
   parentSchema?: SchemaContent,
   /** Marks this transformation as irreversible (cannot be rolled back) */
@@ -261,9 +308,9 @@ export type TransformRule<
   U = Record<string, any>,
 > = {
   /** Function to transform from old to new format */
-  readonly up: (doc: T) => U;
+  readonly up: TransformFunction<T, U>;
   /** Function to transform from new to old format */
-  readonly down: (doc: U) => T;
+  readonly down: TransformFunction<U, T>;
   /**
    * Marks this transformation as irreversible
    * Use when the migration cannot be rolled back (no valid down() function)
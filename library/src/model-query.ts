@@ -0,0 +1,216 @@
+/**
+ * @fileoverview Queries over all the instances of a multi-collection model
+ *
+ * `modelQuery` reads the elements of every instance of a model (e.g. one
+ * catalog per customer) in a single aggregation: the instances after the
+ * first one are appended with `$unionWith`, so sort, skip and limit apply to
+ * the merged results. Every result is tagged with the name of its instance
+ * in `_collection`.
+ *
+ * Invalid elements are skipped before skip and limit, so they don't shorten
+ * the pages, but are read to be skipped: deep pages read every element
+ * before them.
+ *
+ * Instances are discovered with `discoverMultiCollectionInstances` on every
+ * query, so instances created at runtime are included.
+ *
+ * @module
+ */
+
+import * as v from "./schema.ts";
+import type * as m from "mongodb";
+import type { MultiCollectionModel, MultiModelSchema } from "./multi-collection-model.ts";
+import { discoverMultiCollectionInstances } from "./migration/multicollection-registry.ts";
+import { type SoftDeleteOptions, withoutDeleted } from "./soft-delete.ts";
+import { getSessionContext } from "./session.ts";
+
+/**
+ * Element of a model instance, tagged with the name of the instance
+ */
+export type ModelElement<T extends MultiModelSchema, K extends keyof T> =
+  & { _id: string; _type: K }
+  & v.InferOutput<v.ObjectSchema<T[K], undefined>>
+  & { _collection: string };
+
+/**
+ * Options of a model query
+ */
+export type ModelQueryOptions = {
+  /** Names of the instances to query, all the instances of the model by default */
+  instances?: string[];
+  /** Soft delete configuration of the instances, skips the deleted elements */
+  softDelete?: SoftDeleteOptions;
+};
+
+/**
+ * Sort, skip and limit applied to the merged results
+ */
+export type ModelFindOptions = {
+  /** Global sort order, `_id` is added as tie-breaker */
+  sort?: Record<string, 1 | -1>;
+  skip?: number;
+  limit?: number;
+};
+
+/**
+ * Queries over the instances of a model
+ */
+export type ModelQuery<T extends MultiModelSchema> = {
+  /** Names of the queried instances */
+  instances(): Promise<string[]>;
+  /**
+   * Find the elements of a type in every instance. Invalid elements are skipped.
+   */
+  find<K extends keyof T & string>(
+    key: K,
+    filter?: m.Filter<ModelElement<T, K>>,
+    options?: ModelFindOptions,
+  ): Promise<ModelElement<T, K>[]>;
+  /** Count the elements of a type in every instance */
+  countDocuments<K extends keyof T & string>(
+    key: K,
+    filter?: m.Filter<ModelElement<T, K>>,
+  ): Promise<number>;
+  /**
+   * Find a page of the elements of a type in every instance, with the total
+   * number of matching elements, invalid ones included
+   */
+  paginate<K extends keyof T & string>(
+    key: K,
+    filter?: m.Filter<ModelElement<T, K>>,
+    options?: ModelFindOptions,
+  ): Promise<{ total: number; data: ModelElement<T, K>[] }>;
+};
+
+/**
+ * Query the elements of every instance of a multi-collection model
+ *
+ * @param db - Database holding the instances
+ * @param model - Model of the instances
+ * @param options - Instances to query and soft delete configuration
+ * @returns The model query
+ *
+ * @example
+ * ```typescript
+ * const catalogs = modelQuery(db, catalogModel);
+ *
+ * const products = await catalogs.find("product", { price: { $gt: 100 } }, {
+ *   sort: { price: -1 },
+ *   limit: 20,
+ * });
+ * products[0]._collection; // e.g. "catalog_louvre"
+ *
+ * const louvreAndOrsay = modelQuery(db, catalogModel, {
+ *   instances: ["catalog_louvre", "catalog_orsay"],
+ * });
+ * ```
+ */
+export function modelQuery<const T extends MultiModelSchema>(
+  db: m.Db,
+  model: MultiCollectionModel<T>,
+  options: ModelQueryOptions = {},
+): ModelQuery<T> {
+  const softDeleteField = options.softDelete?.field;
+  const sessionContext = getSessionContext(db.client);
+
+  const schemas = Object.fromEntries(
+    Object.entries(model.schema).map(([key, entries]) => [
+      key,
+      v.object({ _id: v.string(), _type: v.literal(key), ...entries }),
+    ]),
+  );
+
+  async function instances(): Promise<string[]> {
+    const discovered = await discoverMultiCollectionInstances(db, model.name);
+    if (!options.instances) return discovered;
+
+    for (const name of options.instances) {
+      if (!discovered.includes(name)) {
+        throw new Error(`Collection "${name}" is not an instance of model "${model.name}"`);
+      }
+    }
+    return options.instances;
+  }
+
+  /**
+   * Aggregate the matching elements of every instance, tagged with their
+   * instance name, then run the stages on the merged elements
+   */
+  async function aggregate(
+    key: string,
+    filter: m.Document | undefined,
+    stages: m.Document[],
+  ): Promise<m.AggregationCursor<m.Document> | null> {
+    const names = await instances();
+    if (names.length === 0) return null;
+
+    const typeChecker = withoutDeleted({ _type: key }, softDeleteField);
+    const match = { $match: { $and: filter ? [typeChecker, filter] : [typeChecker] } };
+    const [first, ...others] = names;
+
+    return await db.collection(first).aggregate([
+      match,
+      { $addFields: { _collection: first } },
+      ...others.map((name) => ({
+        $unionWith: {
+          coll: name,
+          pipeline: [match, { $addFields: { _collection: name } }],
+        },
+      })),
+      ...stages,
+    ], { session: sessionContext.getSession() });
+  }
+
+  /**
+   * Read a page of the valid elements of a type, in the global sort order
+   */
+  async function findPage<K extends keyof T & string>(
+    key: K,
+    filter: m.Document | undefined,
+    findOptions: ModelFindOptions,
+  ): Promise<ModelElement<T, K>[]> {
+    const { sort, limit = Infinity } = findOptions;
+    const cursor = await aggregate(key, filter, [{ $sort: { ...sort, _id: sort?._id ?? 1 } }]);
+    if (!cursor) return [];
+
+    let skip = findOptions.skip ?? 0;
+    const elements: ModelElement<T, K>[] = [];
+    try {
+      while (elements.length < limit) {
+        const document = await cursor.next();
+        if (!document) break;
+
+        const parsed = v.safeParse(schemas[key], document);
+        if (!parsed.success) continue; // Skip invalid elements
+        if (skip > 0) {
+          skip--;
+          continue;
+        }
+        elements.push({ ...parsed.output, _collection: document._collection } as ModelElement<T, K>);
+      }
+    } finally {
+      await cursor.close();
+    }
+    return elements;
+  }
+
+  async function countDocuments(key: string, filter: m.Document | undefined): Promise<number> {
+    const cursor = await aggregate(key, filter, [{ $count: "count" }]);
+    const [result] = await cursor?.toArray() ?? [];
+    return result?.count ?? 0;
+  }
+
+  return {
+    instances,
+    async find(key, filter, findOptions = {}) {
+      return await findPage(key, filter, findOptions);
+    },
+    countDocuments,
+    async paginate(key, filter, findOptions = {}) {
+      return {
+        total: await countDocuments(key, filter),
+        data: await findPage(key, filter, { limit: 100, ...findOptions }),
+      };
+    },
+  };
+}
@@ -5,6 +5,7 @@ import { dbId, newId } from "./ids.ts";
 import { extractFieldsToRemove, sanitizeForMongoDB } from "./sanitizer.ts";
 import { createDotNotationSchema, getNestedValue } from "./dot-notation.ts";
 import { getSessionContext } from "./session.ts";
+import { closeCollectionWatchers, watchShared } from "./change-stream.ts";
 import { withIndex } from "./indexes.ts";
 import type { FlatType } from "../types/flat.ts";
 import type { Db } from "./mongodb.ts";
@@ -21,6 +22,53 @@ import { getLastAppliedMigration } from "./migration/state.ts";
 import { applyMultiCollectionIndexes } from "./indexes-applier.ts";
 import { isSchemaManaged } from "./runtime-config.ts";
 import { createLogger } from "./utils/logger.ts";
+import {
+  VersionConflictError,
+  type VersionedWriteOptions,
+  type VersioningOptions,
+  nextVersionExpression,
+  versionSchemaEntry,
+  type WithVersionField,
+  withUpsertedVersion,
+  withVersionIncrement,
+} from "./versioning.ts";
+import {
+  onlyDeleted,
+  restoreUpdate,
+  type SoftDeleteOptions,
+  softDeleteSchemaEntry,
+  softDeleteUpdate,
+  type WithSoftDeleteField,
+  withoutDeleted,
+} from "./soft-delete.ts";
+import {
+  replacedTimestamps,
+  resolveTimestampFields,
+  type TimestampsOptions,
+  timestampSchemaEntries,
+  type WithTimestampFields,
+  withInsertTimestamps,
+  withUpdateTimestamps,
+} from "./timestamps.ts";
+import { replacementPipeline } from "./utils/update.ts";
+import {
+  foundCounts,
+  type HookContext,
+  HookRegistry,
+  type LifecycleHooks,
+  updateCounts,
+} from "./hooks.ts";
+import { type AuditOptions, createAuditTrail, registerAuditHooks } from "./audit.ts";
+import { tenantSchemaEntry, tenantScopedCollection, type WithTenantField } from "./tenant.ts";
+import type { AggregationStage, PipelineOutput, TypedStage } from "./aggregation.ts";
+import {
+  type DanglingReference,
+  type ElementReference,
+  extractReferences,
+  ReferentialIntegrityError,
+  refMetadata,
+} from "./references.ts";
+import { createFilterValidator } from "./filter-validation.ts";
 
 const log = createLogger("multi-collection");
 
@@ -29,6 +77,7 @@ export { dbId, refId } from "./ids.ts";
 
 type CollectionOptions = {
   safeDelete?: boolean;
+  /** Allow listening to change stream events with `on()` */
   enableWatching?: boolean;
   /** How to handle undefined values in updates: 'remove' | 'ignore' | 'error' */
   undefinedBehavior?: "remove" | "ignore" | "error";
@@ -39,8 +88,55 @@ type CollectionOptions = {
    * - "inherit": Use global runtime config (default)
    */
   schemaManagement?: "auto" | "managed" | "inherit";
+  /**
+   * Optimistic concurrency control: keep an integer version in `field` on
+   * every element, set to 0 on insert and incremented by every update
+   */
+  versioning?: VersioningOptions;
+  /**
+   * Deletes stamp the deletion date in `field` instead of removing the
+   * elements, and reads skip soft-deleted elements
+   */
+  softDelete?: SoftDeleteOptions;
+  /**
+   * Stamp the creation and update dates of every element: `true` for
+   * `createdAt` / `updatedAt`, or custom field names
+   */
+  timestamps?: TimestampsOptions;
+  /**
+   * Append a record with a field-level diff and the actor (see `withActor`)
+   * to the `collection` audit collection for every write
+   */
+  audit?: AuditOptions;
+  /**
+   * Restrict every operation to the tenant set with `withTenant`, stored in
+   * this field of every element. Operations outside of a tenant context
+   * throw unless they run inside `crossTenant`.
+   */
+  tenantField?: string;
+  /**
+   * Check the filters of reads and deletes against the schema of their
+   * element type: unknown paths and values that can't match their field throw
+   */
+  validateFilters?: boolean;
 };
 
+/**
+ * Adds the fields managed through the collection options to every element schema
+ */
+type WithElementOptionFields<T extends MultiCollectionSchema, O> = O extends
+  | { versioning: { field: string } }
+  | { softDelete: { field: string } }
+  | { timestamps: TimestampsOptions }
+  | { tenantField: string }
+  ? {
+    [K in keyof T]: WithTenantField<
+      WithTimestampFields<WithSoftDeleteField<WithVersionField<T[K], O>, O>, O>,
+      O
+    >;
+  }
+  : T;
+
 // Use _id if the schema is a literal schema, otherwise use dbId
 type DynId<T> = T extends v.LiteralSchema<any, AnyMessage> ? T
   : ReturnType<typeof dbId>;
@@ -89,58 +185,109 @@ type WithRemovable<T> = {
   [K in keyof T]: DeepWithRemovable<T[K]> | symbol;
 };
 
-// Type for aggregation pipeline stages
-type AggregationStage = Record<string, unknown>;
+/**
+ * Partial update of an element, in dot notation, accepting removeField()
+ */
+type ElementUpdate<T extends MultiCollectionSchema, K extends keyof T> = Omit<
+  WithRemovable<Partial<FlatType<v.InferInput<ElementSchema<T, K>>>>>,
+  "_id" | "type"
+>;
+
+/**
+ * Bulk write operation targeting documents of a single element type
+ */
+type BulkWriteOperation<T extends MultiCollectionSchema, K extends keyof T> =
+  | { insertOne: { document: v.InferInput<ElementSchema<T, K>> } }
+  | { updateOne: { id: string; update: ElementUpdate<T, K> } }
+  | {
+    replaceOne: {
+      id: string;
+      document: Omit<v.InferInput<ElementSchema<T, K>>, "_id">;
+    };
+  }
+  | { deleteOne: { id: string } };
+
+/**
+ * Options of the lookups into the collection, whose pipeline is built with
+ * the stage builder
+ */
+type LookupOptions<
+  T extends MultiCollectionSchema,
+  A extends string,
+  S extends readonly TypedStage[],
+> = {
+  as?: A;
+  pipeline?: (stage: StageBuilder<T>) => S;
+  let?: Record<string, unknown>;
+};
+
+/**
+ * Stage builder of multi-collection aggregations
+ * Each helper returns a `TypedStage` so `aggregate()` can track the shape
+ * of the documents through the pipeline: `match` narrows them to an element
+ * type, lookups add the joined elements.
+ */
 type StageBuilder<T extends MultiCollectionSchema> = {
   match: <E extends keyof T>(
     key: E,
     filter: Record<string, unknown>,
-  ) => AggregationStage;
-  unwind: <E extends keyof T>(key: E, field: string) => AggregationStage;
-  lookup: <E extends keyof T>(
+  ) => TypedStage<{ kind: "narrow"; match: { _type: E } }>;
+  unwind: {
+    <const F extends string>(field: F): TypedStage<{ kind: "unwind"; field: F }>;
+    /** @deprecated The element type is not used, pass the field only */
+    <E extends keyof T, const F extends string>(key: E, field: F): TypedStage<{ kind: "unwind"; field: F }>;
+  };
+  lookup: <
+    E extends keyof T,
+    const L extends string,
+    const A extends string = L,
+    const S extends readonly TypedStage[] = [],
+  >(
     key: E,
-    localField: string,
+    localField: L,
     foreignField: string,
-    asOrOptions?: string | {
-      as?: string;
-      pipeline?: (stage: StageBuilder<T>) => AggregationStage[];
-      let?: Record<string, unknown>;
-    },
-  ) => AggregationStage;
+    asOrOptions?: A | LookupOptions<T, A, S>,
+  ) => TypedStage<{ kind: "lookup"; as: A; joined: PipelineOutput<ExtractByType<T, E>, S> }>;
   /** 
    * Lookup without _type constraint - useful for polymorphic references 
    * where the ID prefix (e.g., "collaborator:xxx") already guarantees uniqueness.
    * Returns documents from any type in the collection.
    */
-  anyLookup: (
-    localField: string,
+  anyLookup: <
+    const L extends string,
+    const A extends string = L,
+    const S extends readonly TypedStage[] = [],
+  >(
+    localField: L,
     foreignField: string,
-    asOrOptions?: string | {
-      as?: string;
-      pipeline?: (stage: StageBuilder<T>) => AggregationStage[];
-      let?: Record<string, unknown>;
-    },
-  ) => AggregationStage;
+    asOrOptions?: A | LookupOptions<T, A, S>,
+  ) => TypedStage<{ kind: "lookup"; as: A; joined: PipelineOutput<ExtractByType<T, keyof T>, S> }>;
   /**
    * Lookup into an external collection (outside this multi-collection).
    * Useful for joining with other MongoDB collections or other multi-collections.
    */
-  externalLookup: (
+  externalLookup: <const L extends string, const A extends string = L>(
     fromCollection: string,
-    localField: string,
+    localField: L,
     foreignField: string,
-    asOrOptions?: string | {
-      as?: string;
+    asOrOptions?: A | {
+      as?: A;
       pipeline?: AggregationStage[];
       let?: Record<string, unknown>;
     },
-  ) => AggregationStage;
-  project: (projection: Record<string, 1 | 0 | string | Record<string, unknown>>) => AggregationStage;
-  addFields: (fields: Record<string, unknown>) => AggregationStage;
-  group: (grouping: Record<string, unknown>) => AggregationStage;
-  sort: (sort: Record<string, 1 | -1>) => AggregationStage;
-  limit: (limit: number) => AggregationStage;
-  skip: (skip: number) => AggregationStage;
+  ) => TypedStage<{ kind: "lookup"; as: A; joined: m.Document }>;
+  project: <
+    const P extends Record<string, 1 | 0 | string | Record<string, unknown>>,
+  >(projection: P) => TypedStage<{ kind: "project"; spec: P }>;
+  addFields: <const F extends Record<string, unknown>>(
+    fields: F,
+  ) => TypedStage<{ kind: "addFields"; fields: F }>;
+  group: <const G extends Record<string, unknown>>(
+    grouping: G,
+  ) => TypedStage<{ kind: "group"; spec: G }>;
+  sort: (sort: Record<string, 1 | -1>) => TypedStage<{ kind: "keep" }>;
+  limit: (limit: number) => TypedStage<{ kind: "keep" }>;
+  skip: (skip: number) => TypedStage<{ kind: "keep" }>;
 };
 
 type Input<T extends MultiCollectionSchema> = v.InferInput<
@@ -157,12 +304,119 @@ type Output<T extends MultiCollectionSchema> = v.InferOutput<
 type ExtractByType<T extends MultiCollectionSchema, K extends keyof T> =
   K extends K ? v.InferOutput<OutputElementSchema<T, K>> : never;
 
+/**
+ * Lifecycle hooks of an element type
+ */
+type ElementHooks<T extends MultiCollectionSchema, K extends keyof T> = LifecycleHooks<
+  v.InferOutput<OutputElementSchema<T, K>>
+>;
+
+/**
+ * Element as stored, whatever its type
+ */
+type StoredElement = m.Document & { _id: string };
+
+/**
+ * Change stream event of any element type
+ */
+type ElementChange =
+  | m.ChangeStreamInsertDocument
+  | m.ChangeStreamUpdateDocument
+  | m.ChangeStreamReplaceDocument
+  | m.ChangeStreamDeleteDocument;
+
+/**
+ * Change stream events of an element type
+ */
+type ElementEvents<T extends MultiCollectionSchema, K extends keyof T> = {
+  insert: (insertEvent: m.ChangeStreamInsertDocument<ExtractByType<T, K>>) => void;
+  update: (updateEvent: m.ChangeStreamUpdateDocument<ExtractByType<T, K>>) => void;
+  replace: (replaceEvent: m.ChangeStreamReplaceDocument<ExtractByType<T, K>>) => void;
+  delete: (deleteEvent: m.ChangeStreamDeleteDocument<ExtractByType<T, K>>) => void;
+};
+
+/**
+ * Element type referenced by a field schema built with `refId`, possibly
+ * optional, nullable or in an array
+ */
+type RefTarget<S> = S extends
+  | v.OptionalSchema<infer W, infer _Default>
+  | v.NullableSchema<infer W, infer _Default>
+  | v.NullishSchema<infer W, infer _Default> ? RefTarget<W>
+  : S extends v.ArraySchema<infer I, infer _Message> ? RefTarget<I>
+  : S extends v.SchemaWithPipe<infer P>
+    ? Extract<P[number], { readonly metadata: { readonly ref: string } }>["metadata"]["ref"]
+  : never;
+
+/**
+ * Fields of an element type referencing another element type of the collection
+ */
+type RefFields<T extends MultiCollectionSchema, K extends keyof T> = {
+  [F in Exclude<keyof T[K], "_id">]: [RefTarget<T[K][F]>] extends [keyof T]
+    ? [RefTarget<T[K][F]>] extends [never] ? never : F
+    : never;
+}[Exclude<keyof T[K], "_id">];
+
+/**
+ * Value of a populated field: the referenced element, null when it does not
+ * exist (or an array of the existing ones)
+ */
+type PopulatedField<T extends MultiCollectionSchema, S> = S extends v.OptionalSchema<infer W, infer _Default>
+  ? PopulatedField<T, W> | undefined
+  : S extends v.NullableSchema<infer W, infer _Default> ? PopulatedField<T, W> | null
+  : S extends v.NullishSchema<infer W, infer _Default> ? PopulatedField<T, W> | null | undefined
+  : S extends v.ArraySchema<infer I, infer _Message> ? Exclude<PopulatedField<T, I>, null>[]
+  : ExtractByType<T, RefTarget<S> & keyof T> | null;
+
+/**
+ * Output of an element type with the reference fields F replaced by the
+ * referenced elements
+ */
+type Populated<T extends MultiCollectionSchema, K extends keyof T, F extends keyof T[K]> =
+  [F] extends [never] ? v.InferOutput<OutputElementSchema<T, K>>
+    : Omit<v.InferOutput<OutputElementSchema<T, K>>, F> & { [P in F]: PopulatedField<T, T[K][P]> };
+
 /**
  * Type representing the enhanced MongoDB collection for storing multiple document types
  * @template T - Record mapping document type names to their schemas
  */
 type MultiCollectionResult<T extends MultiCollectionSchema> = {
   withSession: Awaited<ReturnType<typeof getSessionContext>>["withSession"];
+  /**
+   * Register a lifecycle hook for an element type, awaited inside the write
+   * operation with its session. Returns a function removing the hook.
+   * Cross-type operations (`deleteAny`) and `bulkWrite` do not run hooks.
+   *
+   * @example
+   * ```typescript
+   * catalog.hook("product", "afterInsert", async ({ document }, { session }) => {
+   *   await stats.updateOne({ _id: "products" }, { $inc: { count: 1 } }, { session });
+   * });
+   * ```
+   */
+  hook<E extends keyof T, H extends keyof ElementHooks<T, E>>(
+    key: E,
+    event: H,
+    callback: ElementHooks<T, E>[H],
+  ): () => void;
+  /**
+   * Listen to the change stream events of an element type (requires the
+   * `enableWatching` option). Events are filtered on the type server-side,
+   * with one change stream per watched type, opened by its first listener
+   * and closed with its last one. Returns a function removing the listener.
+   *
+   * @example
+   * ```typescript
+   * catalog.on("product", "insert", (event) => {
+   *   socket.broadcast("product:new", event.fullDocument);
+   * });
+   * ```
+   */
+  on<E extends keyof T, Ev extends keyof ElementEvents<T, E>>(
+    key: E,
+    event: Ev,
+    callback: ElementEvents<T, E>[Ev],
+  ): () => void;
   insertOne<E extends keyof T>(
     key: E,
     doc: v.InferInput<ElementSchema<T, E>>,
@@ -179,11 +433,32 @@ type MultiCollectionResult<T extends MultiCollectionSchema> = {
     key: E,
     filter: m.Filter<v.InferInput<OutputElementSchema<T, E>>>,
   ): Promise<v.InferOutput<OutputElementSchema<T, E>> | null>;
-  find<E extends keyof T>(
+  /**
+   * Find the elements of a type. Reference fields listed in `populate` are
+   * replaced by the referenced elements (see `populate`).
+   */
+  find<E extends keyof T, const F extends RefFields<T, E>[] = []>(
     key: E,
     filter?: m.Filter<v.InferInput<OutputElementSchema<T, E>>>,
-    options?: m.FindOptions,
-  ): Promise<v.InferOutput<OutputElementSchema<T, E>>[]>;
+    options?: m.FindOptions & { populate?: F },
+  ): Promise<Populated<T, E, F[number]>[]>;
+  /**
+   * Replace reference fields (declared with `refId`) of elements by the
+   * referenced elements, with one query per referenced type. Missing or
+   * soft-deleted references become null, and are left out of arrays.
+   *
+   * @example
+   * ```typescript
+   * const products = await catalog.find("product", { price: { $lt: 100 } });
+   * const withCategory = await catalog.populate("product", products, ["category"]);
+   * withCategory[0].category?.name;
+   * ```
+   */
+  populate<E extends keyof T, const F extends RefFields<T, E>[]>(
+    key: E,
+    docs: v.InferOutput<OutputElementSchema<T, E>>[],
+    fields: F,
+  ): Promise<Populated<T, E, F[number]>[]>;
   /**
    * Find the first document matching a cross-type filter — no `_type`
    * constraint injected. Symmetric to `deleteAny` ; useful when the
@@ -291,37 +566,354 @@ type MultiCollectionResult<T extends MultiCollectionSchema> = {
     filter?: m.Filter<v.InferInput<OutputElementSchema<T, E>>>,
     options?: m.CountDocumentsOptions,
   ): Promise<number>;
+  /**
+   * Delete an element. The `onDelete` rules of the references to it are
+   * applied first: a `restrict` reference throws a `ReferentialIntegrityError`,
+   * `cascade` and `setNull` ones write with the active session.
+   */
   deleteId<E extends keyof T>(key: E, id: string): Promise<number>;
   deleteIds<E extends keyof T>(key: E, ids: string[]): Promise<number>;
   deleteMany<E extends keyof T>(
     key: E,
     filter: m.Filter<v.InferInput<OutputElementSchema<T, E>>>,
   ): Promise<number>;
+  /**
+   * Delete elements of any type matching a filter. The `onDelete` rules of
+   * the references and the hooks are not applied.
+   */
   deleteAny(filter: m.Filter<Input<T>>): Promise<number>;
+  /**
+   * Find the references (`refId` fields) to elements that do not exist, or
+   * are soft-deleted, across every element type
+   *
+   * @example
+   * ```typescript
+   * const dangling = await catalog.checkIntegrity();
+   * // [{ _id: "product:...", _type: "product", field: "category", ref: "category:..." }]
+   * ```
+   */
+  checkIntegrity(): Promise<DanglingReference[]>;
+  /**
+   * Bring back elements soft-deleted with the `softDelete` option.
+   * Returns the number of restored elements.
+   */
+  restore<E extends keyof T>(
+    key: E,
+    filter: m.Filter<v.InferInput<OutputElementSchema<T, E>>>,
+  ): Promise<number>;
+  /**
+   * Find the elements soft-deleted with the `softDelete` option
+   */
+  findDeleted<E extends keyof T>(
+    key: E,
+    filter?: m.Filter<v.InferInput<OutputElementSchema<T, E>>>,
+  ): Promise<v.InferOutput<OutputElementSchema<T, E>>[]>;
+  /**
+   * Permanently remove elements soft-deleted before the given date.
+   * Returns the number of purged elements.
+   */
+  purgeDeleted<E extends keyof T>(key: E, olderThan: Date): Promise<number>;
+  /**
+   * With `versioning` enabled, the version is incremented and
+   * `expectedVersion` makes the update conditional (see `VersionConflictError`)
+   */
   updateOne<E extends keyof T>(
     key: E,
     id: string,
-    doc: Omit<
-      WithRemovable<Partial<FlatType<v.InferInput<ElementSchema<T, E>>>>>,
-      "_id" | "type"
-    >,
+    doc: ElementUpdate<T, E>,
+    options?: VersionedWriteOptions,
   ): Promise<number>;
   updateMany(
     operation: {
       [key in keyof T]?: {
-        [id: string]: Omit<
-          WithRemovable<Partial<FlatType<v.InferInput<ElementSchema<T, key>>>>>,
-          "_id" | "type"
-        >;
+        [id: string]: ElementUpdate<T, key>;
       };
     },
   ): Promise<number>;
-  aggregate(
-    stageBuilder: (stage: StageBuilder<T>) => AggregationStage[],
-  ): Promise<any[]>;
+  /**
+   * Atomically update an element and return it, parsed through the output
+   * schema. The update is validated like `updateOne`. Returns the element
+   * after the update unless `returnDocument: "before"` is passed, and `null`
+   * if no element matches (`filter` adds conditions on top of the id).
+   *
+   * @example
+   * ```typescript
+   * // Claim a job only if nobody else did
+   * const job = await queue.findOneAndUpdate("job", jobId, { status: "running" }, {
+   *   filter: { status: "pending" },
+   * });
+   * ```
+   */
+  findOneAndUpdate<E extends keyof T>(
+    key: E,
+    id: string,
+    doc: ElementUpdate<T, E>,
+    options?: {
+      returnDocument?: "before" | "after";
+      filter?: m.Filter<v.InferInput<OutputElementSchema<T, E>>>;
+    },
+  ): Promise<v.InferOutput<OutputElementSchema<T, E>> | null>;
+  /**
+   * Update the element with the given id, or insert it if it does not exist.
+   * The document is validated against the full element schema, so the
+   * `_id` format and `_type` default are applied either way.
+   *
+   * @example
+   * ```typescript
+   * const { upserted } = await catalog.upsertOne("product", "product:phone", {
+   *   name: "Phone",
+   *   price: 499,
+   * });
+   * ```
+   */
+  upsertOne<E extends keyof T>(
+    key: E,
+    id: string,
+    doc: Omit<v.InferInput<ElementSchema<T, E>>, "_id">,
+  ): Promise<{ _id: string; upserted: boolean }>;
+  /**
+   * Execute validated insert/update/replace/delete operations in a single
+   * bulk write. Operations are keyed by element type, like `updateMany`.
+   * Every document and update is validated before anything is sent.
+   *
+   * @example
+   * ```typescript
+   * await catalog.bulkWrite({
+   *   product: [
+   *     { insertOne: { document: { name: "Phone", price: 499 } } },
+   *     { updateOne: { id: productId, update: { price: 450 } } },
+   *   ],
+   *   category: [
+   *     { deleteOne: { id: categoryId } },
+   *   ],
+   * });
+   * ```
+   */
+  bulkWrite(
+    operations: {
+      [key in keyof T]?: BulkWriteOperation<T, key>[];
+    },
+    options?: m.BulkWriteOptions,
+  ): Promise<m.BulkWriteResult>;
+  /**
+   * Run an aggregation pipeline built with the stage builder.
+   * The output type is tracked through the stages; pass `output` to
+   * validate every result row against a Valibot schema instead.
+   *
+   * @example
+   * ```typescript
+   * const products = await catalog.aggregate((stage) => [
+   *   stage.match("product", { price: { $gt: 100 } }),
+   *   stage.lookup("category", "category", "_id", "categories"),
+   * ]);
+   * // products[0].categories: category elements
+   * ```
+   */
+  aggregate<O extends v.GenericSchema>(
+    stageBuilder: (stage: StageBuilder<T>) => readonly TypedStage[],
+    options: m.AggregateOptions & { output: O },
+  ): Promise<v.InferOutput<O>[]>;
+  aggregate<const S extends readonly TypedStage[]>(
+    stageBuilder: (stage: StageBuilder<T>) => S,
+    options?: m.AggregateOptions,
+  ): Promise<PipelineOutput<ExtractByType<T, keyof T>, S>[]>;
   drop(options: { force: true }): Promise<boolean>;
 };
 
+/**
+ * Escape the special characters of a regular expression
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Change stream pipeline selecting the events of an element type: inserted
+ * and replaced elements carry their `_type`, updated and deleted ones are
+ * recognized by the prefix of their `_id`
+ */
+function elementChangePipeline(type: string): m.Document[] {
+  return [
+    {
+      $match: {
+        operationType: { $in: ["insert", "update", "replace", "delete"] },
+        $or: [
+          { "fullDocument._type": type },
+          { "documentKey._id": { $regex: `^${escapeRegExp(type)}:` } },
+        ],
+      },
+    },
+  ];
+}
+
+/**
+ * Creates the stage builder bound to a multi-collection
+ */
+function createStageBuilder<T extends MultiCollectionSchema>(
+  collectionName: string,
+): StageBuilder<T> {
+  return {
+    match: (matchKey, matchFilter) => ({
+      $match: {
+        _type: matchKey as string,
+        ...matchFilter,
+      },
+    }),
+    unwind: (...args: [string] | [keyof T, string]) => ({
+      $unwind: `$${args[args.length - 1] as string}`,
+    }),
+    lookup: (lookupKey, localField, foreignField, asOrOptions) => {
+      // Simple case: string parameter is the 'as' field name
+      // Automatically filter by _type for multi-collection support
+      if (typeof asOrOptions === 'string') {
+        return {
+          $lookup: {
+            from: collectionName,
+            let: { localValue: `$${localField}` },
+            pipeline: [
+              {
+                $match: {
+                  $expr: {
+                    $and: [
+                      { $eq: [`$${foreignField}`, "$$localValue"] },
+                      { $eq: ["$_type", lookupKey as string] },
+                    ],
+                  },
+                },
+              },
+            ],
+            as: asOrOptions,
+          },
+        };
+      }
+
+      // Advanced case: object with options
+      const lookupOptions = asOrOptions || {};
+      const as = lookupOptions.as || localField;
+
+      // Build the lookup with automatic _type filter
+      const lookupStage: Record<string, unknown> = {
+        from: collectionName,
+        let: { localValue: `$${localField}`, ...(lookupOptions.let || {}) },
+        as,
+      };
+
+      // Build pipeline: start with _type match, then add user pipeline if provided
+      const basePipeline: AggregationStage[] = [
+        {
+          $match: {
+            $expr: {
+              $and: [
+                { $eq: [`$${foreignField}`, "$$localValue"] },
+                { $eq: ["$_type", lookupKey as string] },
+              ],
+            },
+          },
+        },
+      ];
+
+      // Add user-provided pipeline stages after the base filter
+      if (lookupOptions.pipeline) {
+        const userPipeline = lookupOptions.pipeline(createStageBuilder<T>(collectionName));
+        basePipeline.push(...userPipeline);
+      }
+
+      lookupStage.pipeline = basePipeline;
+
+      return { $lookup: lookupStage };
+    },
+    anyLookup: (localField, foreignField, asOrOptions) => {
+      // Simple case: string parameter is the 'as' field name
+      // No _type filter - matches any document type
+      if (typeof asOrOptions === 'string') {
+        return {
+          $lookup: {
+            from: collectionName,
+            localField,
+            foreignField,
+            as: asOrOptions,
+          },
+        };
+      }
+
+      // Advanced case: object with options
+      const anyLookupOptions = asOrOptions || {};
+      const as = anyLookupOptions.as || localField;
+      const anyLookupStage: Record<string, unknown> = {
+        from: collectionName,
+        localField,
+        foreignField,
+        as,
+      };
+
+      // Add let variables if provided
+      if (anyLookupOptions.let) {
+        anyLookupStage.let = anyLookupOptions.let;
+      }
+
+      // Add pipeline if provided (execute the builder function)
+      if (anyLookupOptions.pipeline) {
+        anyLookupStage.pipeline = anyLookupOptions.pipeline(createStageBuilder<T>(collectionName));
+      }
+
+      return { $lookup: anyLookupStage };
+    },
+    externalLookup: (fromCollection, localField, foreignField, asOrOptions) => {
+      // Simple case: string parameter is the 'as' field name
+      if (typeof asOrOptions === 'string') {
+        return {
+          $lookup: {
+            from: fromCollection,
+            localField,
+            foreignField,
+            as: asOrOptions,
+          },
+        };
+      }
+
+      // Advanced case: object with options
+      const extLookupOptions = asOrOptions || {};
+      const as = extLookupOptions.as || localField;
+      const extLookupStage: Record<string, unknown> = {
+        from: fromCollection,
+        localField,
+        foreignField,
+        as,
+      };
+
+      // Add let variables if provided
+      if (extLookupOptions.let) {
+        extLookupStage.let = extLookupOptions.let;
+      }
+
+      // Add pipeline if provided (raw pipeline, not using StageBuilder)
+      if (extLookupOptions.pipeline) {
+        extLookupStage.pipeline = extLookupOptions.pipeline;
+      }
+
+      return { $lookup: extLookupStage };
+    },
+    project: (projection) => ({
+      $project: projection,
+    }),
+    addFields: (fields) => ({
+      $addFields: fields,
+    }),
+    group: (grouping) => ({
+      $group: grouping,
+    }),
+    sort: (sortSpec) => ({
+      $sort: sortSpec,
+    }),
+    limit: (limitVal) => ({
+      $limit: limitVal,
+    }),
+    skip: (skipVal) => ({
+      $skip: skipVal,
+    }),
+  };
+}
+
 /**
  * Creates a single MongoDB collection that can store multiple document types with validation
  *
@@ -352,12 +944,15 @@ type MultiCollectionResult<T extends MultiCollectionSchema> = {
  * await catalog.insertOne("product", { name: "Phone", price: 499, category: categoryId });
  * ```
  */
-export async function multiCollection<const T extends MultiCollectionSchema>(
+export async function multiCollection<
+  const T extends MultiCollectionSchema,
+  const O extends CollectionOptions = CollectionOptions,
+>(
   db: Db,
   collectionName: string,
   model: (T | MultiCollectionModel<T>),
-  options?: (m.CollectionOptions & CollectionOptions),
-): Promise<MultiCollectionResult<T>> {
+  options?: (m.CollectionOptions & O),
+): Promise<MultiCollectionResult<WithElementOptionFields<T, O>>> {
   // Extract schema from model
   const useModel = (model && (model as MultiCollectionModel<T>).schema && (typeof model.expose === "function"));
   const collectionSchema = (useModel
@@ -366,6 +961,10 @@ export async function multiCollection<const T extends MultiCollectionSchema>(
   type TInput = Input<T>;
   type TOutput = Output<T>;
 
+  const versionField = options?.versioning?.field;
+  const softDeleteField = options?.softDelete?.field;
+  const timestampFields = resolveTimestampFields(options?.timestamps);
+
   const schemaWithId = Object.entries(collectionSchema).reduce(
     (acc, [key, value]) => {
       return {
@@ -374,6 +973,10 @@ export async function multiCollection<const T extends MultiCollectionSchema>(
           _id: dbId(key),
           _type: withIndex(v.optional(v.literal(key), () => key)),
           ...value,
+          ...(versionField ? versionSchemaEntry(versionField) : {}),
+          ...(softDeleteField ? softDeleteSchemaEntry(softDeleteField) : {}),
+          ...(timestampFields ? timestampSchemaEntries(timestampFields) : {}),
+          ...(options?.tenantField ? tenantSchemaEntry(options.tenantField) : {}),
         },
       };
     },
@@ -390,6 +993,8 @@ export async function multiCollection<const T extends MultiCollectionSchema>(
     {} as { [key in keyof T]: ElementSchema<T, key> },
   );
 
+  const references = extractReferences(schemaElements);
+
   const dotSchemaElements = Object.entries(schemaElements).reduce(
     (acc, [key, value]) => {
       return {
@@ -404,6 +1009,31 @@ export async function multiCollection<const T extends MultiCollectionSchema>(
     ...Object.values(schemaElements),
   ]);
 
+  const filterValidators = options?.validateFilters
+    ? Object.fromEntries(
+      Object.entries(schemaElements).map(([key, value]) => [key, createFilterValidator(value)]),
+    )
+    : undefined;
+
+  /**
+   * Check a filter against the element types it targets (validateFilters
+   * option), it must be valid for one of them
+   */
+  function checkFilter(keys: (keyof T)[], filter: object | undefined) {
+    if (!filterValidators) return;
+
+    let firstError: unknown;
+    for (const key of keys) {
+      try {
+        filterValidators[key as string](filter);
+        return;
+      } catch (error) {
+        firstError ??= error;
+      }
+    }
+    throw firstError;
+  }
+
   const opts: m.CollectionOptions & CollectionOptions = {
     ...{
       safeDelete: true,
@@ -449,29 +1079,435 @@ export async function multiCollection<const T extends MultiCollectionSchema>(
       const currentSchema =
         existingOptions.cursor?.firstBatch?.[0]?.options?.validator || {};
 
-      const sameSchema = dirtyEquivalent(currentSchema, validator);
+      const sameSchema = dirtyEquivalent(currentSchema, validator);
+
+      if (sameSchema) {
+        log.debug(`applyValidator(${collectionName}): validator unchanged, skipping`);
+        return; // No need to update
+      }
+
+      log.debug(`applyValidator(${collectionName}): collMod (updating validator)`);
+      // Update the collection with the validator
+      await db.command({
+        collMod: collectionName,
+        validator,
+      });
+      log.debug(`applyValidator(${collectionName}): collMod done`);
+    }
+  }
+
+  async function applyIndexes() {
+    log.debug(`applyIndexes(${collectionName}): start`);
+    await applyMultiCollectionIndexes(collection, schemaElements, {
+      queue: mongoOperationQueue,
+    });
+    log.debug(`applyIndexes(${collectionName}): done`);
+  }
+
+  /**
+   * Assert that an id belongs to the given element type
+   */
+  function assertElementId(key: keyof T, id: string) {
+    if (!id.startsWith(`${key as string}:`)) {
+      throw new Error(`Invalid id format`);
+    }
+  }
+
+  /**
+   * Validate a full element document (generating its id if missing) and
+   * sanitize it for MongoDB
+   */
+  function prepareElementDocument(key: keyof T, doc: Record<string, unknown>): StoredElement {
+    const _id = doc._id ?? `${key as string}:${newId()}`;
+    const schema = schemaElements[key];
+    const validation = v.parse(schema, {
+      ...doc,
+      _id,
+    });
+
+    // Apply sanitization based on configuration
+    return sanitizeForMongoDB(validation as StoredElement, {
+      undefinedBehavior: opts.undefinedBehavior || "remove",
+      deep: true,
+    });
+  }
+
+  /**
+   * Validate a new element and initialize its version and timestamps
+   */
+  function prepareElementInsert(key: keyof T, doc: Record<string, unknown>) {
+    return initManagedFields(prepareElementDocument(key, doc));
+  }
+
+  /**
+   * Initialize the version and timestamps of a validated element to insert
+   */
+  function initManagedFields<D extends Record<string, unknown>>(doc: D): D {
+    let safeDoc: Record<string, unknown> = doc;
+    if (versionField) {
+      safeDoc[versionField] = 0;
+    }
+    if (timestampFields) {
+      safeDoc = withInsertTimestamps(safeDoc, timestampFields);
+    }
+    return safeDoc as D;
+  }
+
+  /**
+   * Add the version increment and update date to an update, when enabled
+   */
+  function withManagedFields<U extends m.Document>(update: U): U {
+    let managedUpdate = update;
+    if (versionField) {
+      managedUpdate = withVersionIncrement(managedUpdate, versionField);
+    }
+    if (timestampFields) {
+      managedUpdate = withUpdateTimestamps(managedUpdate, timestampFields);
+    }
+    return managedUpdate;
+  }
+
+  /**
+   * Build the pipeline replacing an element while keeping its managed fields
+   * up to date (version, creation date...). Returns null when a plain
+   * replacement is enough.
+   */
+  function managedReplacement(replacement: m.Document): m.Document[] | null {
+    const computed: Record<string, unknown> = {};
+    if (versionField) {
+      computed[versionField] = nextVersionExpression(versionField);
+    }
+    if (timestampFields) {
+      Object.assign(computed, replacedTimestamps(timestampFields));
+    }
+
+    if (Object.keys(computed).length === 0) {
+      return null;
+    }
+    return replacementPipeline(replacement, computed);
+  }
+
+  /**
+   * Validate a dot notation update of an element and build the
+   * corresponding $set / $unset operations
+   */
+  function prepareElementUpdate(key: keyof T, doc: Record<string, unknown>) {
+    const dotSchema = dotSchemaElements[key];
+    if (!dotSchema) {
+      throw new Error(`Invalid element type`);
+    }
+
+    // Extract fields to remove before validation (symbols would fail validation)
+    const { set, unset } = extractFieldsToRemove(doc);
+
+    // Validate only the fields that will be set (not the removed ones)
+    if (Object.keys(set).length > 0) {
+      v.parse(dotSchema, set);
+    }
+
+    // Sanitize the remaining fields
+    const sanitizedDoc = sanitizeForMongoDB(set, {
+      undefinedBehavior: opts.undefinedBehavior || "remove",
+      deep: true,
+    });
+
+    // Build update operations
+    const updateOps: m.Document = {};
+    if (Object.keys(sanitizedDoc).length > 0) {
+      updateOps.$set = sanitizedDoc;
+    }
+    if (Object.keys(unset).length > 0) {
+      updateOps.$unset = unset;
+    }
+
+    if (Object.keys(updateOps).length > 0) {
+      return withManagedFields(updateOps);
+    }
+
+    return updateOps;
+  }
+
+  /**
+   * Soft delete the elements matching a filter, returns the number of
+   * elements deleted
+   */
+  async function softDeleteElements(filter: Record<string, unknown>) {
+    const update = withManagedFields(softDeleteUpdate(softDeleteField!));
+
+    const session = sessionContext.getSession();
+    const result = await collection.updateMany(
+      withoutDeleted(filter, softDeleteField) as unknown as m.Filter<TOutput>,
+      update as m.UpdateFilter<TOutput>,
+      { session },
+    );
+
+    if (!result.acknowledged) {
+      throw new Error("Delete failed");
+    }
+
+    return result.modifiedCount;
+  }
+
+  /**
+   * Replace the reference fields of elements by the referenced elements,
+   * with one query per referenced type
+   */
+  async function populateElements(
+    key: keyof T,
+    docs: Record<string, unknown>[],
+    fields: readonly string[],
+  ) {
+    const references = fields.map((field) => {
+      const target = refMetadata(schemaElements[key].entries[field])?.ref;
+      if (!target || !(target in schemaElements)) {
+        throw new Error(`Field "${field}" is not a reference to an element of ${collectionName}`);
+      }
+      return { field, target };
+    });
+
+    // Group the referenced ids by type
+    const idsByType = new Map<string, Set<string>>();
+    for (const { field, target } of references) {
+      if (!idsByType.has(target)) idsByType.set(target, new Set());
+      for (const doc of docs) {
+        for (const id of [doc[field]].flat()) {
+          if (typeof id === "string") idsByType.get(target)!.add(id);
+        }
+      }
+    }
+
+    const session = sessionContext.getSession();
+    const elements = new Map<string, unknown>();
+    for (const [type, ids] of idsByType) {
+      if (ids.size === 0) continue;
+
+      const found = await collection.find({
+        $and: [
+          withoutDeleted({ _type: type }, softDeleteField),
+          { _id: { $in: [...ids] } },
+        ],
+      } as unknown as m.Filter<TOutput>, { session }).toArray();
+
+      for (const item of found) {
+        const parsed = v.safeParse(schema, item);
+        if (parsed.success) {
+          elements.set(item._id as string, parsed.output);
+        }
+      }
+    }
+
+    return docs.map((doc) => {
+      const populated = { ...doc };
+      for (const { field } of references) {
+        const value = doc[field];
+        if (Array.isArray(value)) {
+          populated[field] = value.map((id) => elements.get(id)).filter((element) => element !== undefined);
+        } else if (typeof value === "string") {
+          populated[field] = elements.get(value) ?? null;
+        }
+      }
+      return populated;
+    });
+  }
+
+  /**
+   * Apply the onDelete rules of the references to the elements about to be
+   * deleted: refuse the delete (restrict), delete (cascade) or clear
+   * (setNull) the elements referencing them
+   *
+   * @param deleting - Ids of the elements deleted by the current operation,
+   * cascades included, so that reference cycles end
+   */
+  async function applyDeleteRules(
+    key: keyof T,
+    filter: Record<string, unknown>,
+    deleting: Set<string>,
+  ) {
+    const rules = references.filter((reference) => reference.target === key && reference.onDelete);
+    if (rules.length === 0) {
+      return;
+    }
+
+    const session = sessionContext.getSession();
+    const targets = await collection.find(
+      withoutDeleted({ ...filter, _type: key as string }, softDeleteField) as unknown as m.Filter<TOutput>,
+      { session, projection: { _id: 1 } },
+    ).toArray();
+    const ids = targets.map((doc) => doc._id as string).filter((id) => !deleting.has(id));
+    if (ids.length === 0) {
+      return;
+    }
+    ids.forEach((id) => deleting.add(id));
+
+    const dependents = (reference: ElementReference) =>
+      withoutDeleted({
+        _type: reference.type,
+        _id: { $nin: [...deleting] },
+        [reference.field]: { $in: ids },
+      }, softDeleteField);
+
+    // Check every restriction before writing anything
+    for (const reference of rules) {
+      if (reference.onDelete !== "restrict") continue;
+      const count = await collection.countDocuments(dependents(reference) as unknown as m.Filter<TOutput>, { session, limit: 1 });
+      if (count > 0) {
+        throw new ReferentialIntegrityError(reference.type, reference.field);
+      }
+    }
+
+    for (const reference of rules) {
+      if (reference.onDelete === "cascade") {
+        await deleteElements(reference.type, dependents(reference), deleting);
+      } else if (reference.onDelete === "setNull") {
+        await clearReferences(reference, dependents(reference), ids);
+      }
+    }
+  }
+
+  /**
+   * Remove references to deleted elements: set to null for nullable fields,
+   * unset for optional ones, pulled from arrays
+   */
+  async function clearReferences(
+    reference: ElementReference,
+    filter: Record<string, unknown>,
+    ids: string[],
+  ) {
+    const update = withManagedFields<m.Document>(
+      reference.array
+        ? { $pull: { [reference.field]: { $in: ids } } }
+        : reference.nullable
+        ? { $set: { [reference.field]: null } }
+        : { $unset: { [reference.field]: "" } },
+    );
+
+    const hooks = elementHooks(reference.type);
+    const hookEvent = { filter, update, multi: true };
+    const context = hookContext();
+    await hooks.run("beforeUpdate", hookEvent, context);
 
-      if (sameSchema) {
-        log.debug(`applyValidator(${collectionName}): validator unchanged, skipping`);
-        return; // No need to update
-      }
+    const session = sessionContext.getSession();
+    const result = await collection.updateMany(filter as m.Filter<TOutput>, update as m.UpdateFilter<TOutput>, { session });
 
-      log.debug(`applyValidator(${collectionName}): collMod (updating validator)`);
-      // Update the collection with the validator
-      await db.command({
-        collMod: collectionName,
-        validator,
+    await hooks.run("afterUpdate", { ...hookEvent, ...updateCounts(result) }, context);
+  }
+
+  /**
+   * Delete (or soft delete) the elements of a type matching a filter,
+   * applying the hooks and onDelete rules. Returns the number of elements
+   * deleted.
+   */
+  async function deleteElements(
+    key: keyof T,
+    filter: Record<string, unknown>,
+    deleting: Set<string>,
+  ) {
+    const hooks = elementHooks(key);
+    const hookEvent = { filter, multi: true };
+    const context = hookContext();
+    await hooks.run("beforeDelete", hookEvent, context);
+    await applyDeleteRules(key, filter, deleting);
+
+    const session = sessionContext.getSession();
+
+    // Combine the user filter with the type filter
+    const combinedFilter = {
+      ...filter,
+      _type: key as string,
+    } as any;
+
+    const deletedCount = softDeleteField
+      ? await softDeleteElements(combinedFilter)
+      : await collection.deleteMany(combinedFilter, { session }).then((result) => {
+        if (!result.acknowledged) {
+          throw new Error("Delete failed");
+        }
+        return result.deletedCount;
       });
-      log.debug(`applyValidator(${collectionName}): collMod done`);
+
+    await hooks.run("afterDelete", { ...hookEvent, deletedCount }, context);
+    return deletedCount;
+  }
+
+  /**
+   * Throw if the softDelete option is not enabled
+   */
+  function assertSoftDelete(): string {
+    if (!softDeleteField) {
+      throw new Error("softDelete option is not enabled");
     }
+    return softDeleteField;
   }
 
-  async function applyIndexes() {
-    log.debug(`applyIndexes(${collectionName}): start`);
-    await applyMultiCollectionIndexes(collection, schemaElements, {
-      queue: mongoOperationQueue,
+  /**
+   * Run a write bypassing the lifecycle hooks, recording its changes in the
+   * audit trail when enabled
+   */
+  async function audited<R>(
+    filter: Record<string, unknown>,
+    write: () => Promise<R>,
+    createdIds?: (result: R) => unknown[],
+  ): Promise<R> {
+    if (!auditTrail) return await write();
+
+    const session = sessionContext.getSession();
+    return await auditTrail.track(filter, session, write, createdIds);
+  }
+
+  const hookRegistries = new Map<
+    keyof T,
+    ReturnType<typeof HookRegistry<LifecycleHooks<StoredElement>>>
+  >();
+
+  /**
+   * Hooks registered for an element type
+   */
+  function elementHooks(key: keyof T) {
+    let registry = hookRegistries.get(key);
+    if (!registry) {
+      registry = HookRegistry<LifecycleHooks<StoredElement>>();
+      hookRegistries.set(key, registry);
+
+      if (auditTrail) {
+        const typeChecker = { _type: key as string };
+        // Deletes skip the elements already soft-deleted
+        registerAuditHooks(registry, auditTrail, (filter, operation) => ({
+          $and: [
+            operation === "delete" ? withoutDeleted(typeChecker, softDeleteField) : typeChecker,
+            filter,
+          ],
+        }));
+      }
+    }
+    return registry;
+  }
+
+  /**
+   * Register a change stream listener for an element type. The listeners of
+   * a type share its change stream, opened with the first one and closed
+   * with the last one.
+   */
+  function onElementEvent<Ev extends ElementChange["operationType"]>(
+    key: keyof T,
+    event: Ev,
+    callback: (change: Extract<ElementChange, { operationType: Ev }>) => void,
+  ): () => void {
+    if (!opts.enableWatching) {
+      throw new Error("enableWatching option is not enabled");
+    }
+
+    return watchShared(db, rawCollection, elementChangePipeline(key as string), {}, (change) => {
+      if (change.operationType === event) {
+        callback(change as Extract<ElementChange, { operationType: Ev }>);
+      }
     });
-    log.debug(`applyIndexes(${collectionName}): done`);
+  }
+
+  /**
+   * Context given to the lifecycle hooks of the running operation
+   */
+  function hookContext(): HookContext {
+    return { session: sessionContext.getSession() };
   }
 
   let sessionContext: Awaited<ReturnType<typeof getSessionContext>>;
@@ -529,30 +1565,45 @@ export async function multiCollection<const T extends MultiCollectionSchema>(
     log.debug(`init(${collectionName}): end`);
   }
 
-  const collection = db.collection<TOutput>(collectionName, opts);
+  const rawCollection = db.collection<TOutput>(collectionName, opts);
+  // Every operation goes through the tenant scope when tenantField is set
+  const collection = opts.tenantField
+    ? tenantScopedCollection(rawCollection, opts.tenantField)
+    : rawCollection;
+  const auditTrail = opts.audit
+    ? createAuditTrail({
+      db,
+      options: opts.audit,
+      collectionName,
+      source: collection as unknown as m.Collection<m.Document>,
+      softDeleteField,
+      typed: true,
+    })
+    : undefined;
   await init();
 
-  return {
+  const multiCollectionResult: MultiCollectionResult<T> = {
     withSession: sessionContext!.withSession,
+        hook(key, event, callback) {
+            return elementHooks(key).hook(event, callback as unknown as LifecycleHooks<StoredElement>[typeof event]);
+        },
+        on(key, event, callback) {
+            return onElementEvent(key, event, callback as (change: ElementChange) => void);
+        },
         async insertOne(key, doc) {
-            const _id = doc._id ?? `${key as string}:${newId()}`;
-            const schema = schemaElements[key];
-            const validation = v.parse(schema, {
-                ...doc,
-                _id,
-            });
-
-            // Apply sanitization based on configuration
-            const safeDoc = sanitizeForMongoDB(validation, {
-                undefinedBehavior: opts.undefinedBehavior || 'remove',
-                deep: true
-            }) as any;
+            const safeDoc = prepareElementInsert(key, doc as Record<string, unknown>);
+            const hooks = elementHooks(key);
+            const context = hookContext();
+            await hooks.run("beforeInsert", { document: safeDoc }, context);
+            // Validate the changes made by the hooks
+            const document = prepareElementDocument(key, safeDoc);
 
             const session = sessionContext.getSession();
-            const result = await collection.insertOne(safeDoc, { session });
+            const result = await collection.insertOne(document as m.OptionalUnlessRequiredId<TOutput>, { session });
             if(!result.acknowledged) {
                 throw new Error("Insert failed");
             }
+            await hooks.run("afterInsert", { document }, context);
 
             return result.insertedId as unknown as string;
         },
@@ -570,12 +1621,26 @@ export async function multiCollection<const T extends MultiCollectionSchema>(
                 undefinedBehavior: opts.undefinedBehavior || 'remove',
                 deep: true
             }) as any);
+            const managedDocs = safeDocs.map(initManagedFields);
+            const hooks = elementHooks(key);
+            const context = hookContext();
+            for (const document of managedDocs) {
+                await hooks.run("beforeInsert", { document }, context);
+            }
+            // Validate the changes made by the hooks
+            const documents = managedDocs.map((document) => prepareElementDocument(key, document));
 
             const session = sessionContext.getSession();
-            const result = await collection.insertMany(safeDocs, { session });
+            const result = await collection.insertMany(
+                documents as m.OptionalUnlessRequiredId<TOutput>[],
+                { session },
+            );
             if(!result.acknowledged) {
                 throw new Error("Insert failed");
             }
+            for (const document of documents) {
+                await hooks.run("afterInsert", { document }, context);
+            }
 
             return Object.values(result.insertedIds) as unknown as string[];
         },
@@ -583,7 +1648,7 @@ export async function multiCollection<const T extends MultiCollectionSchema>(
             const session = sessionContext.getSession();
             const result = await collection.findOne({
                 $and: [
-                    { _type: key as string },
+                    withoutDeleted({ _type: key as string }, softDeleteField),
                     { _id: id },
                 ]
             } as any, { session });
@@ -595,10 +1660,11 @@ export async function multiCollection<const T extends MultiCollectionSchema>(
             return v.parse(schema, result);
         },
         async findOne(key, filter) {
+            checkFilter([key], filter);
             const session = sessionContext.getSession();
             const result = await collection.findOne({
                 $and: [
-                    { _type: key as string },
+                    withoutDeleted({ _type: key as string }, softDeleteField),
                     filter,
                 ]
             } as any, { session });
@@ -610,14 +1676,16 @@ export async function multiCollection<const T extends MultiCollectionSchema>(
             return v.parse(schema, result);
         },
         async find(key, filter, options) {
-            const typeChecker = {
+            checkFilter([key], filter);
+            const typeChecker = withoutDeleted({
                 _type: key as string,
-            };
+            }, softDeleteField);
 
+            const { populate, ...findOptions } = options ?? {};
             const session = sessionContext.getSession();
             const cursor = collection.find({
                 $and: filter ? [typeChecker, filter] : [typeChecker],
-            } as any, { session, ...options });
+            } as unknown as m.Filter<TOutput>, { session, ...findOptions });
             
             const result = await cursor.toArray();
             let invalidsCount = 0;
@@ -631,7 +1699,11 @@ export async function multiCollection<const T extends MultiCollectionSchema>(
                 return parsed.output;
             }).filter((item): item is v.InferOutput<OutputElementSchema<T, typeof key>> => item !== null);
             
-            return output;
+            // The overload types the populated fields
+            return (populate?.length ? await populateElements(key, output, populate as string[]) : output) as never;
+        },
+        async populate(key, docs, fields) {
+            return await populateElements(key, docs, fields as string[]) as never;
         },
         // Implementation supports both single key and array of keys
         // Type safety is enforced through the overload signatures above
@@ -660,12 +1732,13 @@ export async function multiCollection<const T extends MultiCollectionSchema>(
 
             // Support both single key and array of keys for cross-pagination
             const keys = Array.isArray(keyOrKeys) ? keyOrKeys as (keyof T)[] : [keyOrKeys as keyof T];
+            checkFilter(keys, filter);
             const isCrossPagination = Array.isArray(keyOrKeys);
 
             // Build type checker: single type or $in for multiple types
-            const typeChecker = keys.length === 1
+            const typeChecker = withoutDeleted<Record<string, unknown>>(keys.length === 1
                 ? { _type: keys[0] as string }
-                : { _type: { $in: keys as string[] } };
+                : { _type: { $in: keys as string[] } }, softDeleteField);
 
             // Build the base query with type filter
             const baseQuery = filter ? [typeChecker, filter] : [typeChecker];
@@ -798,167 +1871,6 @@ export async function multiCollection<const T extends MultiCollectionSchema>(
               sort = reversedSort;
             }
 
-            // Create StageBuilder for pipeline support
-            const createStageBuilder = (): StageBuilder<T> => ({
-                match: (matchKey, matchFilter) => ({
-                    $match: {
-                        _type: matchKey as string,
-                        ...matchFilter,
-                    },
-                }),
-                unwind: (_unwindKey, field) => ({
-                    $unwind: `$${field}`,
-                }),
-                lookup: (lookupKey, localField, foreignField, asOrOptions) => {
-                    // Simple case: string parameter is the 'as' field name
-                    // Automatically filter by _type for multi-collection support
-                    if (typeof asOrOptions === 'string') {
-                        return {
-                            $lookup: {
-                                from: collectionName,
-                                let: { localValue: `$${localField}` },
-                                pipeline: [
-                                    {
-                                        $match: {
-                                            $expr: {
-                                                $and: [
-                                                    { $eq: [`$${foreignField}`, "$$localValue"] },
-                                                    { $eq: ["$_type", lookupKey as string] },
-                                                ],
-                                            },
-                                        },
-                                    },
-                                ],
-                                as: asOrOptions,
-                            },
-                        };
-                    }
-
-                    // Advanced case: object with options
-                    const lookupOptions = asOrOptions || {};
-                    const as = lookupOptions.as || localField;
-                    
-                    // Build the lookup with automatic _type filter
-                    const lookupStage: Record<string, unknown> = {
-                        from: collectionName,
-                        let: { localValue: `$${localField}`, ...(lookupOptions.let || {}) },
-                        as,
-                    };
-
-                    // Build pipeline: start with _type match, then add user pipeline if provided
-                    const basePipeline: AggregationStage[] = [
-                        {
-                            $match: {
-                                $expr: {
-                                    $and: [
-                                        { $eq: [`$${foreignField}`, "$$localValue"] },
-                                        { $eq: ["$_type", lookupKey as string] },
-                                    ],
-                                },
-                            },
-                        },
-                    ];
-
-                    // Add user-provided pipeline stages after the base filter
-                    if (lookupOptions.pipeline) {
-                        const userPipeline = lookupOptions.pipeline(createStageBuilder());
-                        basePipeline.push(...userPipeline);
-                    }
-
-                    lookupStage.pipeline = basePipeline;
-
-                    return { $lookup: lookupStage };
-                },
-                anyLookup: (localField, foreignField, asOrOptions) => {
-                    // Simple case: string parameter is the 'as' field name
-                    // No _type filter - matches any document type
-                    if (typeof asOrOptions === 'string') {
-                        return {
-                            $lookup: {
-                                from: collectionName,
-                                localField,
-                                foreignField,
-                                as: asOrOptions,
-                            },
-                        };
-                    }
-
-                    // Advanced case: object with options
-                    const anyLookupOptions = asOrOptions || {};
-                    const as = anyLookupOptions.as || localField;
-                    const anyLookupStage: Record<string, unknown> = {
-                        from: collectionName,
-                        localField,
-                        foreignField,
-                        as,
-                    };
-
-                    // Add let variables if provided
-                    if (anyLookupOptions.let) {
-                        anyLookupStage.let = anyLookupOptions.let;
-                    }
-
-                    // Add pipeline if provided (execute the builder function)
-                    if (anyLookupOptions.pipeline) {
-                        anyLookupStage.pipeline = anyLookupOptions.pipeline(createStageBuilder());
-                    }
-
-                    return { $lookup: anyLookupStage };
-                },
-                externalLookup: (fromCollection, localField, foreignField, asOrOptions) => {
-                    // Simple case: string parameter is the 'as' field name
-                    if (typeof asOrOptions === 'string') {
-                        return {
-                            $lookup: {
-                                from: fromCollection,
-                                localField,
-                                foreignField,
-                                as: asOrOptions,
-                            },
-                        };
-                    }
-
-                    // Advanced case: object with options
-                    const extLookupOptions = asOrOptions || {};
-                    const as = extLookupOptions.as || localField;
-                    const extLookupStage: Record<string, unknown> = {
-                        from: fromCollection,
-                        localField,
-                        foreignField,
-                        as,
-                    };
-
-                    // Add let variables if provided
-                    if (extLookupOptions.let) {
-                        extLookupStage.let = extLookupOptions.let;
-                    }
-
-                    // Add pipeline if provided (raw pipeline, not using StageBuilder)
-                    if (extLookupOptions.pipeline) {
-                        extLookupStage.pipeline = extLookupOptions.pipeline;
-                    }
-
-                    return { $lookup: extLookupStage };
-                },
-                project: (projection) => ({
-                    $project: projection,
-                }),
-                addFields: (fields) => ({
-                    $addFields: fields,
-                }),
-                group: (grouping) => ({
-                    $group: grouping,
-                }),
-                sort: (sortSpec) => ({
-                    $sort: sortSpec,
-                }),
-                limit: (limitVal) => ({
-                    $limit: limitVal,
-                }),
-                skip: (skipVal) => ({
-                    $skip: skipVal,
-                })
-            });
 
             // Build cursor - use aggregate if pipeline is provided or naturalIdSort is enabled
             // deno-lint-ignore no-explicit-any
@@ -981,7 +1893,7 @@ export async function multiCollection<const T extends MultiCollectionSchema>(
             // below AND for the count above (so `total` reflects docs
             // that survive the pipeline's $match stages, not just the
             // base type filter).
-            const userPipeline = pipelineBuilder ? pipelineBuilder(createStageBuilder()) : [];
+            const userPipeline = pipelineBuilder ? pipelineBuilder(createStageBuilder<T>(collectionName)) : [];
 
             // Count total + position. When a user pipeline is present,
             // the count must reflect docs that survive the WHOLE
@@ -1134,11 +2046,12 @@ export async function multiCollection<const T extends MultiCollectionSchema>(
             };
         },
         countDocuments(key, filter, options?) {
+            checkFilter([key], filter);
             const session = sessionContext.getSession();
             
-            const typeChecker = {
+            const typeChecker = withoutDeleted({
                 _type: key as string,
-            };
+            }, softDeleteField);
             
             // Build the query using the same logic as find()
             const query = {
@@ -1155,6 +2068,21 @@ export async function multiCollection<const T extends MultiCollectionSchema>(
                 throw new Error(`Invalid id format`);
             }
 
+            const hooks = elementHooks(key);
+            const hookEvent = { filter: { _id: id }, multi: false };
+            const context = hookContext();
+            await hooks.run("beforeDelete", hookEvent, context);
+            await applyDeleteRules(key, { _id: id }, new Set());
+
+            if (softDeleteField) {
+                const deletedCount = await softDeleteElements({ _id: id });
+                if (deletedCount === 0) {
+                    throw new Error("No element that match the filter to delete");
+                }
+                await hooks.run("afterDelete", { ...hookEvent, deletedCount }, context);
+                return deletedCount;
+            }
+
             const session = sessionContext.getSession();
 
             const result = await collection.deleteOne({
@@ -1169,6 +2097,7 @@ export async function multiCollection<const T extends MultiCollectionSchema>(
                 throw new Error("No element that match the filter to delete");
             }
 
+            await hooks.run("afterDelete", { ...hookEvent, deletedCount: result.deletedCount }, context);
             return result.deletedCount;
         },
         async deleteIds(key, ids) {
@@ -1177,6 +2106,24 @@ export async function multiCollection<const T extends MultiCollectionSchema>(
                 v.parse(schema._id, id);
             });
 
+            const hooks = elementHooks(key);
+            const hookEvent = { filter: { _id: { $in: ids } }, multi: true };
+            const context = hookContext();
+            await hooks.run("beforeDelete", hookEvent, context);
+            await applyDeleteRules(key, { _id: { $in: ids } }, new Set());
+
+            if (softDeleteField) {
+                const deletedCount = await softDeleteElements({
+                    _id: { $in: ids },
+                    _type: key as string,
+                });
+                if (deletedCount === 0) {
+                    throw new Error("No element that match the filter to delete");
+                }
+                await hooks.run("afterDelete", { ...hookEvent, deletedCount }, context);
+                return deletedCount;
+            }
+
             const session = sessionContext.getSession();
 
             const result = await collection.deleteMany({
@@ -1194,29 +2141,107 @@ export async function multiCollection<const T extends MultiCollectionSchema>(
                 throw new Error("No element that match the filter to delete");
             }
 
+            await hooks.run("afterDelete", { ...hookEvent, deletedCount: result.deletedCount }, context);
             return result.deletedCount;
         },
         async deleteMany(key, filter) {
+            checkFilter([key], filter);
+            return await deleteElements(key, filter as Record<string, unknown>, new Set());
+        },
+        async deleteAny(filter) {
+            const deleteFilter = withoutDeleted(filter as Record<string, unknown>, softDeleteField);
+            return await audited(deleteFilter, async () => {
+                if (softDeleteField) {
+                    return await softDeleteElements(filter as Record<string, unknown>);
+                }
+
+                const session = sessionContext.getSession();
+
+                const result = await collection.deleteMany(filter as any, { session });
+
+                if (!result.acknowledged) {
+                    throw new Error("Delete failed");
+                }
+
+                return result.deletedCount;
+            });
+        },
+        async checkIntegrity() {
             const session = sessionContext.getSession();
+            const dangling: DanglingReference[] = [];
+
+            for (const { type, field, target } of references) {
+                const referencedIds = (doc: m.Document) =>
+                    [doc[field]].flat().filter((id): id is string => typeof id === "string");
+
+                const dependents = await collection.find(
+                    withoutDeleted({ _type: type, [field]: { $exists: true, $ne: null } }, softDeleteField) as unknown as m.Filter<TOutput>,
+                    { session, projection: { _id: 1, [field]: 1 } },
+                ).toArray();
+                const ids = new Set(dependents.flatMap(referencedIds));
+                if (ids.size === 0) continue;
+
+                const existing = await collection.find(
+                    withoutDeleted({ _type: target, _id: { $in: [...ids] } }, softDeleteField) as unknown as m.Filter<TOutput>,
+                    { session, projection: { _id: 1 } },
+                ).toArray();
+                const existingIds = new Set(existing.map((doc) => doc._id as string));
+
+                for (const doc of dependents) {
+                    for (const ref of referencedIds(doc)) {
+                        if (!existingIds.has(ref)) {
+                            dangling.push({ _id: doc._id as string, _type: type, field, ref });
+                        }
+                    }
+                }
+            }
 
-            // Combine the user filter with the type filter
-            const combinedFilter = {
-                ...filter,
-                _type: key as string,
-            } as any;
+            return dangling;
+        },
+        async restore(key, filter) {
+            checkFilter([key], filter);
+            const field = assertSoftDelete();
+            const update = withManagedFields(restoreUpdate(field));
+            const deletedFilter = onlyDeleted({ ...filter, _type: key as string }, field);
 
-            const result = await collection.deleteMany(combinedFilter, { session });
+            const session = sessionContext.getSession();
+            const result = await audited(deletedFilter, () =>
+                collection.updateMany(
+                    deletedFilter as m.Filter<TOutput>,
+                    update as m.UpdateFilter<TOutput>,
+                    { session },
+                )
+            );
 
             if (!result.acknowledged) {
-                throw new Error("Delete failed");
+                throw new Error("Restore failed");
             }
 
-            return result.deletedCount;
+            return result.modifiedCount;
         },
-        async deleteAny(filter) {
+        async findDeleted(key, filter) {
+            checkFilter([key], filter);
+            const field = assertSoftDelete();
             const session = sessionContext.getSession();
+            const cursor = collection.find({
+                $and: filter
+                    ? [onlyDeleted({ _type: key as string }, field), filter]
+                    : [onlyDeleted({ _type: key as string }, field)],
+            } as any, { session });
 
-            const result = await collection.deleteMany(filter as any, { session });
+            const result = await cursor.toArray();
+            return result.map((item) => {
+                const parsed = v.safeParse(schema, item);
+                return parsed.success ? parsed.output : null;
+            }).filter((item): item is v.InferOutput<OutputElementSchema<T, typeof key>> => item !== null);
+        },
+        async purgeDeleted(key, olderThan) {
+            const field = assertSoftDelete();
+            const purgeFilter = { _type: key as string, [field]: { $lte: olderThan } };
+            const session = sessionContext.getSession();
+            const result = await audited(purgeFilter, () =>
+                collection.deleteMany(purgeFilter as unknown as m.Filter<TOutput>, { session })
+            );
 
             if (!result.acknowledged) {
                 throw new Error("Delete failed");
@@ -1226,7 +2251,7 @@ export async function multiCollection<const T extends MultiCollectionSchema>(
         },
         async findOneAny(filter) {
             const session = sessionContext.getSession();
-            const result = await collection.findOne(filter as any, { session });
+            const result = await collection.findOne(withoutDeleted(filter as any, softDeleteField), { session });
             if (!result) {
                 return null;
             }
@@ -1234,7 +2259,7 @@ export async function multiCollection<const T extends MultiCollectionSchema>(
         },
         async findAny(filter, options) {
             const session = sessionContext.getSession();
-            const cursor = collection.find(filter as any, { session, ...options });
+            const cursor = collection.find(withoutDeleted(filter as any, softDeleteField), { session, ...options });
             const result = await cursor.toArray();
 
             const output = result.map((item) => {
@@ -1245,47 +2270,31 @@ export async function multiCollection<const T extends MultiCollectionSchema>(
 
             return output;
         },
-        async updateOne(key, id, doc) {
+        async updateOne(key, id, doc, options) {
             // Validation happens outside retry - no need to retry validation errors
-            const dotSchema = dotSchemaElements[key];
-            if(!dotSchema) {
-                throw new Error(`Invalid element type`);
+            const updateOps = prepareElementUpdate(key, doc as Record<string, unknown>);
+            const expectedVersion = options?.expectedVersion;
+            if (expectedVersion !== undefined && !versionField) {
+                throw new Error("expectedVersion requires the versioning option");
             }
 
-            // Extract fields to remove before validation (symbols would fail validation)
-            const { set, unset } = extractFieldsToRemove(doc as Record<string, unknown>);
-
-            // Validate only the fields that will be set (not the removed ones)
-            if (Object.keys(set).length > 0) {
-                v.parse(dotSchema, set);
+            // If no operations, return early
+            if (Object.keys(updateOps).length === 0) {
+                return 0; // No modifications
             }
 
-            return retryOnWriteConflict(async () => {
-                const session = sessionContext.getSession();
-
-                // Sanitize the remaining fields
-                const sanitizedDoc = sanitizeForMongoDB(set, {
-                    undefinedBehavior: opts.undefinedBehavior || "remove",
-                    deep: true,
-                });
-
-                // Build update operations
-                const updateOps: Record<string, unknown> = {};
-                if (Object.keys(sanitizedDoc as Record<string, unknown>).length > 0) {
-                    updateOps.$set = sanitizedDoc;
-                }
-                if (Object.keys(unset).length > 0) {
-                    updateOps.$unset = unset;
-                }
+            const elementFilter = { _id: id, _type: key as string };
+            const hooks = elementHooks(key);
+            const hookEvent = { filter: elementFilter, update: updateOps, multi: false };
+            const context = hookContext();
+            await hooks.run("beforeUpdate", hookEvent, context);
 
-                // If no operations, return early
-                if (Object.keys(updateOps).length === 0) {
-                    return 0; // No modifications
-                }
+            const result = await retryOnWriteConflict(async () => {
+                const session = sessionContext.getSession();
 
                 const result = await collection.updateOne({
-                    _id: id,
-                    _type: key as string,
+                    ...elementFilter,
+                    ...(expectedVersion !== undefined ? { [versionField!]: expectedVersion } : {}),
                 } as unknown as m.Filter<TOutput>, updateOps as m.UpdateFilter<TOutput>, { session });
 
                 if(!result.acknowledged) {
@@ -1293,261 +2302,309 @@ export async function multiCollection<const T extends MultiCollectionSchema>(
                 }
 
                 if (result.matchedCount === 0) {
+                    if (expectedVersion !== undefined) {
+                        const existing = await collection.countDocuments(
+                            elementFilter as unknown as m.Filter<TOutput>,
+                            { session, limit: 1 },
+                        );
+                        if (existing > 0) {
+                            throw new VersionConflictError(expectedVersion, elementFilter);
+                        }
+                    }
                     throw new Error("No element that match the filter to update");
                 }
 
-                // Note: modifiedCount can be 0 if the values didn't actually change
-                // This is not an error condition
-                return result.modifiedCount;
+                return result;
             });
+
+            await hooks.run("afterUpdate", { ...hookEvent, ...updateCounts(result) }, context);
+            // Note: modifiedCount can be 0 if the values didn't actually change
+            // This is not an error condition
+            return result.modifiedCount;
         },
-        async updateMany(operation) {
-            return retryOnWriteConflict(async () => {
-                const bulkOps: any[] = [];
-                for(const type in operation) {
-                    const elements = operation[type];
-                    for(const id in elements) {
-                        const element = elements[id];
-                        const dotSchema = dotSchemaElements[type];
-                        if(!id.startsWith(`${type}:`)) {
-                            throw new Error(`Invalid id format`);
-                        }
-                        if(!dotSchema) {
-                            throw new Error(`Invalid element type`);
-                        }
+        async findOneAndUpdate(key, id, doc, options) {
+            // Validation happens outside retry - no need to retry validation errors
+            assertElementId(key, id);
+            checkFilter([key], options?.filter);
+            const updateOps = prepareElementUpdate(key, doc as Record<string, unknown>);
+            if (Object.keys(updateOps).length === 0) {
+                throw new Error("No operation to execute");
+            }
+
+            const typeChecker = {
+                _id: id,
+                _type: key as string,
+            };
+            const filter = {
+                $and: options?.filter ? [typeChecker, options.filter] : [typeChecker],
+            } as m.Filter<StoredElement>;
+            const hooks = elementHooks(key);
+            const hookEvent = { filter, update: updateOps, multi: false };
+            const context = hookContext();
+            await hooks.run("beforeUpdate", hookEvent, context);
+
+            const result = await retryOnWriteConflict(async () => {
+                const session = sessionContext.getSession();
+                return await collection.findOneAndUpdate(filter as unknown as m.Filter<TOutput>, updateOps as m.UpdateFilter<TOutput>, {
+                    session,
+                    returnDocument: options?.returnDocument ?? "after",
+                    includeResultMetadata: false,
+                });
+            });
+            await hooks.run("afterUpdate", { ...hookEvent, ...foundCounts(result) }, context);
 
-                        // Extract fields to remove before validation (symbols would fail validation)
-                        const { set, unset } = extractFieldsToRemove(element as Record<string, unknown>);
+            if (!result) {
+                return null;
+            }
 
-                        // Validate only the fields that will be set (not the removed ones)
-                        if (Object.keys(set).length > 0) {
-                            v.parse(dotSchema, set);
-                        }
+            return v.parse(schema, result);
+        },
+        async upsertOne(key, id, doc) {
+            // Validation happens outside retry - no need to retry validation errors
+            assertElementId(key, id);
+            const { _id, ...fields } = prepareElementDocument(key, {
+                ...doc as Record<string, unknown>,
+                _id: id,
+            });
+            // Managed fields are maintained by the update itself, the tenant comes from the filter
+            for (const field of [versionField, timestampFields?.createdAt, timestampFields?.updatedAt, opts.tenantField]) {
+                if (field) delete fields[field];
+            }
+            // Schema defaults only apply to an inserted element, an existing
+            // one keeps the values of the fields the caller did not pass
+            const $set: Record<string, unknown> = {};
+            const $setOnInsert: Record<string, unknown> = {};
+            for (const [field, value] of Object.entries(fields)) {
+                if (field in (doc as Record<string, unknown>)) {
+                    $set[field] = value;
+                } else {
+                    $setOnInsert[field] = value;
+                }
+            }
+            const update = withManagedFields<m.Document>({
+                ...(Object.keys($set).length > 0 ? { $set } : {}),
+                ...(Object.keys($setOnInsert).length > 0 ? { $setOnInsert } : {}),
+            });
+            const elementFilter = { _id, _type: key as string };
+            const hooks = elementHooks(key);
+            const hookEvent = { filter: elementFilter, update, multi: false };
+            const context = hookContext();
+            await hooks.run("beforeUpdate", hookEvent, context);
 
-                        // Sanitize the remaining fields
-                        const sanitizedElement = sanitizeForMongoDB(set, {
-                            undefinedBehavior: opts.undefinedBehavior || "remove",
-                            deep: true,
-                        });
+            const result = await retryOnWriteConflict(async () => {
+                const session = sessionContext.getSession();
+                // The version increment would also apply to an inserted element,
+                // which starts at version 0
+                const result = await collection.updateOne(
+                    elementFilter as unknown as m.Filter<TOutput>,
+                    versionField ? withUpsertedVersion(update, versionField) : update as m.UpdateFilter<TOutput>,
+                    { session, upsert: true },
+                );
 
-                        // Build update operations
-                        const updateOps: Record<string, unknown> = {};
-                        if (Object.keys(sanitizedElement as Record<string, unknown>).length > 0) {
-                            updateOps.$set = sanitizedElement;
-                        }
-                        if (Object.keys(unset).length > 0) {
-                            updateOps.$unset = unset;
-                        }
+                if(!result.acknowledged) {
+                    throw new Error("Upsert failed");
+                }
 
-                        // Skip if no operations
-                        if (Object.keys(updateOps).length === 0) {
-                            continue;
-                        }
+                return result;
+            });
 
-                        bulkOps.push({
-                            updateOne: {
-                                filter: { _id: id },
-                                update: updateOps,
-                            }
-                        });
+            await hooks.run("afterUpdate", { ...hookEvent, ...updateCounts(result) }, context);
+            return { _id, upserted: result.upsertedCount > 0 };
+        },
+        async updateMany(operation) {
+            // Validation happens outside retry - no need to retry validation errors
+            const hookEvents: {
+                key: keyof T;
+                filter: { _id: string };
+                multi: false;
+                update: m.Document;
+            }[] = [];
+            for(const type in operation) {
+                const elements = operation[type];
+                for(const id in elements) {
+                    const element = elements[id];
+                    assertElementId(type, id);
+                    const updateOps = prepareElementUpdate(type, element as Record<string, unknown>);
+
+                    // Skip if no operations
+                    if (Object.keys(updateOps).length === 0) {
+                        continue;
                     }
-                }
 
-                if (bulkOps.length === 0) {
-                    throw new Error("No element to update");
+                    hookEvents.push({ key: type, filter: { _id: id }, multi: false, update: updateOps });
                 }
+            }
+
+            if (hookEvents.length === 0) {
+                throw new Error("No element to update");
+            }
 
+            const context = hookContext();
+            for (const { key, ...hookEvent } of hookEvents) {
+                await elementHooks(key).run("beforeUpdate", hookEvent, context);
+            }
+
+            // A single bulk write has no per element counts: elements are only
+            // written one by one when afterUpdate hooks (or the audit trail) need them
+            const perElement = hookEvents.some(({ key }) => elementHooks(key).has("afterUpdate"));
+
+            const results = await retryOnWriteConflict(async () => {
                 const session = sessionContext.getSession();
 
-                const result = await collection.bulkWrite(bulkOps, { session });
+                const results: { matchedCount: number; modifiedCount: number }[] = [];
+                if (perElement) {
+                    for (const { filter, update } of hookEvents) {
+                        results.push(await collection.updateOne(
+                            filter as unknown as m.Filter<TOutput>,
+                            update as m.UpdateFilter<TOutput>,
+                            { session },
+                        ));
+                    }
+                } else {
+                    const bulkOps = hookEvents.map(({ filter, update }): m.AnyBulkWriteOperation<TOutput> => ({
+                        updateOne: {
+                            filter: filter as unknown as m.Filter<TOutput>,
+                            update: update as m.UpdateFilter<TOutput>,
+                        },
+                    }));
+                    results.push(await collection.bulkWrite(bulkOps, { session }));
+                }
 
-                if (result.matchedCount === 0) {
+                if (results.every((result) => result.matchedCount === 0)) {
                     throw new Error("No element that match the filter to update");
                 }
 
-                // Note: modifiedCount can be 0 if the values didn't actually change
-                // This is not an error condition
-                return result.modifiedCount;
+                return results;
             });
-        },
-        async aggregate(stageBuilder) {
-            const stage: StageBuilder<T> = {
-                match: (key, filter) => ({
-                    $match: {
-                        _type: key as string,
-                        ...filter,
-                    },
-                }),
-                unwind: (_key, field) => ({
-                    $unwind: `$${field}`,
-                }),
-                lookup: (lookupKey, localField, foreignField, asOrOptions) => {
-                    // Simple case: string parameter is the 'as' field name
-                    // Automatically filter by _type for multi-collection support
-                    if (typeof asOrOptions === 'string') {
-                        return {
-                            $lookup: {
-                                from: collectionName,
-                                let: { localValue: `$${localField}` },
-                                pipeline: [
-                                    {
-                                        $match: {
-                                            $expr: {
-                                                $and: [
-                                                    { $eq: [`$${foreignField}`, "$$localValue"] },
-                                                    { $eq: ["$_type", lookupKey as string] },
-                                                ],
-                                            },
-                                        },
-                                    },
-                                ],
-                                as: asOrOptions,
-                            },
-                        };
-                    }
-
-                    // Advanced case: object with options
-                    const options = asOrOptions || {};
-                    const as = options.as || localField;
-                    
-                    // Build the lookup with automatic _type filter
-                    const lookupStage: Record<string, unknown> = {
-                        from: collectionName,
-                        let: { localValue: `$${localField}`, ...(options.let || {}) },
-                        as,
-                    };
-
-                    // Build pipeline: start with _type match, then add user pipeline if provided
-                    const basePipeline: AggregationStage[] = [
-                        {
-                            $match: {
-                                $expr: {
-                                    $and: [
-                                        { $eq: [`$${foreignField}`, "$$localValue"] },
-                                        { $eq: ["$_type", lookupKey as string] },
-                                    ],
-                                },
-                            },
-                        },
-                    ];
 
-                    // Add user-provided pipeline stages after the base filter
-                    if (options.pipeline) {
-                        const userPipeline = options.pipeline(stage);
-                        basePipeline.push(...userPipeline);
-                    }
-
-                    lookupStage.pipeline = basePipeline;
+            if (perElement) {
+                for (const [index, { key, ...hookEvent }] of hookEvents.entries()) {
+                    await elementHooks(key).run("afterUpdate", { ...hookEvent, ...updateCounts(results[index]) }, context);
+                }
+            }
 
-                    return { $lookup: lookupStage };
-                },
-                anyLookup: (localField, foreignField, asOrOptions) => {
-                    // Simple case: string parameter is the 'as' field name
-                    // No _type filter - matches any document type
-                    if (typeof asOrOptions === 'string') {
-                        return {
-                            $lookup: {
-                                from: collectionName,
-                                localField,
-                                foreignField,
-                                as: asOrOptions,
+            // Note: modifiedCount can be 0 if the values didn't actually change
+            // This is not an error condition
+            return results.reduce((modifiedCount, result) => modifiedCount + result.modifiedCount, 0);
+        },
+        async bulkWrite(operations, options) {
+            // Validation happens outside retry - no need to retry validation errors
+            const bulkOps: m.AnyBulkWriteOperation<TOutput>[] = [];
+            for (const type in operations) {
+                if (!Object.hasOwn(schemaElements, type)) {
+                    throw new Error(`Invalid element type ${type}`);
+                }
+                for (const operation of operations[type] ?? []) {
+                    if ("insertOne" in operation) {
+                        bulkOps.push({
+                            insertOne: {
+                                document: prepareElementInsert(type, operation.insertOne.document as Record<string, unknown>) as m.OptionalId<TOutput>,
                             },
-                        };
-                    }
-
-                    // Advanced case: object with options
-                    const anyLookupOptions = asOrOptions || {};
-                    const as = anyLookupOptions.as || localField;
-                    const anyLookupStage: Record<string, unknown> = {
-                        from: collectionName,
-                        localField,
-                        foreignField,
-                        as,
-                    };
-
-                    // Add let variables if provided
-                    if (anyLookupOptions.let) {
-                        anyLookupStage.let = anyLookupOptions.let;
-                    }
+                        });
+                    } else if ("updateOne" in operation) {
+                        const { id, update } = operation.updateOne;
+                        assertElementId(type, id);
+                        const updateOps = prepareElementUpdate(type, update as Record<string, unknown>);
 
-                    // Add pipeline if provided (execute the builder function)
-                    if (anyLookupOptions.pipeline) {
-                        anyLookupStage.pipeline = anyLookupOptions.pipeline(stage);
-                    }
+                        // Skip if no operations
+                        if (Object.keys(updateOps).length === 0) {
+                            continue;
+                        }
 
-                    return { $lookup: anyLookupStage };
-                },
-                externalLookup: (fromCollection, localField, foreignField, asOrOptions) => {
-                    // Simple case: string parameter is the 'as' field name
-                    if (typeof asOrOptions === 'string') {
-                        return {
-                            $lookup: {
-                                from: fromCollection,
-                                localField,
-                                foreignField,
-                                as: asOrOptions,
+                        bulkOps.push({
+                            updateOne: {
+                                filter: { _id: id, _type: type } as unknown as m.Filter<TOutput>,
+                                update: updateOps as m.UpdateFilter<TOutput>,
                             },
-                        };
-                    }
-
-                    // Advanced case: object with options
-                    const extLookupOptions = asOrOptions || {};
-                    const as = extLookupOptions.as || localField;
-                    const extLookupStage: Record<string, unknown> = {
-                        from: fromCollection,
-                        localField,
-                        foreignField,
-                        as,
-                    };
-
-                    // Add let variables if provided
-                    if (extLookupOptions.let) {
-                        extLookupStage.let = extLookupOptions.let;
+                        });
+                    } else if ("replaceOne" in operation) {
+                        const { id, document } = operation.replaceOne;
+                        assertElementId(type, id);
+                        const replacement = prepareElementDocument(type, {
+                            ...document as Record<string, unknown>,
+                            _id: id,
+                        });
+                        const filter = { _id: id, _type: type } as unknown as m.Filter<TOutput>;
+                        // A plain replacement would reset the managed fields
+                        const replacementUpdate = managedReplacement(replacement);
+                        bulkOps.push(replacementUpdate
+                            ? { updateOne: { filter, update: replacementUpdate } }
+                            : { replaceOne: { filter, replacement: replacement as m.WithoutId<TOutput> } });
+                    } else if ("deleteOne" in operation) {
+                        const { id } = operation.deleteOne;
+                        assertElementId(type, id);
+                        if (softDeleteField) {
+                            const update = withManagedFields(softDeleteUpdate(softDeleteField));
+                            bulkOps.push({
+                                updateOne: {
+                                    filter: withoutDeleted({ _id: id, _type: type }, softDeleteField) as unknown as m.Filter<TOutput>,
+                                    update: update as m.UpdateFilter<TOutput>,
+                                },
+                            });
+                            continue;
+                        }
+                        bulkOps.push({
+                            deleteOne: {
+                                filter: { _id: id, _type: type } as unknown as m.Filter<TOutput>,
+                            },
+                        });
                     }
+                }
+            }
 
-                    // Add pipeline if provided (raw pipeline, not using StageBuilder)
-                    if (extLookupOptions.pipeline) {
-                        extLookupStage.pipeline = extLookupOptions.pipeline;
-                    }
+            if (bulkOps.length === 0) {
+                throw new Error("No operation to execute");
+            }
 
-                    return { $lookup: extLookupStage };
-                },
-                project: (projection) => ({
-                    $project: projection,
-                }),
-                addFields: (fields) => ({
-                    $addFields: fields,
-                }),
-                group: (grouping) => ({
-                    $group: grouping,
-                }),
-                sort: (sort) => ({
-                    $sort: sort,
-                }),
-                limit: (limit) => ({
-                    $limit: limit,
-                }),
-                skip: (skip) => ({
-                    $skip: skip,
-                })
-            };
+            // Every operation targets an element by _id
+            const ids = bulkOps.map((operation) =>
+                "insertOne" in operation
+                    ? operation.insertOne.document._id
+                    : (Object.values(operation)[0].filter as { _id: string })._id
+            );
 
+            return await retryOnWriteConflict(async () => {
+                const session = sessionContext.getSession();
+                return await audited(
+                    { _id: { $in: ids } },
+                    () => collection.bulkWrite(bulkOps, { session, ...options }),
+                    () => ids,
+                );
+            });
+        },
+        // The rows are only known at runtime, the overloads type them
+        aggregate: async function (
+            stageBuilder: (stage: StageBuilder<T>) => readonly TypedStage[],
+            options?: m.AggregateOptions & { output?: v.GenericSchema },
+        ): Promise<unknown[]> {
+            const { output, ...aggregateOptions } = options ?? {};
             const session = sessionContext.getSession();
 
-            const pipeline = stageBuilder(stage);
-            const cursor = collection.aggregate(pipeline, { session });
+            const pipeline = stageBuilder(createStageBuilder<T>(collectionName));
+            const cursor = collection.aggregate([...pipeline], { session, ...aggregateOptions });
 
-            return await cursor.toArray();
-        },
+            const results = await cursor.toArray();
+            if (!output) {
+                return results;
+            }
+            // Validate each row against the caller-supplied output schema
+            return results.map((result) => v.parse(output, result));
+        } as MultiCollectionResult<T>["aggregate"],
         async drop(options) {
             if (!options?.force) {
                 throw new Error("Must provide { force: true } to drop the collection");
             }
 
+            // The change streams of the elements end with the collection
+            await closeCollectionWatchers(db, collectionName);
+
             const session = sessionContext.getSession();
             return await collection.drop({ session });
         },
   };
+
+  // Option fields are part of the runtime schemas, reflect them in the types
+  return multiCollectionResult as unknown as MultiCollectionResult<WithElementOptionFields<T, O>>;
 }
 
 /**
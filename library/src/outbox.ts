@@ -0,0 +1,366 @@
+/**
+ * @fileoverview Transactional outbox
+ *
+ * `outbox.publish()` writes a message to an outbox collection with the
+ * session of the running `withSession` call: the message is committed or
+ * rolled back with the writes of the transaction, so a message bus never
+ * receives events of writes that did not happen (and the other way around).
+ *
+ * A dispatcher then delivers the pending messages to a sink (the message
+ * bus client), woken up by a change stream on the outbox or by polling.
+ * Deliveries run concurrently through a `MongoOperationQueue`, except for
+ * the messages sharing a key, delivered one at a time in the order of their
+ * ids. Failed deliveries are retried with an exponential backoff, and
+ * messages failing `maxAttempts` times are dead-lettered: they no longer hold
+ * back the next messages of their key.
+ *
+ * Delivery is at-least-once: a message delivered right before a crash is
+ * delivered again, so sinks should be idempotent (e.g. deduplicate on the
+ * message `_id`). Run a single dispatcher per outbox collection.
+ *
+ * @module
+ */
+
+import type * as m from "mongodb";
+import { getSessionContext } from "./session.ts";
+import { watchCollection } from "./change-stream.ts";
+import { createQueueSystem } from "./utils/queue.ts";
+import { createLogger } from "./utils/logger.ts";
+
+const log = createLogger("outbox");
+
+/**
+ * Message stored in the outbox collection
+ */
+export type OutboxMessage<TPayload = unknown> = {
+  _id: m.ObjectId;
+  topic: string;
+  payload: TPayload;
+  /** Messages sharing a key are delivered in order, null when unordered */
+  key: string | null;
+  /** `"dead"` once the delivery failed `maxAttempts` times */
+  status: "pending" | "delivered" | "dead";
+  /** Number of failed deliveries */
+  attempts: number;
+  /** Pending messages are not delivered before this date (retry backoff) */
+  availableAt: Date;
+  createdAt: Date;
+  deliveredAt?: Date;
+  /** Message of the last delivery error */
+  lastError?: string;
+};
+
+/**
+ * Delivers a message, e.g. publishes it to a message bus. Throwing (or
+ * rejecting) schedules a retry.
+ */
+export type OutboxSink = (message: OutboxMessage) => void | Promise<void>;
+
+/**
+ * Options of an outbox dispatcher
+ */
+export type OutboxDispatcherOptions = {
+  /**
+   * `"changeStream"` dispatches new messages as soon as they are committed,
+   * `"polling"` every `pollInterval`
+   * @default "changeStream"
+   */
+  trigger?: "changeStream" | "polling";
+  /**
+   * Delay between two lookups of pending messages, in milliseconds. Also
+   * picks up retries with the change stream trigger.
+   * @default 1000
+   */
+  pollInterval?: number;
+  /** @default 100 */
+  batchSize?: number;
+  /** Maximum number of concurrent deliveries @default 4 */
+  concurrency?: number;
+  /**
+   * Delivery timeout in milliseconds. The sink call is not cancelled: the
+   * message and the next ones of its key are retried once it settles.
+   * @default 30000
+   */
+  timeout?: number;
+  /** Failed deliveries before a message is dead-lettered @default 5 */
+  maxAttempts?: number;
+  /** Retry delays in milliseconds, doubled after every failed delivery */
+  backoff?: {
+    /** @default 1000 */
+    initialDelay?: number;
+    /** @default 60000 */
+    maxDelay?: number;
+  };
+};
+
+/**
+ * Running outbox dispatcher
+ */
+export type OutboxDispatcher = {
+  /** Stop dispatching, resolved once the running deliveries are done */
+  close(): Promise<void>;
+};
+
+/**
+ * Outbox bound to a collection
+ */
+export type Outbox = {
+  /** Collection holding the messages */
+  collection: m.Collection<OutboxMessage>;
+  /**
+   * Write a message to the outbox, in the transaction of the running
+   * `withSession` call
+   *
+   * @param topic - Topic of the message, e.g. `"order.created"`
+   * @param payload - Content of the message
+   * @param options - `key` orders the delivery of the messages sharing it
+   * @returns The id of the message
+   */
+  publish<TPayload>(
+    topic: string,
+    payload: TPayload,
+    options?: { key?: string },
+  ): Promise<m.ObjectId>;
+  /**
+   * Start delivering the pending messages to a sink
+   *
+   * @param sink - Called with every message to deliver
+   * @param options - Trigger, concurrency and retry options
+   * @returns The running dispatcher
+   */
+  dispatch(sink: OutboxSink, options?: OutboxDispatcherOptions): OutboxDispatcher;
+  /** Dead-lettered messages, oldest first */
+  deadLetters(): Promise<OutboxMessage[]>;
+  /**
+   * Put a dead-lettered message back in the pending messages
+   *
+   * @returns Whether a dead-lettered message was found
+   */
+  requeue(id: m.ObjectId): Promise<boolean>;
+};
+
+/**
+ * Create an outbox storing its messages in a collection
+ *
+ * @param db - Database of the transactions publishing messages
+ * @param collectionName - Collection holding the messages
+ * @returns The outbox
+ *
+ * @example
+ * ```typescript
+ * const outbox = createOutbox(db);
+ *
+ * await orders.withSession(async () => {
+ *   const orderId = await orders.insertOne(order);
+ *   await outbox.publish("order.created", { orderId }, { key: order.customerId });
+ * });
+ *
+ * const dispatcher = outbox.dispatch(async (message) => {
+ *   await bus.publish(message.topic, message.payload, { id: message._id.toHexString() });
+ * });
+ * ```
+ */
+export function createOutbox(
+  db: m.Db,
+  collectionName = "mongodbee_outbox",
+): Outbox {
+  const collection = db.collection<OutboxMessage>(collectionName);
+  const sessionContext = getSessionContext(db.client);
+
+  async function publish<TPayload>(
+    topic: string,
+    payload: TPayload,
+    options: { key?: string } = {},
+  ): Promise<m.ObjectId> {
+    const now = new Date();
+    // _id is generated by the driver
+    const result = await collection.insertOne({
+      topic,
+      payload,
+      key: options.key ?? null,
+      status: "pending",
+      attempts: 0,
+      availableAt: now,
+      createdAt: now,
+    } as OutboxMessage, { session: sessionContext.getSession() });
+    return result.insertedId;
+  }
+
+  function dispatch(
+    sink: OutboxSink,
+    options: OutboxDispatcherOptions = {},
+  ): OutboxDispatcher {
+    const {
+      trigger = "changeStream",
+      pollInterval = 1000,
+      batchSize = 100,
+      concurrency = 4,
+      timeout = 30000,
+      maxAttempts = 5,
+    } = options;
+    const initialDelay = options.backoff?.initialDelay ?? 1000;
+    const maxDelay = options.backoff?.maxDelay ?? 60000;
+    const queue = createQueueSystem({ maxConcurrent: concurrency, defaultTimeout: timeout });
+
+    let closed = false;
+    // Timed out deliveries still running, by message id: the message and the
+    // next ones of its key wait for the delivery to settle
+    const settling = new Map<string, OutboxMessage>();
+    // Set by the messages inserted while a batch is dispatched
+    let woken = false;
+    let wakeUp: (() => void) | undefined;
+
+    /**
+     * Deliver the messages of a key in order, stopping at the first failure
+     * so that the next ones wait for its retry
+     */
+    async function deliverInOrder(messages: OutboxMessage[]) {
+      for (const message of messages) {
+        if (closed) return;
+        let delivery: Promise<void> | undefined;
+        try {
+          await queue.add(async () => await (delivery = Promise.resolve(sink(message))));
+        } catch (error) {
+          // The timeout doesn't cancel the sink call
+          if (delivery) {
+            const id = message._id.toHexString();
+            settling.set(id, message);
+            delivery.catch(() => {}).finally(() => settling.delete(id));
+          }
+          await failed(message, error);
+          return;
+        }
+        await collection.updateOne(
+          { _id: message._id },
+          { $set: { status: "delivered", deliveredAt: new Date() } },
+        );
+      }
+    }
+
+    async function failed(message: OutboxMessage, error: unknown) {
+      const attempts = message.attempts + 1;
+      const lastError = error instanceof Error ? error.message : String(error);
+
+      if (attempts >= maxAttempts) {
+        log.warn(`dead-lettered ${message.topic} message ${message._id} after ${attempts} attempts:`, error);
+        await collection.updateOne(
+          { _id: message._id },
+          { $set: { status: "dead", attempts, lastError } },
+        );
+        return;
+      }
+
+      const delay = Math.min(initialDelay * Math.pow(2, attempts - 1), maxDelay);
+      log.debug(`retrying ${message.topic} message ${message._id} in ${delay}ms`);
+      await collection.updateOne(
+        { _id: message._id },
+        { $set: { attempts, lastError, availableAt: new Date(Date.now() + delay) } },
+      );
+    }
+
+    /**
+     * Deliver a batch of pending messages
+     *
+     * @returns Whether the batch was full, more messages might be pending
+     */
+    async function dispatchBatch(): Promise<boolean> {
+      const now = new Date();
+      // Keys waiting for the retry of a message
+      const blockedKeys = await collection.distinct("key", {
+        status: "pending",
+        availableAt: { $gt: now },
+        key: { $ne: null },
+      });
+      const running = [...settling.values()];
+      for (const { key } of running) {
+        if (key !== null) blockedKeys.push(key);
+      }
+
+      const messages = await collection
+        .find({
+          status: "pending",
+          availableAt: { $lte: now },
+          key: { $nin: blockedKeys },
+          _id: { $nin: running.map(({ _id }) => _id) },
+        })
+        .sort({ _id: 1 })
+        .limit(batchSize)
+        .toArray();
+
+      const groups = new Map<string, OutboxMessage[]>();
+      for (const message of messages) {
+        const groupKey = message.key === null ? `id:${message._id}` : `key:${message.key}`;
+        const group = groups.get(groupKey);
+        if (group) {
+          group.push(message);
+        } else {
+          groups.set(groupKey, [message]);
+        }
+      }
+
+      await Promise.all([...groups.values()].map(deliverInOrder));
+      return messages.length === batchSize;
+    }
+
+    async function run() {
+      await collection.createIndex({ status: 1, availableAt: 1, _id: 1 });
+
+      while (!closed) {
+        woken = false;
+        let more = false;
+        try {
+          more = await dispatchBatch();
+        } catch (error) {
+          log.warn(`${collectionName}: dispatch failed, retrying in ${pollInterval}ms`, error);
+        }
+        if (more || woken || closed) continue;
+
+        await new Promise<void>((resolve) => {
+          const timer = setTimeout(resolve, pollInterval);
+          // New messages and close() interrupt the wait
+          wakeUp = () => {
+            clearTimeout(timer);
+            resolve();
+          };
+        });
+        wakeUp = undefined;
+      }
+    }
+
+    // Stream errors are logged and the stream reopened, polling goes on meanwhile
+    const stopWatching = trigger === "changeStream"
+      ? watchCollection(collection, [{ $match: { operationType: "insert" } }], () => {
+        woken = true;
+        wakeUp?.();
+      })
+      : undefined;
+    const running = run().catch((error) => {
+      log.warn(`${collectionName}: dispatcher stopped`, error);
+    });
+
+    return {
+      async close() {
+        closed = true;
+        wakeUp?.();
+        await stopWatching?.();
+        await running;
+      },
+    };
+  }
+
+  return {
+    collection,
+    publish,
+    dispatch,
+    async deadLetters() {
+      return await collection.find({ status: "dead" }).sort({ _id: 1 }).toArray();
+    },
+    async requeue(id) {
+      const result = await collection.updateOne(
+        { _id: id, status: "dead" },
+        { $set: { status: "pending", attempts: 0, availableAt: new Date() } },
+      );
+      return result.modifiedCount > 0;
+    },
+  };
+}
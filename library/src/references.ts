@@ -0,0 +1,157 @@
+/**
+ * @fileoverview Referential integrity of `refId` fields in multi-collections
+ *
+ * Reference fields can declare what happens to the elements referencing an
+ * element when it is deleted: `restrict` refuses the delete, `cascade` deletes
+ * them too and `setNull` clears the reference. These rules are applied by the
+ * element deletes of the multi-collection (`deleteId`, `deleteIds`,
+ * `deleteMany`) with the active session: run deletes inside `withSession` so
+ * that a cascade is all or nothing.
+ *
+ * @module
+ */
+
+import type * as v from "./schema.ts";
+
+/**
+ * What happens to the elements referencing an element when it is deleted
+ * - `"restrict"`: the delete throws a `ReferentialIntegrityError`
+ * - `"cascade"`: they are deleted too (soft-deleted with `softDelete`)
+ * - `"setNull"`: the reference is removed (set to null for nullable fields,
+ *   unset for optional ones, pulled from arrays)
+ */
+export type OnDelete = "restrict" | "cascade" | "setNull";
+
+/**
+ * Options of a reference field
+ */
+export type RefOptions = {
+  /** Behaviour when the referenced element is deleted, nothing by default */
+  onDelete?: OnDelete;
+};
+
+/**
+ * Reference found in an element while checking integrity, whose referenced
+ * element does not exist
+ */
+export type DanglingReference = {
+  /** Id of the element holding the reference */
+  _id: string;
+  /** Type of the element holding the reference */
+  _type: string;
+  /** Reference field */
+  field: string;
+  /** Missing referenced id */
+  ref: string;
+};
+
+/**
+ * Thrown when deleting elements that are still referenced through a field
+ * declared with `onDelete: "restrict"`
+ */
+export class ReferentialIntegrityError extends Error {
+  override name = "ReferentialIntegrityError";
+
+  constructor(
+    /** Type of the elements holding the reference */
+    public readonly type: string,
+    /** Reference field */
+    public readonly field: string,
+  ) {
+    super(`Cannot delete: still referenced by ${type}.${field}`);
+  }
+}
+
+/**
+ * Reference field of an element type
+ * @internal
+ */
+export type ElementReference = {
+  /** Element type holding the reference */
+  type: string;
+  field: string;
+  /** Referenced element type */
+  target: string;
+  onDelete?: OnDelete;
+  /** Whether the field holds an array of references */
+  array: boolean;
+  nullable: boolean;
+  optional: boolean;
+};
+
+/**
+ * Reference metadata set by `refId` on a field schema, read through
+ * optional, nullable and array wrappers
+ * @internal
+ */
+export function refMetadata(
+  schema: v.GenericSchema | undefined,
+): { ref: string; onDelete?: OnDelete } | undefined {
+  if (!schema) {
+    return undefined;
+  }
+  if ("wrapped" in schema) {
+    return refMetadata(schema.wrapped as v.GenericSchema);
+  }
+  if (schema.type === "array" && "item" in schema) {
+    return refMetadata(schema.item as v.GenericSchema);
+  }
+  if (!("pipe" in schema)) {
+    return undefined;
+  }
+  const pipe = schema.pipe as readonly { type: string; metadata?: { ref?: unknown; onDelete?: OnDelete } }[];
+  const action = pipe.find((action) => action.type === "metadata" && typeof action.metadata?.ref === "string");
+  return action?.metadata as { ref: string; onDelete?: OnDelete } | undefined;
+}
+
+/**
+ * List the reference fields of every element type targeting an element type
+ * of the same collection
+ *
+ * @param elements - Object schemas of the element types
+ * @internal
+ */
+export function extractReferences(
+  elements: Record<string, { entries: Record<string, v.GenericSchema> }>,
+): ElementReference[] {
+  const references: ElementReference[] = [];
+
+  for (const [type, element] of Object.entries(elements)) {
+    for (const [field, schema] of Object.entries(element.entries)) {
+      if (field === "_id") continue;
+
+      const metadata = refMetadata(schema);
+      if (!metadata || !(metadata.ref in elements)) continue;
+
+      const reference: ElementReference = {
+        type,
+        field,
+        target: metadata.ref,
+        onDelete: metadata.onDelete,
+        array: unwrap(schema).type === "array",
+        nullable: isWrapped(schema, ["nullable", "nullish"]),
+        optional: isWrapped(schema, ["optional", "nullish"]),
+      };
+
+      if (reference.onDelete === "setNull" && !reference.array && !reference.nullable && !reference.optional) {
+        throw new Error(
+          `onDelete "setNull" requires ${type}.${field} to be optional or nullable`,
+        );
+      }
+      references.push(reference);
+    }
+  }
+
+  return references;
+}
+
+function unwrap(schema: v.GenericSchema): v.GenericSchema {
+  return "wrapped" in schema ? unwrap(schema.wrapped as v.GenericSchema) : schema;
+}
+
+function isWrapped(schema: v.GenericSchema, types: string[]): boolean {
+  if (!("wrapped" in schema)) {
+    return false;
+  }
+  return types.includes(schema.type) || isWrapped(schema.wrapped as v.GenericSchema, types);
+}
@@ -0,0 +1,226 @@
+/**
+ * @fileoverview Resumable change streams
+ *
+ * `watchResumable` delivers the change events of a database or collection to
+ * a named consumer, one at a time. The handler acknowledges an event with
+ * `ack()`, which persists its resume token in a `ResumeTokenStore`: after a
+ * restart or a stream error, the consumer resumes right after the last
+ * acknowledged event. Events handled but not acknowledged are delivered
+ * again (at-least-once delivery), so handlers must be idempotent.
+ *
+ * Stream and handler errors reopen the stream with an exponential backoff.
+ * An `invalidate` event (the watched collection was dropped or renamed) is
+ * delivered to the handler, then stops the watcher: the stream can't resume
+ * after it.
+ *
+ * @module
+ */
+
+import type * as m from "mongodb";
+import { createLogger } from "./utils/logger.ts";
+
+const log = createLogger("resumable-watch");
+
+/**
+ * Persistence of the last acknowledged resume token of every consumer
+ */
+export interface ResumeTokenStore {
+  /** Last token saved for the consumer, null if it never acknowledged an event */
+  load(consumer: string): Promise<m.ResumeToken | null>;
+  save(consumer: string, token: m.ResumeToken): Promise<void>;
+}
+
+/**
+ * Resume token document of the MongoDB store
+ */
+export type ResumeTokenDocument = {
+  /** Consumer name */
+  _id: string;
+  token: m.ResumeToken;
+  updatedAt: Date;
+};
+
+/**
+ * Resume token store keeping one document per consumer in a collection
+ *
+ * @param db - Database holding the tokens
+ * @param collectionName - Collection holding the tokens
+ */
+export function mongoResumeTokenStore(
+  db: m.Db,
+  collectionName = "mongodbee_resume_tokens",
+): ResumeTokenStore {
+  const tokens = db.collection<ResumeTokenDocument>(collectionName);
+
+  return {
+    async load(consumer) {
+      const document = await tokens.findOne({ _id: consumer });
+      return document?.token ?? null;
+    },
+    async save(consumer, token) {
+      await tokens.updateOne(
+        { _id: consumer },
+        { $set: { token, updatedAt: new Date() } },
+        { upsert: true },
+      );
+    },
+  };
+}
+
+/**
+ * Options of a resumable watcher
+ */
+export type ResumableWatchOptions = {
+  /** Name identifying the consumer in the token store */
+  consumer: string;
+  /** Where the resume tokens are persisted, e.g. `mongoResumeTokenStore(db)` */
+  store: ResumeTokenStore;
+  /** Change stream pipeline, e.g. a `$match` on the events to consume */
+  pipeline?: m.Document[];
+  /** Change stream `fullDocument` option, e.g. `"updateLookup"` */
+  fullDocument?: m.ChangeStreamOptions["fullDocument"];
+  /** Reconnection delays in milliseconds, doubled after every failed attempt */
+  backoff?: {
+    /** @default 100 */
+    initialDelay?: number;
+    /** @default 30000 */
+    maxDelay?: number;
+  };
+  /** Called with every stream or handler error, before reconnecting. Its own errors are logged. */
+  onError?: (error: unknown, attempt: number) => void;
+};
+
+/**
+ * Handler of a resumable watcher. Events are handled one at a time: the next
+ * one is delivered once the returned promise resolves.
+ */
+export type ResumableWatchHandler<TSchema extends m.Document = m.Document> = (
+  change: m.ChangeStreamDocument<TSchema>,
+  ack: () => Promise<void>,
+) => void | Promise<void>;
+
+/**
+ * Running resumable watcher
+ */
+export type ResumableWatcher = {
+  /** Stop consuming events, resolved once the stream is closed */
+  close(): Promise<void>;
+};
+
+/**
+ * Consume the change events of a database or collection, resuming after the
+ * last event acknowledged by the consumer
+ *
+ * @param source - Database or collection to watch
+ * @param options - Consumer name, token store and reconnection options
+ * @param handler - Called with every event and the function acknowledging it
+ * @returns The running watcher
+ *
+ * @example
+ * ```typescript
+ * const watcher = watchResumable(users.collection, {
+ *   consumer: "search-index",
+ *   store: mongoResumeTokenStore(db),
+ * }, async (change, ack) => {
+ *   await searchIndex.apply(change);
+ *   await ack();
+ * });
+ *
+ * // On shutdown
+ * await watcher.close();
+ * ```
+ */
+export function watchResumable<TSchema extends m.Document = m.Document>(
+  source: m.Db | m.Collection<TSchema>,
+  options: ResumableWatchOptions,
+  handler: ResumableWatchHandler<TSchema>,
+): ResumableWatcher {
+  const { consumer, store, pipeline = [], fullDocument, onError } = options;
+  const initialDelay = options.backoff?.initialDelay ?? 100;
+  const maxDelay = options.backoff?.maxDelay ?? 30000;
+
+  let closed = false;
+  let stream: m.ChangeStream<TSchema> | undefined;
+  let wakeUp: (() => void) | undefined;
+
+  async function consume() {
+    // Token of the last acknowledged event, streams reopen right after it
+    let token: m.ResumeToken | null | undefined;
+    // Until an event is acknowledged, streams reopen at the first event delivered
+    let startAt: m.Timestamp | undefined;
+    let attempt = 0;
+
+    while (!closed) {
+      try {
+        if (token === undefined) {
+          token = await store.load(consumer);
+        }
+
+        // Unlike resumeAfter, startAfter accepts the token of an invalidate
+        // event, which a consumer that stopped on it may have acknowledged
+        stream = (source as m.Collection<TSchema>).watch<TSchema>(pipeline, {
+          ...(token ? { startAfter: token } : startAt ? { startAtOperationTime: startAt } : {}),
+          ...(fullDocument ? { fullDocument } : {}),
+        });
+
+        for await (const change of stream) {
+          if (closed) break;
+          attempt = 0;
+          if (!token && !startAt && "clusterTime" in change) {
+            startAt = change.clusterTime;
+          }
+
+          const eventToken = change._id;
+          await handler(change, async () => {
+            await store.save(consumer, eventToken);
+            token = eventToken;
+          });
+
+          if (change.operationType === "invalidate") {
+            log.warn(`watchResumable(${consumer}): stream invalidated, stopping`);
+            closed = true;
+            await stream.close();
+            break;
+          }
+        }
+
+        if (!closed) {
+          throw new Error("Change stream ended");
+        }
+      } catch (error) {
+        if (closed) break;
+
+        attempt++;
+        try {
+          onError?.(error, attempt);
+        } catch (callbackError) {
+          log.error(`watchResumable(${consumer}): onError threw`, callbackError);
+        }
+        log.warn(`watchResumable(${consumer}): reconnecting after error`, error);
+        await stream?.close().catch(() => {});
+
+        const delay = Math.min(initialDelay * Math.pow(2, attempt - 1), maxDelay);
+        await new Promise<void>((resolve) => {
+          const timeout = setTimeout(resolve, delay);
+          // close() interrupts the wait
+          wakeUp = () => {
+            clearTimeout(timeout);
+            resolve();
+          };
+        });
+        wakeUp = undefined;
+      }
+    }
+  }
+
+  const running = consume();
+
+  return {
+    async close() {
+      closed = true;
+      wakeUp?.();
+      await stream?.close();
+      await running;
+    },
+  };
+}
@@ -0,0 +1,87 @@
+/**
+ * @fileoverview Soft delete support
+ *
+ * When soft delete is enabled on a collection, deleting a document stamps it
+ * with the deletion date instead of removing it. Reads skip soft-deleted
+ * documents, which can be restored until they are purged for good.
+ *
+ * @module
+ */
+
+import * as v from "./schema.ts";
+
+/**
+ * Soft delete configuration of a collection
+ */
+export type SoftDeleteOptions = {
+  /** Name of the field holding the deletion date, e.g. `"deletedAt"` */
+  field: string;
+};
+
+/**
+ * Schema of the deletion date field
+ */
+export type SoftDeleteSchema = v.OptionalSchema<v.DateSchema<undefined>, undefined>;
+
+/**
+ * Adds the deletion date field to a schema when soft delete is enabled in the options
+ */
+export type WithSoftDeleteField<T, O> = O extends
+  { softDelete: { field: infer F extends string } }
+  ? T & { [K in F]: SoftDeleteSchema }
+  : T;
+
+/**
+ * Create the schema entry of the deletion date field
+ */
+export function softDeleteSchemaEntry(
+  field: string,
+): Record<string, SoftDeleteSchema> {
+  return {
+    [field]: v.optional(v.date()),
+  };
+}
+
+/**
+ * Add a condition on the deletion date to a filter. A condition of the
+ * filter on the same field is kept by combining both with `$and`.
+ */
+function withDeletedCondition<F>(filter: F, field: string, condition: unknown): F {
+  if (filter && typeof filter === "object" && Object.hasOwn(filter, field)) {
+    return { $and: [filter, { [field]: condition }] } as F;
+  }
+
+  return { ...filter, [field]: condition };
+}
+
+/**
+ * Restrict a filter to documents that are not soft-deleted
+ */
+export function withoutDeleted<F>(filter: F, field: string | undefined): F {
+  if (!field) {
+    return filter;
+  }
+
+  return withDeletedCondition(filter, field, null);
+}
+
+/**
+ * Restrict a filter to soft-deleted documents
+ */
+export function onlyDeleted<F>(filter: F, field: string): F {
+  return withDeletedCondition(filter, field, { $ne: null });
+}
+
+/**
+ * Update marking documents as deleted now
+ */
+export function softDeleteUpdate(field: string): Record<string, unknown> {
+  return { $set: { [field]: new Date() } };
+}
+
+/**
+ * Update bringing soft-deleted documents back
+ */
+export function restoreUpdate(field: string): Record<string, unknown> {
+  return { $unset: { [field]: "" } };
+}
@@ -0,0 +1,287 @@
+/**
+ * @fileoverview Multi-tenant scoping
+ *
+ * Collections created with a `tenantField` restrict every operation to the
+ * tenant of the current async context, set with `withTenant`. Filters get the
+ * tenant injected, inserted documents are stamped with it, aggregations start
+ * with a tenant `$match` and `$lookup`s into the same collection are scoped
+ * too. Operations outside of a tenant context throw, unless they run inside
+ * `crossTenant`.
+ *
+ * The raw driver collection (`.collection`) and change streams are not scoped.
+ *
+ * @module
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import type * as m from "mongodb";
+import { ObjectId } from "mongodb";
+import * as v from "./schema.ts";
+import { isPlainObject } from "./utils/object.ts";
+
+/**
+ * Identifier of a tenant
+ */
+export type TenantId = string | number | m.ObjectId;
+
+/**
+ * Schema of the tenant field
+ */
+export type TenantSchema = v.OptionalSchema<
+  v.UnionSchema<
+    [
+      v.StringSchema<undefined>,
+      v.NumberSchema<undefined>,
+      v.InstanceSchema<typeof ObjectId, undefined>,
+    ],
+    undefined
+  >,
+  undefined
+>;
+
+/**
+ * Adds the tenant field to a schema when `tenantField` is set in the options
+ */
+export type WithTenantField<T, O> = O extends { tenantField: infer F extends string }
+  ? T & { [K in F]: TenantSchema }
+  : T;
+
+/**
+ * Create the schema entry of the tenant field
+ */
+export function tenantSchemaEntry(field: string): Record<string, TenantSchema> {
+  return {
+    [field]: v.optional(v.union([v.string(), v.number(), v.instance(ObjectId)])),
+  };
+}
+
+type TenantScope = { tenantId: TenantId } | { crossTenant: true };
+
+const asyncTenant = new AsyncLocalStorage<TenantScope>();
+
+/**
+ * Run a function with every operation on tenant-scoped collections
+ * restricted to the given tenant
+ *
+ * @example
+ * ```typescript
+ * await withTenant("acme", async () => {
+ *   await projects.insertOne({ name: "Website" }); // tenantId: "acme"
+ *   await projects.find({}).toArray();             // only acme's projects
+ * });
+ * ```
+ */
+export function withTenant<T>(tenantId: TenantId, fn: () => Promise<T>): Promise<T> {
+  return asyncTenant.run({ tenantId }, fn);
+}
+
+/**
+ * Run a function whose operations on tenant-scoped collections explicitly
+ * span every tenant (back-office, migrations...)
+ */
+export function crossTenant<T>(fn: () => Promise<T>): Promise<T> {
+  return asyncTenant.run({ crossTenant: true }, fn);
+}
+
+/**
+ * Get the tenant of the current async context, undefined outside of
+ * `withTenant`
+ */
+export function getTenant(): TenantId | undefined {
+  const scope = asyncTenant.getStore();
+  return scope && "tenantId" in scope ? scope.tenantId : undefined;
+}
+
+/**
+ * Tenant the current operation is restricted to, null when it runs across
+ * tenants. Throws outside of any tenant context.
+ */
+function currentTenant(): TenantId | null {
+  const scope = asyncTenant.getStore();
+  if (!scope) {
+    throw new Error(
+      "Tenant-scoped collection used outside of a tenant context: wrap the operation in withTenant() or crossTenant()",
+    );
+  }
+  return "tenantId" in scope ? scope.tenantId : null;
+}
+
+/**
+ * Wrap a driver collection so that every read and write is restricted to the
+ * tenant of the current context
+ *
+ * Only data operations are scoped, administrative ones (indexes, drop,
+ * watch...) are forwarded as is.
+ *
+ * @param collection - Driver collection to scope
+ * @param field - Field holding the tenant of every document
+ * @internal
+ */
+export function tenantScopedCollection<T extends m.Document>(
+  collection: m.Collection<T>,
+  field: string,
+): m.Collection<T> {
+  function scopeFilter(filter: m.Document | undefined): m.Document {
+    const tenantId = currentTenant();
+    if (tenantId === null) {
+      return filter ?? {};
+    }
+    return { ...filter, [field]: tenantId };
+  }
+
+  function scopeDocument<D extends m.Document>(doc: D): D {
+    const tenantId = currentTenant();
+    if (tenantId === null) {
+      if (doc[field] === undefined) {
+        throw new Error(`Documents inserted across tenants must set "${field}"`);
+      }
+      return doc;
+    }
+
+    if (doc[field] !== undefined && String(doc[field]) !== String(tenantId)) {
+      throw new Error("Document belongs to another tenant");
+    }
+    // Set in place, so callers see the tenant of the inserted document
+    (doc as m.Document)[field] = tenantId;
+    return doc;
+  }
+
+  function scopeUpdate(update: m.Document | m.Document[]): m.Document | m.Document[] {
+    const tenantId = currentTenant();
+
+    if (Array.isArray(update)) {
+      // Pipeline updates can replace the whole document, restore the tenant
+      return tenantId === null
+        ? update
+        : [...update, { $set: { [field]: { $literal: tenantId } } }];
+    }
+
+    for (const [operator, fields] of Object.entries(update)) {
+      if (!operator.startsWith("$") || !isPlainObject(fields)) continue;
+      if (Object.keys(fields).some((key) => key === field || key.startsWith(`${field}.`))) {
+        throw new Error(`Updates cannot change the tenant field "${field}"`);
+      }
+    }
+    return update;
+  }
+
+  function scopeLookups(stage: m.Document): m.Document {
+    const lookup = stage.$lookup;
+    if (!isPlainObject(lookup)) {
+      return stage;
+    }
+
+    const pipeline = ((lookup.pipeline ?? []) as m.Document[]).map(scopeLookups);
+    if (lookup.from !== collection.collectionName) {
+      return lookup.pipeline ? { $lookup: { ...lookup, pipeline } } : stage;
+    }
+
+    const tenantId = currentTenant();
+    return {
+      $lookup: {
+        ...lookup,
+        pipeline: tenantId === null ? pipeline : [{ $match: { [field]: tenantId } }, ...pipeline],
+      },
+    };
+  }
+
+  function scopePipeline(pipeline: m.Document[] = []): m.Document[] {
+    const stages = pipeline.map(scopeLookups);
+    const tenantId = currentTenant();
+    if (tenantId === null) {
+      return stages;
+    }
+
+    // $geoNear has to stay the first stage, scope its query instead
+    const [first, ...rest] = stages;
+    if (first?.$geoNear) {
+      return [
+        { $geoNear: { ...first.$geoNear, query: scopeFilter(first.$geoNear.query) } },
+        ...rest,
+      ];
+    }
+    return [{ $match: { [field]: tenantId } }, ...stages];
+  }
+
+  function scopeBulkOperation(operation: m.AnyBulkWriteOperation<T>): m.AnyBulkWriteOperation<T> {
+    if ("insertOne" in operation) {
+      return { insertOne: { document: scopeDocument(operation.insertOne.document) } };
+    }
+    if ("replaceOne" in operation) {
+      return {
+        replaceOne: {
+          ...operation.replaceOne,
+          filter: scopeFilter(operation.replaceOne.filter),
+          replacement: scopeDocument({ ...operation.replaceOne.replacement }),
+        },
+      } as m.AnyBulkWriteOperation<T>;
+    }
+    if ("updateOne" in operation) {
+      return {
+        updateOne: {
+          ...operation.updateOne,
+          filter: scopeFilter(operation.updateOne.filter),
+          update: scopeUpdate(operation.updateOne.update),
+        },
+      } as m.AnyBulkWriteOperation<T>;
+    }
+    if ("updateMany" in operation) {
+      return {
+        updateMany: {
+          ...operation.updateMany,
+          filter: scopeFilter(operation.updateMany.filter),
+          update: scopeUpdate(operation.updateMany.update),
+        },
+      } as m.AnyBulkWriteOperation<T>;
+    }
+    if ("deleteOne" in operation) {
+      return {
+        deleteOne: { ...operation.deleteOne, filter: scopeFilter(operation.deleteOne.filter) },
+      } as m.AnyBulkWriteOperation<T>;
+    }
+    return {
+      deleteMany: { ...operation.deleteMany, filter: scopeFilter(operation.deleteMany.filter) },
+    } as m.AnyBulkWriteOperation<T>;
+  }
+
+  // deno-lint-ignore no-explicit-any
+  const c = collection as m.Collection<any>;
+  // deno-lint-ignore no-explicit-any
+  const scoped: Record<string, (...params: any[]) => unknown> = {
+    find: (filter, options) => c.find(scopeFilter(filter), options),
+    findOne: (filter, options) => c.findOne(scopeFilter(filter), options),
+    countDocuments: (filter, options) => c.countDocuments(scopeFilter(filter), options),
+    estimatedDocumentCount: (options) =>
+      currentTenant() === null
+        ? c.estimatedDocumentCount(options)
+        : c.countDocuments(scopeFilter({}), options),
+    distinct: (key, filter, options) => c.distinct(key, scopeFilter(filter), options),
+    insertOne: (doc, options) => c.insertOne(scopeDocument(doc), options),
+    insertMany: (docs, options) => c.insertMany(docs.map(scopeDocument), options),
+    updateOne: (filter, update, options) =>
+      c.updateOne(scopeFilter(filter), scopeUpdate(update), options),
+    updateMany: (filter, update, options) =>
+      c.updateMany(scopeFilter(filter), scopeUpdate(update), options),
+    replaceOne: (filter, replacement, options) =>
+      c.replaceOne(scopeFilter(filter), scopeDocument({ ...replacement }), options),
+    deleteOne: (filter, options) => c.deleteOne(scopeFilter(filter), options),
+    deleteMany: (filter, options) => c.deleteMany(scopeFilter(filter), options),
+    findOneAndUpdate: (filter, update, options) =>
+      c.findOneAndUpdate(scopeFilter(filter), scopeUpdate(update), options),
+    findOneAndReplace: (filter, replacement, options) =>
+      c.findOneAndReplace(scopeFilter(filter), scopeDocument({ ...replacement }), options),
+    findOneAndDelete: (filter, options) => c.findOneAndDelete(scopeFilter(filter), options),
+    aggregate: (pipeline, options) => c.aggregate(scopePipeline(pipeline), options),
+    bulkWrite: (operations, options) => c.bulkWrite(operations.map(scopeBulkOperation), options),
+  };
+
+  return new Proxy(collection, {
+    get(target, property) {
+      if (typeof property === "string" && Object.hasOwn(scoped, property)) {
+        return scoped[property];
+      }
+      const value = Reflect.get(target, property);
+      return typeof value === "function" ? value.bind(target) : value;
+    },
+  });
+}
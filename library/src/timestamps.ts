@@ -0,0 +1,141 @@
+/**
+ * @fileoverview Automatic creation and update timestamps
+ *
+ * When timestamps are enabled on a collection, inserts stamp both the
+ * creation and update dates, and every update path refreshes the update date.
+ *
+ * @module
+ */
+
+import * as v from "./schema.ts";
+import type * as m from "mongodb";
+
+/**
+ * Timestamps configuration of a collection: `true` for the default
+ * `createdAt` / `updatedAt` field names, or custom names
+ */
+export type TimestampsOptions = true | {
+  createdAt?: string;
+  updatedAt?: string;
+};
+
+/**
+ * Resolved names of the timestamp fields
+ */
+export type TimestampFields = {
+  createdAt: string;
+  updatedAt: string;
+};
+
+/**
+ * Schema of a timestamp field
+ */
+export type TimestampSchema = v.OptionalSchema<v.DateSchema<undefined>, undefined>;
+
+type FieldName<N, Default extends string> = N extends string ? N : Default;
+
+/**
+ * Adds the timestamp fields to a schema when timestamps are enabled in the options
+ */
+export type WithTimestampFields<T, O> = O extends { timestamps: infer S }
+  ? S extends true
+    ? T & { createdAt: TimestampSchema; updatedAt: TimestampSchema }
+  : S extends { createdAt?: infer C; updatedAt?: infer U } ? T & {
+      [
+        K in
+          | FieldName<C, "createdAt">
+          | FieldName<U, "updatedAt">
+      ]: TimestampSchema;
+    }
+  : T
+  : T;
+
+/**
+ * Resolve the timestamp field names from the collection options
+ */
+export function resolveTimestampFields(
+  options: TimestampsOptions | undefined,
+): TimestampFields | undefined {
+  if (!options) {
+    return undefined;
+  }
+
+  return {
+    createdAt: (options === true ? undefined : options.createdAt) ?? "createdAt",
+    updatedAt: (options === true ? undefined : options.updatedAt) ?? "updatedAt",
+  };
+}
+
+/**
+ * Create the schema entries of the timestamp fields
+ */
+export function timestampSchemaEntries(
+  fields: TimestampFields,
+): Record<string, TimestampSchema> {
+  return {
+    [fields.createdAt]: v.optional(v.date()),
+    [fields.updatedAt]: v.optional(v.date()),
+  };
+}
+
+/**
+ * Stamp a document about to be inserted
+ */
+export function withInsertTimestamps<D extends Record<string, unknown>>(
+  doc: D,
+  fields: TimestampFields,
+  now: Date = new Date(),
+): D {
+  return { ...doc, [fields.createdAt]: now, [fields.updatedAt]: now };
+}
+
+/**
+ * Refresh the update date as part of an update. The creation date is set
+ * through $setOnInsert, so upserts that insert are stamped too. A timestamp
+ * the update already targets is left as is.
+ */
+export function withUpdateTimestamps<U extends m.Document | m.Document[]>(
+  update: U,
+  fields: TimestampFields,
+  now: Date = new Date(),
+): U {
+  if (Array.isArray(update)) {
+    return [
+      ...update,
+      {
+        $set: {
+          [fields.createdAt]: { $ifNull: [`$${fields.createdAt}`, now] },
+          [fields.updatedAt]: now,
+        },
+      },
+    ] as U;
+  }
+
+  // Fields the update already sets or unsets are left to it, MongoDB
+  // rejects updates with conflicting operators on a path
+  const targeted = new Set(
+    Object.values(update).flatMap((fields) => fields && typeof fields === "object" ? Object.keys(fields) : []),
+  );
+  const stampedUpdate: m.Document = { ...update };
+  if (!targeted.has(fields.updatedAt)) {
+    stampedUpdate.$set = { ...update.$set, [fields.updatedAt]: now };
+  }
+  if (!targeted.has(fields.createdAt)) {
+    stampedUpdate.$setOnInsert = { ...update.$setOnInsert, [fields.createdAt]: now };
+  }
+  return stampedUpdate as U;
+}
+
+/**
+ * Aggregation expressions computing the timestamps of a replaced document:
+ * the creation date is kept, the update date is refreshed
+ */
+export function replacedTimestamps(
+  fields: TimestampFields,
+  now: Date = new Date(),
+): Record<string, unknown> {
+  return {
+    [fields.createdAt]: { $ifNull: [`$${fields.createdAt}`, now] },
+    [fields.updatedAt]: now,
+  };
+}
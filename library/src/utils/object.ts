@@ -35,4 +35,12 @@ export function deepSortObject(obj: any): any {
     sorted[key] = deepSortObject(obj[key]);
   });
   return sorted;
-}
\ No newline at end of file
+}
+
+/**
+ * Checks if a value is a plain object (not an array, Date, ObjectId...)
+ */
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null &&
+    value.constructor === Object;
+}
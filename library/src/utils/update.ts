@@ -0,0 +1,89 @@
+/**
+ * Helpers to build MongoDB update documents
+ */
+
+import type * as m from "mongodb";
+
+/**
+ * Build a pipeline update that replaces a document while computing some of
+ * its fields from the current document, which a plain replacement cannot
+ * reference (e.g. incrementing a version or keeping a creation date).
+ *
+ * The `_id` of the current document is always kept.
+ *
+ * @param replacement - The new document, its values are taken literally
+ * @param computed - Fields computed with aggregation expressions
+ * @returns A pipeline usable with updateOne/findOneAndUpdate
+ */
+export function replacementPipeline(
+  replacement: m.Document,
+  computed: Record<string, unknown>,
+): m.Document[] {
+  const { _id: _, ...doc } = replacement;
+  for (const field of Object.keys(computed)) {
+    delete doc[field];
+  }
+
+  return [{
+    $replaceWith: {
+      $mergeObjects: [
+        { _id: "$_id" },
+        { $literal: doc },
+        computed,
+      ],
+    },
+  }];
+}
+
+/**
+ * Translate an operator update into the equivalent pipeline update, for
+ * writes that need aggregation expressions alongside the operators (e.g.
+ * seeding a field only when an upsert inserts the document).
+ *
+ * Only $set, $setOnInsert, $unset, $inc and $currentDate can be translated.
+ *
+ * @param update - The operator update
+ * @param inserting - Expression that is true when the write inserts the document, replaces $setOnInsert
+ * @returns A pipeline usable with updateOne/findOneAndUpdate
+ */
+export function operatorPipeline(
+  update: m.Document,
+  inserting: m.Document,
+): m.Document[] {
+  const $set: Record<string, unknown> = {};
+  const $unset: string[] = [];
+
+  for (const [operator, fields] of Object.entries(update)) {
+    for (const [path, value] of Object.entries(fields as m.Document)) {
+      switch (operator) {
+        case "$set":
+          $set[path] = { $literal: value };
+          break;
+        case "$setOnInsert":
+          // A missing field is left missing when the document already exists
+          $set[path] = { $cond: [inserting, { $literal: value }, `$${path}`] };
+          break;
+        case "$inc":
+          $set[path] = { $add: [{ $ifNull: [`$${path}`, 0] }, value] };
+          break;
+        case "$currentDate":
+          $set[path] = value?.$type === "timestamp" ? "$$CLUSTER_TIME" : "$$NOW";
+          break;
+        case "$unset":
+          $unset.push(path);
+          break;
+        default:
+          throw new Error(`${operator} cannot be used in a pipeline update`);
+      }
+    }
+  }
+
+  const pipeline: m.Document[] = [];
+  if (Object.keys($set).length > 0) {
+    pipeline.push({ $set });
+  }
+  if ($unset.length > 0) {
+    pipeline.push({ $unset });
+  }
+  return pipeline;
+}
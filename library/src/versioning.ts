@@ -0,0 +1,152 @@
+/**
+ * @fileoverview Optimistic concurrency control through a document version field
+ *
+ * When versioning is enabled on a collection, every document carries an
+ * integer version that starts at 0 on insert and is incremented atomically by
+ * every update. Writes can pass the version they read (`expectedVersion`) to
+ * only apply if nobody changed the document in the meantime.
+ *
+ * @module
+ */
+
+import * as v from "./schema.ts";
+import type * as m from "mongodb";
+import { operatorPipeline } from "./utils/update.ts";
+
+/**
+ * Versioning configuration of a collection
+ */
+export type VersioningOptions = {
+  /** Name of the version field, e.g. `"_v"` */
+  field: string;
+};
+
+/**
+ * Options accepted by write operations on a versioned collection
+ */
+export type VersionedWriteOptions = {
+  /**
+   * Only apply the write if the document is at this version.
+   * A mismatch throws a `VersionConflictError`.
+   */
+  expectedVersion?: number;
+};
+
+/**
+ * Schema of the version field
+ */
+export type VersionSchema = v.OptionalSchema<
+  v.SchemaWithPipe<
+    readonly [
+      v.NumberSchema<undefined>,
+      v.IntegerAction<number, undefined>,
+      v.MinValueAction<number, 0, undefined>,
+    ]
+  >,
+  undefined
+>;
+
+/**
+ * Adds the version field to a schema when versioning is enabled in the options
+ */
+export type WithVersionField<T, O> = O extends
+  { versioning: { field: infer F extends string } }
+  ? T & { [K in F]: VersionSchema }
+  : T;
+
+/**
+ * Thrown when a write with `expectedVersion` targets a document that has
+ * been modified since it was read
+ */
+export class VersionConflictError extends Error {
+  override name = "VersionConflictError";
+
+  constructor(
+    /** Version the write expected the document to be at */
+    public readonly expectedVersion: number,
+    /** Filter of the rejected write */
+    public readonly filter: unknown,
+  ) {
+    super(`Version conflict: document is no longer at version ${expectedVersion}`);
+  }
+}
+
+/**
+ * Create the schema entry of the version field
+ */
+export function versionSchemaEntry(
+  field: string,
+): Record<string, VersionSchema> {
+  return {
+    [field]: v.optional(v.pipe(v.number(), v.integer(), v.minValue(0))),
+  };
+}
+
+/**
+ * Restrict a filter to documents at the expected version
+ */
+export function withExpectedVersion<F>(
+  filter: F,
+  field: string,
+  expectedVersion: number | undefined,
+): F {
+  if (expectedVersion === undefined) {
+    return filter;
+  }
+
+  return { $and: [filter, { [field]: expectedVersion }] } as F;
+}
+
+/**
+ * Aggregation expression evaluating to the next version of a document
+ *
+ * @param missing - Version assumed when the document has none, -1 makes
+ *   upserted documents start at 0
+ */
+export function nextVersionExpression(field: string, missing = 0): m.Document {
+  return { $add: [{ $ifNull: [`$${field}`, missing] }, 1] };
+}
+
+/**
+ * Increment the version field as part of an update
+ */
+export function withVersionIncrement<U extends m.Document | m.Document[]>(
+  update: U,
+  field: string,
+): U {
+  if (Array.isArray(update)) {
+    return [
+      ...update,
+      { $set: { [field]: nextVersionExpression(field) } },
+    ] as U;
+  }
+
+  return {
+    ...update,
+    $inc: { ...update.$inc, [field]: 1 },
+  } as U;
+}
+
+/**
+ * Turn a versioned update into the pipeline of an upsert, so a single write
+ * increments the version of an existing document or inserts one at version
+ * 0, like insertOne. A document without version is treated as inserted.
+ *
+ * Only $set, $setOnInsert, $unset, $inc and $currentDate are supported.
+ */
+export function withUpsertedVersion(
+  update: m.Document,
+  field: string,
+): m.Document[] {
+  const { [field]: _increment, ...increments } = update.$inc ?? {};
+  const { $inc: _inc, ...operators } = update;
+  const inserting = { $eq: [{ $type: `$${field}` }, "missing"] };
+
+  return [
+    ...operatorPipeline(
+      Object.keys(increments).length > 0 ? { ...operators, $inc: increments } : operators,
+      inserting,
+    ),
+    { $set: { [field]: nextVersionExpression(field, -1) } },
+  ];
+}
@@ -0,0 +1,144 @@
+/**
+ * @fileoverview Schema-aware query filter builder
+ *
+ * `where(schema)` builds MongoDB filters from the dot notation paths of a
+ * schema: paths are typed with `FlatType`, so typos fail at compile time,
+ * and operators are restricted by the type of the field (`$regex` on
+ * strings, `$gt` on numbers and dates...). Paths are checked again at
+ * runtime and values are validated against the schema of their field when
+ * the condition is added, before any query is sent.
+ *
+ * @module
+ */
+
+import * as v from "./schema.ts";
+import type * as m from "mongodb";
+import type { FlatType } from "../types/flat.ts";
+import { checkPath, createDotNotationSchema, extractSchemaPaths } from "./dot-notation.ts";
+
+/**
+ * Dot notation paths usable in a filter (`$[]` is reserved to updates)
+ */
+type QueryPath<TDoc> = Exclude<keyof FlatType<TDoc> & string, `${string}$[]${string}`>;
+
+type PathValue<TDoc, P> = P extends keyof FlatType<TDoc> ? FlatType<TDoc>[P] : never;
+
+/**
+ * Paths whose values (null and undefined aside) are assignable to V
+ */
+type PathOf<TDoc, V> = {
+  [P in QueryPath<TDoc>]: [NonNullable<PathValue<TDoc, P>>] extends [never] ? never
+    : NonNullable<PathValue<TDoc, P>> extends V ? P
+    : never;
+}[QueryPath<TDoc>];
+
+type ItemOf<V> = NonNullable<V> extends readonly (infer I)[] ? I : never;
+
+/**
+ * Fluent filter builder, every method returns a new builder with the
+ * condition added. Conditions are combined with `$and`.
+ *
+ * @template TDoc - Document type of the collection
+ */
+export type WhereBuilder<TDoc> = {
+  eq<P extends QueryPath<TDoc>>(path: P, value: PathValue<TDoc, P>): WhereBuilder<TDoc>;
+  ne<P extends QueryPath<TDoc>>(path: P, value: PathValue<TDoc, P>): WhereBuilder<TDoc>;
+  in<P extends QueryPath<TDoc>>(path: P, values: PathValue<TDoc, P>[]): WhereBuilder<TDoc>;
+  nin<P extends QueryPath<TDoc>>(path: P, values: PathValue<TDoc, P>[]): WhereBuilder<TDoc>;
+  gt<P extends PathOf<TDoc, number | Date>>(path: P, value: NonNullable<PathValue<TDoc, P>>): WhereBuilder<TDoc>;
+  gte<P extends PathOf<TDoc, number | Date>>(path: P, value: NonNullable<PathValue<TDoc, P>>): WhereBuilder<TDoc>;
+  lt<P extends PathOf<TDoc, number | Date>>(path: P, value: NonNullable<PathValue<TDoc, P>>): WhereBuilder<TDoc>;
+  lte<P extends PathOf<TDoc, number | Date>>(path: P, value: NonNullable<PathValue<TDoc, P>>): WhereBuilder<TDoc>;
+  regex(path: PathOf<TDoc, string>, pattern: RegExp | string): WhereBuilder<TDoc>;
+  exists(path: QueryPath<TDoc>, exists?: boolean): WhereBuilder<TDoc>;
+  /** Arrays containing the item */
+  contains<P extends PathOf<TDoc, readonly unknown[]>>(path: P, item: ItemOf<PathValue<TDoc, P>>): WhereBuilder<TDoc>;
+  /** Arrays containing all the items */
+  all<P extends PathOf<TDoc, readonly unknown[]>>(path: P, items: ItemOf<PathValue<TDoc, P>>[]): WhereBuilder<TDoc>;
+  size(path: PathOf<TDoc, readonly unknown[]>, size: number): WhereBuilder<TDoc>;
+  /** Documents matching at least one of the builders, at least one is required */
+  or(...builders: WhereBuilder<TDoc>[]): WhereBuilder<TDoc>;
+  /** Documents matching none of the builders, at least one is required */
+  nor(...builders: WhereBuilder<TDoc>[]): WhereBuilder<TDoc>;
+  /** The MongoDB filter */
+  build(): m.Filter<TDoc>;
+};
+
+/**
+ * Create a filter builder for the documents of a schema
+ *
+ * @param schema - Schema of the documents
+ * @returns An empty filter builder
+ * @throws Error when a path is not in the schema or a value doesn't match
+ * the schema of its field
+ *
+ * @example
+ * ```typescript
+ * const filter = where(users.schema)
+ *   .eq("address.city", "Paris")
+ *   .gte("age", 18)
+ *   .regex("name", /^jo/i)
+ *   .build();
+ *
+ * const adults = await users.find(filter).toArray();
+ * ```
+ */
+export function where<TSchema extends v.BaseSchema<unknown, unknown, v.BaseIssue<unknown>>>(
+  schema: TSchema,
+): WhereBuilder<v.InferInput<TSchema>> {
+  const paths = extractSchemaPaths(schema);
+  const dotSchema = createDotNotationSchema(schema);
+
+  function checkedPath(path: string): string {
+    if (!paths.some(([fullPath]) => checkPath(fullPath, path))) {
+      throw new Error(`Unknown path "${path}" in filter`);
+    }
+    return path;
+  }
+
+  function checkedValue(path: string, value: unknown): unknown {
+    if (!v.safeParse(dotSchema, { [checkedPath(path)]: value }).success) {
+      throw new Error(`Invalid value for "${path}" in filter`);
+    }
+    return value;
+  }
+
+  function builder(conditions: m.Document[]): WhereBuilder<v.InferInput<TSchema>> {
+    const add = (condition: m.Document) => builder([...conditions, condition]);
+    const operator = (path: string, op: string, value: unknown) =>
+      add({ [path]: { [op]: checkedValue(path, value) } });
+    const listOperator = (path: string, op: string, values: unknown[], itemPath = path) =>
+      add({ [path]: { [op]: values.map((value) => checkedValue(itemPath, value)) } });
+    // MongoDB rejects empty $or / $nor arrays
+    const logical = (op: string, builders: WhereBuilder<v.InferInput<TSchema>>[]) => {
+      if (builders.length === 0) {
+        throw new Error(`${op} requires at least one condition`);
+      }
+      return add({ [op]: builders.map((other) => other.build()) });
+    };
+
+    return {
+      eq: (path, value) => operator(path, "$eq", value),
+      ne: (path, value) => operator(path, "$ne", value),
+      in: (path, values) => listOperator(path, "$in", values),
+      nin: (path, values) => listOperator(path, "$nin", values),
+      gt: (path, value) => operator(path, "$gt", value),
+      gte: (path, value) => operator(path, "$gte", value),
+      lt: (path, value) => operator(path, "$lt", value),
+      lte: (path, value) => operator(path, "$lte", value),
+      regex: (path, pattern) => add({ [checkedPath(path)]: { $regex: pattern } }),
+      exists: (path, exists = true) => add({ [checkedPath(path)]: { $exists: exists } }),
+      contains: (path, item) => add({ [path]: checkedValue(`${path}.$[]`, item) }),
+      all: (path, items) => listOperator(path, "$all", items, `${path}.$[]`),
+      size: (path, size) => add({ [checkedPath(path)]: { $size: size } }),
+      or: (...builders) => logical("$or", builders),
+      nor: (...builders) => logical("$nor", builders),
+      build() {
+        const filter = conditions.length <= 1 ? conditions[0] ?? {} : { $and: conditions };
+        return filter as m.Filter<v.InferInput<TSchema>>;
+      },
+    };
+  }
+
+  return builder([]);
+}
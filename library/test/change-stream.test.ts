@@ -0,0 +1,30 @@
+import { assertEquals } from "@std/assert";
+import { withDatabase } from "./+shared.ts";
+import { watchCollection } from "../src/change-stream.ts";
+
+// Streams open asynchronously and might miss writes made right after
+const streamReady = () => new Promise((resolve) => setTimeout(resolve, 500));
+const eventsProcessed = () => new Promise((resolve) => setTimeout(resolve, 1500));
+
+Deno.test("watchCollection: stream errors are handled instead of crashing", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const items = db.collection("items");
+
+    const delivered: number[] = [];
+    const stop = watchCollection(items, [
+      // Fails on the server for an item with n: 0
+      { $match: { $expr: { $gt: [{ $divide: [1, "$fullDocument.n"] }, 0] } } },
+    ], (change) => {
+      if (change.operationType === "insert") delivered.push(change.fullDocument.n);
+    });
+    await streamReady();
+    await items.insertOne({ n: 1 });
+    await items.insertOne({ n: 0 });
+    await eventsProcessed();
+
+    // Closing while the stream is being reopened
+    await stop();
+
+    assertEquals(delivered, [1]);
+  });
+});
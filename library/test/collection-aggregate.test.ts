@@ -0,0 +1,113 @@
+import * as v from "../src/schema.ts";
+import { assertEquals, assertRejects } from "@std/assert";
+import { collection } from "../src/collection.ts";
+import { withDatabase } from "./+shared.ts";
+import type { Db } from "../src/mongodb.ts";
+
+const userSchema = {
+  name: v.string(),
+  age: v.number(),
+  country: v.string(),
+  tags: v.array(v.string()),
+};
+
+async function seedUsers(db: Db) {
+  const users = await collection(db, "users", userSchema);
+  await users.insertMany([
+    { name: "Alice", age: 30, country: "FR", tags: ["admin", "dev"] },
+    { name: "Bob", age: 25, country: "FR", tags: ["dev"] },
+    { name: "Carol", age: 41, country: "US", tags: [] },
+  ]);
+  return users;
+}
+
+Deno.test("aggregate - $match and $group are typed", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const users = await seedUsers(db);
+
+    const stats = await users.aggregate((stage) => [
+      stage.match({ age: { $gte: 26 } }),
+      stage.group({
+        _id: "$country",
+        count: { $sum: 1 },
+        names: { $push: "$name" },
+      }),
+      stage.sort({ _id: 1 }),
+    ]);
+
+    // Compile-time check: the output shape is inferred from the stages
+    const typed: { _id: string; count: number; names: string[] }[] = stats;
+
+    assertEquals(typed, [
+      { _id: "FR", count: 1, names: ["Alice"] },
+      { _id: "US", count: 1, names: ["Carol"] },
+    ]);
+  });
+});
+
+Deno.test("aggregate - $project and $addFields reshape the output", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const users = await seedUsers(db);
+
+    const rows = await users.aggregate((stage) => [
+      stage.project({ _id: 0, name: 1, age: 1 }),
+      stage.addFields({ label: { $concat: ["$name", "!"] } }),
+      stage.sort({ age: 1 }),
+    ]);
+
+    const typed: { name: string; age: number; label: string }[] = rows;
+    assertEquals(typed[0], { name: "Bob", age: 25, label: "Bob!" });
+    assertEquals("_id" in typed[0], false);
+  });
+});
+
+Deno.test("aggregate - $unwind narrows array fields", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const users = await seedUsers(db);
+
+    const rows = await users.aggregate((stage) => [
+      stage.unwind("tags"),
+      stage.match({ tags: "dev" }),
+      stage.project({ _id: 0, name: 1, tags: 1 }),
+      stage.sort({ name: 1 }),
+    ]);
+
+    const typed: { name: string; tags: string }[] = rows;
+    assertEquals(typed, [
+      { name: "Alice", tags: "dev" },
+      { name: "Bob", tags: "dev" },
+    ]);
+  });
+});
+
+Deno.test("aggregate - output schema validates results", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const users = await seedUsers(db);
+
+    const rows = await users.aggregate(
+      (stage) => [
+        stage.group({ _id: null, average: { $avg: "$age" } }),
+      ],
+      { output: v.object({ _id: v.null(), average: v.number() }) },
+    );
+    assertEquals(rows, [{ _id: null, average: 32 }]);
+
+    await assertRejects(() =>
+      users.aggregate(
+        (stage) => [stage.project({ name: 1 })],
+        { output: v.object({ name: v.number() }) },
+      )
+    );
+  });
+});
+
+Deno.test("aggregate - raw pipeline still returns a cursor", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const users = await seedUsers(db);
+
+    const results = await users.aggregate([{ $match: { country: "US" } }])
+      .toArray();
+    assertEquals(results.length, 1);
+    assertEquals(results[0].name, "Carol");
+  });
+});
@@ -0,0 +1,161 @@
+import * as v from "../src/schema.ts";
+import { assertEquals, assertRejects } from "@std/assert";
+import { collection } from "../src/collection.ts";
+import { type AuditRecord, withActor } from "../src/audit.ts";
+import { withDatabase } from "./+shared.ts";
+
+const userSchema = {
+  name: v.string(),
+  address: v.object({
+    city: v.string(),
+    zip: v.string(),
+  }),
+};
+
+Deno.test("audit - writes are recorded with a field-level diff and the actor", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const users = await collection(db, "users", userSchema, {
+      audit: { collection: "audit_log" },
+    });
+    const auditLog = db.collection<AuditRecord>("audit_log");
+
+    const id = await withActor("alice", async () => {
+      const id = await users.insertOne({ name: "John", address: { city: "Paris", zip: "75001" } });
+      await users.updateOne({ _id: id }, { $set: { "address.city": "Lyon" } });
+      return id;
+    });
+    await users.deleteOne({ name: "John" });
+
+    const records = await auditLog.find({}, { sort: { timestamp: 1, _id: 1 } }).toArray();
+    assertEquals(records.map(({ operation, collection, documentId, changes, actor }) => ({
+      operation,
+      collection,
+      documentId,
+      changes,
+      actor,
+    })), [
+      {
+        operation: "insert",
+        collection: "users",
+        documentId: id,
+        changes: [
+          { field: "name", after: "John" },
+          { field: "address.city", after: "Paris" },
+          { field: "address.zip", after: "75001" },
+        ],
+        actor: "alice",
+      },
+      {
+        operation: "update",
+        collection: "users",
+        documentId: id,
+        changes: [{ field: "address.city", before: "Paris", after: "Lyon" }],
+        actor: "alice",
+      },
+      {
+        operation: "delete",
+        collection: "users",
+        documentId: id,
+        changes: [
+          { field: "name", before: "John" },
+          { field: "address.city", before: "Lyon" },
+          { field: "address.zip", before: "75001" },
+        ],
+        actor: null,
+      },
+    ]);
+  });
+});
+
+Deno.test("audit - updates without changes are not recorded", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const users = await collection(db, "users", userSchema, {
+      audit: { collection: "audit_log" },
+    });
+    const auditLog = db.collection<AuditRecord>("audit_log");
+
+    await users.insertMany([
+      { name: "John", address: { city: "Paris", zip: "75001" } },
+      { name: "Jane", address: { city: "Lyon", zip: "69001" } },
+    ]);
+    await users.updateMany({}, { $set: { "address.city": "Lyon" } });
+
+    const updates = await auditLog.find({ operation: "update" }).toArray();
+    assertEquals(updates.length, 1);
+    assertEquals(updates[0].changes, [{ field: "address.city", before: "Paris", after: "Lyon" }]);
+  });
+});
+
+Deno.test("audit - records are rolled back with the transaction", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const users = await collection(db, "users", userSchema, {
+      audit: { collection: "audit_log" },
+    });
+    const auditLog = db.collection<AuditRecord>("audit_log");
+
+    await assertRejects(
+      () =>
+        users.withSession(async () => {
+          await users.insertOne({ name: "John", address: { city: "Paris", zip: "75001" } });
+          throw new Error("Rollback");
+        }),
+      Error,
+      "Rollback",
+    );
+
+    assertEquals(await auditLog.countDocuments(), 0);
+  });
+});
+
+Deno.test("audit - single document writes record the document they change", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const users = await collection(db, "users", userSchema, {
+      audit: { collection: "audit_log" },
+    });
+    const auditLog = db.collection<AuditRecord>("audit_log");
+
+    await users.insertOne({ name: "John", address: { city: "Paris", zip: "75001" } });
+    const janeId = await users.insertOne({ name: "Jane", address: { city: "Paris", zip: "75002" } });
+
+    const jane = await users.findOneAndUpdate(
+      { "address.city": "Paris" },
+      { $set: { "address.city": "Lyon" } },
+      { sort: { name: 1 } },
+    );
+    assertEquals(jane?._id, janeId);
+
+    const updates = await auditLog.find({ operation: "update" }).toArray();
+    assertEquals(updates.map((record) => record.documentId), [janeId]);
+  });
+});
+
+Deno.test("audit - bulkWrite, restore and purgeDeleted are recorded", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const users = await collection(db, "users", userSchema, {
+      audit: { collection: "audit_log" },
+      softDelete: { field: "deletedAt" },
+    });
+    const auditLog = db.collection<AuditRecord>("audit_log");
+
+    await users.bulkWrite([
+      { insertOne: { document: { name: "John", address: { city: "Paris", zip: "75001" } } } },
+      { insertOne: { document: { name: "Jane", address: { city: "Lyon", zip: "69001" } } } },
+      { updateOne: { filter: { name: "John" }, update: { $set: { "address.city": "Nice" } } } },
+      { deleteOne: { filter: { name: "Jane" } } },
+    ]);
+    // John was inserted and updated by the same bulk
+    const bulkRecords = await auditLog.find({}, { sort: { _id: 1 } }).toArray();
+    assertEquals(bulkRecords.map(({ operation }) => operation), ["insert", "insert"]);
+
+    assertEquals(await users.restore({ name: "Jane" }), 1);
+    await users.deleteOne({ name: "Jane" });
+    assertEquals(await users.purgeDeleted(new Date()), 1);
+
+    const records = await auditLog.find({}, { sort: { timestamp: 1, _id: 1 } }).toArray();
+    assertEquals(records.slice(2).map(({ operation, changes }) => ({ operation, fields: changes.map((c) => c.field) })), [
+      { operation: "update", fields: ["deletedAt"] },
+      { operation: "delete", fields: ["deletedAt"] },
+      { operation: "delete", fields: ["name", "address.city", "address.zip", "deletedAt"] },
+    ]);
+  });
+});
@@ -0,0 +1,115 @@
+import * as v from "../src/schema.ts";
+import { assertEquals, assertRejects } from "@std/assert";
+import { collection } from "../src/collection.ts";
+import { removeField } from "../src/sanitizer.ts";
+import { withDatabase } from "./+shared.ts";
+
+const userSchema = {
+  name: v.string(),
+  age: v.pipe(v.number(), v.minValue(0)),
+  email: v.optional(v.string()),
+};
+
+Deno.test("bulkWrite - validated inserts, updates, replaces and deletes", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const users = await collection(db, "users", userSchema);
+    await users.insertMany([
+      { name: "Alice", age: 30, email: "alice@example.com" },
+      { name: "Bob", age: 25 },
+      { name: "Carol", age: 41 },
+    ]);
+
+    const result = await users.bulkWrite([
+      { insertOne: { document: { name: "Dave", age: 19 } } },
+      {
+        updateOne: {
+          filter: { name: "Alice" },
+          update: { $set: { age: 31, email: removeField() } },
+        },
+      },
+      {
+        replaceOne: {
+          filter: { name: "Bob" },
+          replacement: { name: "Bobby", age: 26 },
+        },
+      },
+      { deleteOne: { filter: { name: "Carol" } } },
+    ]);
+
+    assertEquals(result.insertedCount, 1);
+    assertEquals(result.modifiedCount, 2);
+    assertEquals(result.deletedCount, 1);
+
+    const alice = await users.findOne({ name: "Alice" });
+    assertEquals(alice?.age, 31);
+    assertEquals(alice?.email, undefined);
+    assertEquals((await users.findOne({ name: "Bobby" }))?.age, 26);
+    assertEquals(await users.countDocuments({ name: "Carol" }), 0);
+  });
+});
+
+Deno.test("bulkWrite - invalid operations are rejected before writing", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const users = await collection(db, "users", userSchema);
+    await users.insertOne({ name: "Alice", age: 30 });
+
+    // Invalid insert: nothing from the batch must be written
+    await assertRejects(() =>
+      users.bulkWrite([
+        { insertOne: { document: { name: "Bob", age: 20 } } },
+        { insertOne: { document: { name: "Invalid", age: -1 } } },
+      ])
+    );
+    assertEquals(await users.countDocuments({}), 1);
+
+    // Invalid $set value
+    await assertRejects(() =>
+      users.bulkWrite([
+        {
+          updateMany: {
+            filter: { name: "Alice" },
+            update: { $set: { age: -5 } },
+          },
+        },
+      ])
+    );
+
+    // Invalid replacement
+    await assertRejects(() =>
+      users.bulkWrite([
+        {
+          replaceOne: {
+            filter: { name: "Alice" },
+            // deno-lint-ignore no-explicit-any
+            replacement: { name: "Alice" } as any,
+          },
+        },
+      ])
+    );
+
+    // Unsafe deleteMany
+    await assertRejects(() =>
+      users.bulkWrite([{ deleteMany: { filter: {} } }])
+    );
+
+    const alice = await users.findOne({ name: "Alice" });
+    assertEquals(alice?.age, 30);
+  });
+});
+
+Deno.test("updateOne - $set values are validated against the schema", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const users = await collection(db, "users", userSchema);
+    await users.insertOne({ name: "Alice", age: 30 });
+
+    await assertRejects(() =>
+      users.updateOne({ name: "Alice" }, { $set: { age: -1 } })
+    );
+    await assertRejects(() =>
+      users.updateMany({ name: "Alice" }, { $set: { age: -1 } })
+    );
+
+    const alice = await users.findOne({ name: "Alice" });
+    assertEquals(alice?.age, 30);
+  });
+});
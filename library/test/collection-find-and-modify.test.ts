@@ -0,0 +1,86 @@
+import * as v from "../src/schema.ts";
+import { assertEquals, assertRejects } from "@std/assert";
+import { collection } from "../src/collection.ts";
+import { withDatabase } from "./+shared.ts";
+
+const counterSchema = {
+  name: v.string(),
+  value: v.pipe(v.number(), v.minValue(0)),
+  label: v.optional(v.pipe(v.string(), v.transform((s) => s.toUpperCase()))),
+};
+
+Deno.test("findOneAndUpdate - returns the parsed document after the update", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const counters = await collection(db, "counters", counterSchema);
+    await counters.insertOne({ name: "invoices", value: 1, label: "inv" });
+
+    const after = await counters.findOneAndUpdate(
+      { name: "invoices" },
+      { $inc: { value: 1 } },
+    );
+    assertEquals(after?.value, 2);
+    assertEquals(after?.label, "INV");
+
+    const before = await counters.findOneAndUpdate(
+      { name: "invoices" },
+      { $inc: { value: 1 } },
+      { returnDocument: "before" },
+    );
+    assertEquals(before?.value, 2);
+
+    const missing = await counters.findOneAndUpdate(
+      { name: "orders" },
+      { $inc: { value: 1 } },
+    );
+    assertEquals(missing, null);
+  });
+});
+
+Deno.test("findOneAndUpdate - validates the update", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const counters = await collection(db, "counters", counterSchema);
+    await counters.insertOne({ name: "invoices", value: 1 });
+
+    await assertRejects(() =>
+      counters.findOneAndUpdate({ name: "invoices" }, { $set: { value: -1 } })
+    );
+
+    const counter = await counters.findOne({ name: "invoices" });
+    assertEquals(counter?.value, 1);
+  });
+});
+
+Deno.test("findOneAndReplace - validates the replacement and returns it", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const counters = await collection(db, "counters", counterSchema);
+    await counters.insertOne({ name: "invoices", value: 1 });
+
+    const replaced = await counters.findOneAndReplace(
+      { name: "invoices" },
+      { name: "invoices", value: 10, label: "new" },
+    );
+    assertEquals(replaced?.value, 10);
+    assertEquals(replaced?.label, "NEW");
+
+    await assertRejects(() =>
+      counters.findOneAndReplace(
+        { name: "invoices" },
+        { name: "invoices", value: -5 },
+      )
+    );
+  });
+});
+
+Deno.test("findOneAndDelete - returns the parsed deleted document", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const counters = await collection(db, "counters", counterSchema);
+    await counters.insertOne({ name: "invoices", value: 3, label: "inv" });
+
+    const deleted = await counters.findOneAndDelete({ name: "invoices" });
+    assertEquals(deleted?.value, 3);
+    assertEquals(deleted?.label, "INV");
+    assertEquals(await counters.countDocuments({}), 0);
+
+    assertEquals(await counters.findOneAndDelete({ name: "invoices" }), null);
+  });
+});
@@ -0,0 +1,137 @@
+import * as v from "../src/schema.ts";
+import { assert, assertEquals, assertRejects } from "@std/assert";
+import { collection } from "../src/collection.ts";
+import { withDatabase } from "./+shared.ts";
+
+const userSchema = {
+  name: v.string(),
+  email: v.string(),
+};
+
+Deno.test("hooks - insert hooks receive the validated document", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const users = await collection(db, "users", userSchema);
+    const calls: string[] = [];
+
+    users.hook("beforeInsert", ({ document }) => {
+      calls.push(`before:${document.name}`);
+      document.email = document.email.toLowerCase();
+    });
+    users.hook("afterInsert", ({ document }) => {
+      assert(document._id);
+      calls.push(`after:${document.name}`);
+    });
+
+    const id = await users.insertOne({ name: "John", email: "John@Example.com" });
+    await users.insertMany([{ name: "Jane", email: "jane@example.com" }]);
+
+    assertEquals(calls, ["before:John", "after:John", "before:Jane", "after:Jane"]);
+    assertEquals((await users.getById(id)).email, "john@example.com");
+  });
+});
+
+Deno.test("hooks - changes made by beforeInsert are validated", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const users = await collection(db, "users", userSchema);
+
+    users.hook("beforeInsert", ({ document }) => {
+      document.email = undefined as unknown as string;
+    });
+
+    await assertRejects(() => users.insertOne({ name: "John", email: "john@example.com" }));
+    await assertRejects(() => users.insertMany([{ name: "Jane", email: "jane@example.com" }]));
+    assertEquals(await users.countDocuments({}), 0);
+  });
+});
+
+Deno.test("hooks - a throwing before hook aborts the write", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const users = await collection(db, "users", userSchema);
+    const id = await users.insertOne({ name: "John", email: "john@example.com" });
+
+    users.hook("beforeUpdate", () => {
+      throw new Error("Read only");
+    });
+    users.hook("beforeDelete", () => {
+      throw new Error("Read only");
+    });
+
+    await assertRejects(() => users.updateOne({ _id: id }, { $set: { name: "Jack" } }), Error, "Read only");
+    await assertRejects(() => users.deleteOne({ name: "John" }), Error, "Read only");
+    assertEquals((await users.getById(id)).name, "John");
+  });
+});
+
+Deno.test("hooks - update and delete hooks receive the filter and counts", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const users = await collection(db, "users", userSchema);
+    const id = await users.insertOne({ name: "John", email: "john@example.com" });
+    const updates: unknown[] = [];
+    const deletes: unknown[] = [];
+
+    users.hook("afterUpdate", (event) => {
+      updates.push("update" in event ? event.update : event.replacement);
+      assertEquals(event.filter, { _id: id });
+      assertEquals(event.matchedCount, 1);
+    });
+    users.hook("afterDelete", ({ filter, deletedCount }) => {
+      deletes.push({ filter, deletedCount });
+    });
+
+    await users.updateOne({ _id: id }, { $set: { name: "Jack" } });
+    await users.replaceOne({ _id: id }, { name: "Jim", email: "jim@example.com" });
+    await users.findOneAndUpdate({ _id: id }, { $set: { name: "Joe" } });
+    await users.deleteOne({ name: "Joe" });
+
+    assertEquals(updates, [
+      { $set: { name: "Jack" } },
+      { name: "Jim", email: "jim@example.com" },
+      { $set: { name: "Joe" } },
+    ]);
+    assertEquals(deletes, [{ filter: { name: "Joe" }, deletedCount: 1 }]);
+  });
+});
+
+Deno.test("hooks - hooks run inside the transaction of the operation", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const users = await collection(db, "users", userSchema);
+    const audit = await collection(db, "audit", { action: v.string() });
+
+    users.hook("afterInsert", async ({ document }, { session }) => {
+      assert(session);
+      await audit.insertOne({ action: `created ${document.name}` });
+    });
+    users.hook("beforeDelete", () => {
+      throw new Error("Deletion refused");
+    });
+
+    await assertRejects(
+      () =>
+        users.withSession(async () => {
+          await users.insertOne({ name: "John", email: "john@example.com" });
+          await users.deleteMany({ name: "John" });
+        }),
+      Error,
+      "Deletion refused",
+    );
+
+    assertEquals(await users.countDocuments({}), 0);
+    assertEquals(await audit.countDocuments({}), 0);
+  });
+});
+
+Deno.test("hooks - unsubscribe removes the hook", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const users = await collection(db, "users", userSchema);
+    let calls = 0;
+
+    const unsubscribe = users.hook("beforeInsert", () => {
+      calls++;
+    });
+    await users.insertOne({ name: "John", email: "john@example.com" });
+    unsubscribe();
+    await users.insertOne({ name: "Jane", email: "jane@example.com" });
+
+    assertEquals(calls, 1);
+  });
+});
@@ -0,0 +1,101 @@
+import * as v from "../src/schema.ts";
+import { assert, assertEquals, assertRejects } from "@std/assert";
+import { collection } from "../src/collection.ts";
+import { withDatabase } from "./+shared.ts";
+
+const userSchema = {
+  name: v.string(),
+  email: v.string(),
+};
+
+Deno.test("softDelete - deletes stamp the documents and reads skip them", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const users = await collection(db, "users", userSchema, {
+      softDelete: { field: "deletedAt" },
+    });
+    const aliceId = await users.insertOne({ name: "Alice", email: "alice@example.com" });
+    await users.insertOne({ name: "Bob", email: "bob@example.com" });
+    await users.insertOne({ name: "Carol", email: "carol@example.com" });
+
+    const deleted = await users.deleteOne({ name: "Alice" });
+    assertEquals(deleted.deletedCount, 1);
+    assertEquals((await users.deleteMany({ name: "Bob" })).deletedCount, 1);
+
+    assertEquals(await users.findOne({ name: "Alice" }), null);
+    await assertRejects(() => users.getById(aliceId));
+    assertEquals(await users.countDocuments({}), 1);
+    assertEquals((await users.find({}).toArray()).map((u) => u.name), ["Carol"]);
+
+    const page = await users.paginate({});
+    assertEquals(page.total, 1);
+    assertEquals(page.data.map((u) => u.name), ["Carol"]);
+
+    // Documents are still stored
+    assertEquals(await users.collection.countDocuments({}), 3);
+  });
+});
+
+Deno.test("softDelete - findDeleted and restore", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const users = await collection(db, "users", userSchema, {
+      softDelete: { field: "deletedAt" },
+    });
+    await users.insertOne({ name: "Alice", email: "alice@example.com" });
+    await users.deleteOne({ name: "Alice" });
+
+    const [alice] = await users.findDeleted({ name: "Alice" }).toArray();
+    assert(alice.deletedAt instanceof Date);
+
+    assertEquals(await users.restore({ name: "Alice" }), 1);
+    const restored = await users.findOne({ name: "Alice" });
+    assertEquals(restored?.deletedAt, undefined);
+    assertEquals(await users.findDeleted().toArray(), []);
+  });
+});
+
+Deno.test("softDelete - purgeDeleted removes documents past the grace period", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const users = await collection(db, "users", userSchema, {
+      softDelete: { field: "deletedAt" },
+    });
+    await users.insertOne({ name: "Alice", email: "alice@example.com" });
+    await users.insertOne({ name: "Bob", email: "bob@example.com" });
+    await users.deleteMany({ name: { $in: ["Alice", "Bob"] } });
+
+    // Nothing was deleted before yesterday
+    assertEquals(await users.purgeDeleted(new Date(Date.now() - 86_400_000)), 0);
+
+    assertEquals(await users.purgeDeleted(new Date()), 2);
+    assertEquals(await users.collection.countDocuments({}), 0);
+  });
+});
+
+Deno.test("softDelete - APIs require the option", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const users = await collection(db, "users", userSchema);
+
+    await assertRejects(() => users.restore({ name: "Alice" }));
+    await assertRejects(() => users.purgeDeleted(new Date()));
+  });
+});
+
+Deno.test("softDelete - filters on the deletion date are kept", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const users = await collection(db, "users", userSchema, {
+      softDelete: { field: "deletedAt" },
+    });
+    await users.insertOne({ name: "Alice", email: "alice@example.com" });
+    await users.insertOne({ name: "Bob", email: "bob@example.com" });
+    await users.deleteOne({ name: "Alice" });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    const cutoff = new Date();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    await users.deleteOne({ name: "Bob" });
+
+    const deletedBefore = await users.findDeleted({ deletedAt: { $lt: cutoff } }).toArray();
+    assertEquals(deletedBefore.map((u) => u.name), ["Alice"]);
+
+    // Reads still skip deleted documents whatever the filter says
+    assertEquals(await users.countDocuments({ deletedAt: { $lt: cutoff } }), 0);
+  });
+});
@@ -0,0 +1,110 @@
+import * as v from "../src/schema.ts";
+import { assertEquals, assertRejects } from "@std/assert";
+import { collection } from "../src/collection.ts";
+import { crossTenant, withTenant } from "../src/tenant.ts";
+import { withDatabase } from "./+shared.ts";
+
+const projectSchema = {
+  name: v.string(),
+};
+
+Deno.test("tenant - operations only see the documents of the current tenant", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const projects = await collection(db, "projects", projectSchema, { tenantField: "tenantId" });
+
+    await withTenant("acme", () => projects.insertOne({ name: "Website" }));
+    await withTenant("globex", () => projects.insertOne({ name: "Website" }));
+
+    await withTenant("acme", async () => {
+      const found = await projects.find({}).toArray();
+      assertEquals(found.map((project) => [project.name, project.tenantId]), [["Website", "acme"]]);
+      assertEquals(await projects.countDocuments({}), 1);
+
+      // The tenant can't be overridden from the filter
+      assertEquals(await projects.findOne({ tenantId: "globex" }), null);
+
+      await projects.updateMany({}, { $set: { name: "Acme website" } });
+      await projects.deleteMany({ name: "Website" });
+    });
+
+    const all = await crossTenant(() => projects.find({}).toArray());
+    assertEquals(
+      all.map((project) => [project.tenantId, project.name]).sort(),
+      [["acme", "Acme website"], ["globex", "Website"]],
+    );
+  });
+});
+
+Deno.test("tenant - operations outside of a tenant context throw", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const projects = await collection(db, "projects", projectSchema, { tenantField: "tenantId" });
+
+    await assertRejects(() => projects.find({}).toArray(), Error, "outside of a tenant context");
+    await assertRejects(() => projects.insertOne({ name: "Website" }), Error, "outside of a tenant context");
+  });
+});
+
+Deno.test("tenant - writes can't move documents to another tenant", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const projects = await collection(db, "projects", projectSchema, { tenantField: "tenantId" });
+
+    await withTenant("acme", async () => {
+      await assertRejects(
+        () => projects.insertOne({ name: "Website", tenantId: "globex" }),
+        Error,
+        "another tenant",
+      );
+
+      const id = await projects.insertOne({ name: "Website" });
+      await assertRejects(
+        () => projects.updateOne({ _id: id }, { $set: { tenantId: "globex" } }),
+        Error,
+        "tenant field",
+      );
+
+      // Replacements keep the tenant
+      await projects.replaceOne({ _id: id }, { name: "New website" });
+      assertEquals((await projects.getById(id)).tenantId, "acme");
+    });
+  });
+});
+
+Deno.test("tenant - aggregations and same-collection lookups are scoped", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const projects = await collection(db, "projects", {
+      ...projectSchema,
+      parent: v.optional(v.string()),
+    }, { tenantField: "tenantId" });
+
+    await crossTenant(async () => {
+      await projects.insertMany([
+        { name: "Root", tenantId: "acme" },
+        { name: "Root", tenantId: "globex" },
+        { name: "Child", parent: "Root", tenantId: "acme" },
+      ]);
+    });
+
+    const children = await withTenant("acme", () =>
+      projects.aggregate((stage) => [
+        stage.match({ parent: "Root" }),
+        stage.lookup("parent", "name", "parents"),
+      ])
+    );
+
+    assertEquals(children.length, 1);
+    assertEquals(children[0].parents.length, 1);
+  });
+});
+
+Deno.test("tenant - the tenant field is part of the validated schema", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const projects = await collection(db, "projects", projectSchema, {
+      tenantField: "tenantId",
+      validateFilters: true,
+    });
+    await withTenant("acme", () => projects.insertOne({ name: "Website" }));
+
+    const found = await crossTenant(() => projects.find({ tenantId: "acme" }).toArray());
+    assertEquals(found.map((project) => [project.name, project.tenantId]), [["Website", "acme"]]);
+  });
+});
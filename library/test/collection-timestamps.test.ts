@@ -0,0 +1,89 @@
+import * as v from "../src/schema.ts";
+import { assert, assertEquals } from "@std/assert";
+import { collection } from "../src/collection.ts";
+import { withDatabase } from "./+shared.ts";
+
+const postSchema = {
+  title: v.string(),
+  views: v.number(),
+};
+
+Deno.test("timestamps - inserts stamp both dates", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const posts = await collection(db, "posts", postSchema, { timestamps: true });
+
+    const id = await posts.insertOne({ title: "Hello", views: 0 });
+    const post = await posts.getById(id);
+    assert(post.createdAt instanceof Date);
+    assertEquals(post.updatedAt, post.createdAt);
+  });
+});
+
+Deno.test("timestamps - every update path refreshes updatedAt", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const posts = await collection(db, "posts", postSchema, { timestamps: true });
+    const id = await posts.insertOne({ title: "Hello", views: 0 });
+    const { createdAt } = await posts.getById(id);
+
+    const updatedSince = async (since: Date | undefined) => {
+      const post = await posts.getById(id);
+      assertEquals(post.createdAt, createdAt);
+      assert(post.updatedAt! > since!);
+      return post.updatedAt;
+    };
+
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await posts.updateOne({ _id: id }, { $inc: { views: 1 } });
+    let updatedAt = await updatedSince(createdAt);
+
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await posts.updateMany({ title: "Hello" }, { $inc: { views: 1 } });
+    updatedAt = await updatedSince(updatedAt);
+
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await posts.findOneAndUpdate({ _id: id }, { $inc: { views: 1 } });
+    updatedAt = await updatedSince(updatedAt);
+
+    // Replacing keeps the creation date
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await posts.replaceOne({ _id: id }, { title: "Replaced", views: 0 });
+    await updatedSince(updatedAt);
+  });
+});
+
+Deno.test("timestamps - upserts stamp createdAt on insert only", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const posts = await collection(db, "posts", postSchema, {
+      timestamps: { createdAt: "created", updatedAt: "modified" },
+    });
+
+    await posts.upsertOne({ title: "Hello" }, { $set: { views: 1 } });
+    const inserted = await posts.findOne({ title: "Hello" });
+    assert(inserted?.created instanceof Date);
+    assert(inserted?.modified instanceof Date);
+
+    await posts.upsertOne({ title: "Hello" }, { $set: { views: 2 } });
+    const updated = await posts.findOne({ title: "Hello" });
+    assertEquals(updated?.created, inserted.created);
+  });
+});
+
+Deno.test("timestamps - updates can set the dates themselves", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const posts = await collection(db, "posts", postSchema, { timestamps: true });
+    const backdated = new Date("2020-01-01T00:00:00Z");
+
+    await posts.upsertOne(
+      { title: "Imported" },
+      { $set: { views: 0, createdAt: backdated, updatedAt: backdated } },
+    );
+    const imported = await posts.findOne({ title: "Imported" });
+    assertEquals(imported?.createdAt, backdated);
+    assertEquals(imported?.updatedAt, backdated);
+
+    await posts.updateOne({ title: "Imported" }, { $unset: { createdAt: "" } });
+    const unset = await posts.findOne({ title: "Imported" });
+    assertEquals(unset?.createdAt, undefined);
+    assert(unset!.updatedAt! > backdated);
+  });
+});
@@ -0,0 +1,113 @@
+import * as v from "../src/schema.ts";
+import { assertEquals, assertRejects } from "@std/assert";
+import { collection } from "../src/collection.ts";
+import { withDatabase } from "./+shared.ts";
+
+const userSchema = {
+  email: v.string(),
+  name: v.string(),
+  age: v.pipe(v.number(), v.minValue(0)),
+  role: v.optional(v.string(), "member"),
+  profile: v.optional(v.object({
+    bio: v.string(),
+  })),
+};
+
+Deno.test("upsertOne - inserts a document built from filter and update", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const users = await collection(db, "users", userSchema);
+
+    const result = await users.upsertOne(
+      { email: "jane@example.com" },
+      { $set: { name: "Jane" }, $setOnInsert: { age: 28 } },
+    );
+    assertEquals(result.upsertedCount, 1);
+
+    const jane = await users.findOne({ email: "jane@example.com" });
+    assertEquals(jane?.name, "Jane");
+    assertEquals(jane?.age, 28);
+    // Schema defaults are applied on insert
+    assertEquals(jane?.role, "member");
+  });
+});
+
+Deno.test("upsertOne - updates an existing document without reapplying defaults", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const users = await collection(db, "users", userSchema);
+    await users.insertOne({
+      email: "jane@example.com",
+      name: "Jane",
+      age: 28,
+      role: "admin",
+    });
+
+    const result = await users.upsertOne(
+      { email: "jane@example.com" },
+      { $set: { name: "Jane Doe" }, $setOnInsert: { age: 99 } },
+    );
+    assertEquals(result.upsertedCount, 0);
+    assertEquals(result.modifiedCount, 1);
+
+    const jane = await users.findOne({ email: "jane@example.com" });
+    assertEquals(jane?.name, "Jane Doe");
+    assertEquals(jane?.age, 28);
+    assertEquals(jane?.role, "admin");
+  });
+});
+
+Deno.test("upsertOne - rejects documents that would be invalid once inserted", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const users = await collection(db, "users", userSchema);
+
+    // Missing required "age"
+    await assertRejects(() =>
+      users.upsertOne({ email: "jane@example.com" }, { $set: { name: "Jane" } })
+    );
+    // Invalid value coming from the filter
+    await assertRejects(() =>
+      users.upsertOne(
+        { email: "jane@example.com", age: -1 },
+        { $set: { name: "Jane" } },
+      )
+    );
+
+    assertEquals(await users.countDocuments({}), 0);
+  });
+});
+
+Deno.test("upsertOne - $eq, $and and nested paths seed the inserted document", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const users = await collection(db, "users", userSchema);
+
+    await users.upsertOne(
+      { $and: [{ email: { $eq: "jane@example.com" } }, { age: 28 }] },
+      { $set: { name: "Jane", "profile.bio": "Hello" } },
+    );
+
+    const jane = await users.findOne({ email: "jane@example.com" });
+    assertEquals(jane?.age, 28);
+    assertEquals(jane?.profile, { bio: "Hello" });
+  });
+});
+
+Deno.test("updateOne - upsert option validates the inserted document", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const users = await collection(db, "users", userSchema);
+
+    await assertRejects(() =>
+      users.updateOne(
+        { email: "jane@example.com" },
+        { $set: { name: "Jane" } },
+        { upsert: true },
+      )
+    );
+
+    await users.updateOne(
+      { email: "jane@example.com" },
+      { $set: { name: "Jane", age: 28 } },
+      { upsert: true },
+    );
+    const jane = await users.findOne({ email: "jane@example.com" });
+    assertEquals(jane?.role, "member");
+  });
+});
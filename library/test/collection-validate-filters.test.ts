@@ -0,0 +1,113 @@
+import * as v from "../src/schema.ts";
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import { collection } from "../src/collection.ts";
+import { createFilterValidator } from "../src/filter-validation.ts";
+import { multiCollection } from "../src/multi-collection.ts";
+import { withDatabase } from "./+shared.ts";
+
+const userSchema = {
+  name: v.string(),
+  age: v.number(),
+  address: v.optional(v.object({ city: v.string() })),
+  tags: v.array(v.string()),
+  items: v.array(v.object({ sku: v.string(), quantity: v.number() })),
+};
+
+Deno.test("validateFilters: accepts filters matching the schema", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const users = await collection(db, "users", userSchema, { validateFilters: true });
+    await users.insertOne({
+      name: "John",
+      age: 30,
+      address: { city: "Paris" },
+      tags: ["admin"],
+      items: [{ sku: "A1", quantity: 2 }],
+    });
+
+    const filters: Parameters<typeof users.countDocuments>[0][] = [
+      { age: 30 },
+      { age: { $in: [30, 31] }, name: { $regex: /^jo/i } },
+      { "address.city": "Paris" },
+      { tags: "admin" },
+      { "items.sku": "A1", "items.0.quantity": { $gt: 1 } },
+      { $or: [{ age: { $ne: 18 } }, { address: { $exists: false } }] },
+    ];
+    for (const filter of filters) {
+      assertEquals(await users.countDocuments(filter), 1);
+    }
+  });
+});
+
+Deno.test("validateFilters: rejects type mismatches and unknown paths", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const users = await collection(db, "users", userSchema, { validateFilters: true });
+
+    assertThrows(() => users.find({ age: "30" } as never), Error, 'Invalid value for "age" in filter');
+    assertThrows(() => users.find({ age: { $in: [30, "31"] } } as never), Error, 'Invalid value for "age"');
+    await assertRejects(
+      () => users.findOne({ "address.cty": "Paris" } as never),
+      Error,
+      'Unknown path "address.cty" in filter',
+    );
+    await assertRejects(
+      () => users.updateOne({ $and: [{ "items.sku": 1 }] } as never, { $set: { age: 31 } }),
+      Error,
+      'Invalid value for "items.sku"',
+    );
+    await assertRejects(() => users.deleteMany({ tags: 1 } as never), Error, 'Invalid value for "tags"');
+  });
+});
+
+Deno.test("validateFilters: record keys and sub-paths of any values are accepted", () => {
+  const checkFilter = createFilterValidator(v.object({
+    meta: v.record(v.string(), v.string()),
+    stock: v.record(v.string(), v.object({ quantity: v.number() })),
+    extra: v.any(),
+    raw: v.optional(v.unknown()),
+  }));
+
+  checkFilter({ "meta.color": "red", "stock.A1.quantity": { $gt: 0 } });
+  checkFilter({ "extra.source": 1, "raw.nested.path": { $exists: true } });
+  assertThrows(() => checkFilter({ "meta.color": 1 }), Error, 'Invalid value for "meta.color"');
+  assertThrows(() => checkFilter({ "stock.A1.quantity": "2" }), Error, 'Invalid value for "stock.A1.quantity"');
+  // The key schema is not a value of the record
+  assertThrows(() => checkFilter({ meta: "red" }), Error, 'Invalid value for "meta"');
+  assertThrows(() => checkFilter({ "metas.color": "red" }), Error, 'Unknown path "metas.color"');
+});
+
+Deno.test("validateFilters: filters are not checked by default", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const users = await collection(db, "users", userSchema);
+
+    assertEquals(await users.find({ age: "30" } as never).toArray(), []);
+  });
+});
+
+Deno.test("validateFilters: multi-collection filters are checked against their element type", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const catalog = await multiCollection(db, "catalog", {
+      product: { name: v.string(), price: v.number() },
+      category: { name: v.string() },
+    }, { validateFilters: true });
+    await catalog.insertOne("product", { name: "Phone", price: 500 });
+
+    assertEquals((await catalog.find("product", { price: { $gte: 100 } })).length, 1);
+    await assertRejects(
+      () => catalog.find("product", { price: "500" } as never),
+      Error,
+      'Invalid value for "price" in filter',
+    );
+    await assertRejects(
+      () => catalog.find("category", { price: 500 } as never),
+      Error,
+      'Unknown path "price" in filter',
+    );
+
+    const [phone] = await catalog.find("product");
+    await assertRejects(
+      () => catalog.findOneAndUpdate("product", phone._id, { price: 450 }, { filter: { price: "500" } as never }),
+      Error,
+      'Invalid value for "price" in filter',
+    );
+  });
+});
@@ -0,0 +1,158 @@
+import * as v from "../src/schema.ts";
+import { assertEquals, assertRejects } from "@std/assert";
+import { collection } from "../src/collection.ts";
+import { VersionConflictError } from "../src/versioning.ts";
+import { withDatabase } from "./+shared.ts";
+
+const noteSchema = {
+  title: v.string(),
+  body: v.string(),
+};
+
+Deno.test("versioning - insert starts at 0 and updates increment", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const notes = await collection(db, "notes", noteSchema, {
+      versioning: { field: "_v" },
+    });
+
+    const id = await notes.insertOne({ title: "Draft", body: "" });
+    assertEquals((await notes.getById(id))._v, 0);
+
+    await notes.updateOne({ _id: id }, { $set: { body: "Hello" } });
+    await notes.updateMany({ title: "Draft" }, { $set: { body: "Hello!" } });
+    assertEquals((await notes.getById(id))._v, 2);
+
+    await notes.replaceOne({ _id: id }, { title: "Final", body: "Done" });
+    const note = await notes.getById(id);
+    assertEquals(note.title, "Final");
+    assertEquals(note._v, 3);
+  });
+});
+
+Deno.test("versioning - expectedVersion rejects stale writes", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const notes = await collection(db, "notes", noteSchema, {
+      versioning: { field: "_v" },
+    });
+    const id = await notes.insertOne({ title: "Draft", body: "" });
+
+    // Two editors read version 0
+    const result = await notes.updateOne(
+      { _id: id },
+      { $set: { body: "First" } },
+      { expectedVersion: 0 },
+    );
+    assertEquals(result.modifiedCount, 1);
+
+    const error = await assertRejects(
+      () =>
+        notes.updateOne(
+          { _id: id },
+          { $set: { body: "Second" } },
+          { expectedVersion: 0 },
+        ),
+      VersionConflictError,
+    );
+    assertEquals(error.expectedVersion, 0);
+
+    await assertRejects(
+      () =>
+        notes.replaceOne(
+          { _id: id },
+          { title: "Draft", body: "Second" },
+          { expectedVersion: 0 },
+        ),
+      VersionConflictError,
+    );
+
+    const note = await notes.getById(id);
+    assertEquals(note.body, "First");
+    assertEquals(note._v, 1);
+  });
+});
+
+Deno.test("versioning - missing documents are not conflicts", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const notes = await collection(db, "notes", noteSchema, {
+      versioning: { field: "_v" },
+    });
+
+    const result = await notes.updateOne(
+      { title: "Unknown" },
+      { $set: { body: "Hello" } },
+      { expectedVersion: 0 },
+    );
+    assertEquals(result.matchedCount, 0);
+  });
+});
+
+Deno.test("versioning - expectedVersion requires the option", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const notes = await collection(db, "notes", noteSchema);
+    const id = await notes.insertOne({ title: "Draft", body: "" });
+
+    await assertRejects(() =>
+      notes.updateOne(
+        { _id: id },
+        { $set: { body: "Hello" } },
+        { expectedVersion: 0 },
+      )
+    );
+  });
+});
+
+Deno.test("versioning - upserted documents start at 0", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const notes = await collection(db, "notes", noteSchema, {
+      versioning: { field: "_v" },
+    });
+
+    await notes.updateOne(
+      { title: "Draft" },
+      { $set: { body: "" } },
+      { upsert: true },
+    );
+    const inserted = await notes.findOne({ title: "Draft" });
+    assertEquals(inserted?._v, 0);
+
+    // An existing document is still incremented
+    await notes.upsertOne({ title: "Draft" }, { $set: { body: "Hello" } });
+    assertEquals((await notes.findOne({ title: "Draft" }))?._v, 1);
+
+    const replaced = await notes.findOneAndReplace(
+      { title: "Other" },
+      { title: "Other", body: "" },
+      { upsert: true },
+    );
+    assertEquals(replaced?._v, 0);
+
+    await notes.bulkWrite([
+      { updateOne: { filter: { title: "Draft" }, update: { $set: { body: "Bulk" } }, upsert: true } },
+      { updateOne: { filter: { title: "Bulk" }, update: { $setOnInsert: { body: "" } }, upsert: true } },
+    ]);
+    assertEquals((await notes.findOne({ title: "Draft" }))?._v, 2);
+    assertEquals((await notes.findOne({ title: "Bulk" }))?._v, 0);
+  });
+});
+
+Deno.test("versioning - expectedVersion can't be combined with upsert", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const notes = await collection(db, "notes", noteSchema, {
+      versioning: { field: "_v" },
+    });
+    const id = await notes.insertOne({ title: "Draft", body: "" });
+    await notes.updateOne({ _id: id }, { $set: { body: "First" } });
+
+    await assertRejects(
+      () =>
+        notes.updateOne(
+          { _id: id },
+          { $set: { body: "Second" } },
+          { expectedVersion: 0, upsert: true },
+        ),
+      Error,
+      "expectedVersion cannot be combined with upsert",
+    );
+    assertEquals(await notes.countDocuments(), 1);
+  });
+});
@@ -0,0 +1,144 @@
+import * as v from "../src/schema.ts";
+import { assertEquals, assertThrows } from "@std/assert";
+import { collection } from "../src/collection.ts";
+import { withDatabase } from "./+shared.ts";
+
+const userSchema = {
+  name: v.string(),
+  email: v.string(),
+  role: v.picklist(["admin", "member"]),
+};
+
+// Change streams are opened by the first listener and might miss writes
+// made right after
+const streamReady = () => new Promise((resolve) => setTimeout(resolve, 500));
+const eventsProcessed = () => new Promise((resolve) => setTimeout(resolve, 1000));
+
+Deno.test("watch: filter only delivers the matching events", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const users = await collection(db, "users", userSchema);
+
+    const inserted: string[] = [];
+    const unsubscribe = users.on("insert", (event) => {
+      inserted.push(event.fullDocument.name);
+    }, { filter: { role: "admin" } });
+    await streamReady();
+
+    await users.insertOne({ name: "Alice", email: "alice@example.com", role: "admin" });
+    await users.insertOne({ name: "Bob", email: "bob@example.com", role: "member" });
+    await eventsProcessed();
+
+    assertEquals(inserted, ["Alice"]);
+    unsubscribe();
+  });
+});
+
+Deno.test("watch: fields project the event documents", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const users = await collection(db, "users", userSchema);
+
+    const documents: unknown[] = [];
+    const unsubscribe = users.on("insert", (event) => {
+      // Compile-time check: only the projected fields remain
+      const document: { email: string } = event.fullDocument;
+      documents.push({ email: document.email, name: (document as { name?: string }).name });
+    }, { fields: ["email"] });
+    await streamReady();
+
+    await users.insertOne({ name: "Alice", email: "alice@example.com", role: "admin" });
+    await eventsProcessed();
+
+    assertEquals(documents, [{ email: "alice@example.com", name: undefined }]);
+    unsubscribe();
+  });
+});
+
+Deno.test("watch: filtered updates use the looked up document", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const users = await collection(db, "users", userSchema);
+    const aliceId = await users.insertOne({ name: "Alice", email: "alice@example.com", role: "member" });
+    const bobId = await users.insertOne({ name: "Bob", email: "bob@example.com", role: "member" });
+
+    const promoted: string[] = [];
+    const unsubscribe = users.on("update", (event) => {
+      promoted.push(event.fullDocument!.name);
+    }, { filter: { role: "admin" }, fullDocument: "updateLookup" });
+    await streamReady();
+
+    await users.updateOne({ _id: aliceId }, { $set: { role: "admin" } });
+    await users.updateOne({ _id: bobId }, { $set: { email: "bob@example.org" } });
+    await eventsProcessed();
+
+    assertEquals(promoted, ["Alice"]);
+    unsubscribe();
+  });
+});
+
+Deno.test("watch: identical options share the change stream", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const users = await collection(db, "users", userSchema);
+
+    const received: string[] = [];
+    const options = { filter: { email: /@example\.com$/ } };
+    const unsubscribeFirst = users.on("insert", (event) => {
+      received.push(`first ${event.fullDocument.name}`);
+    }, options);
+    const unsubscribeSecond = users.on("insert", (event) => {
+      received.push(`second ${event.fullDocument.name}`);
+    }, { filter: { email: /@example\.com$/ } });
+    await streamReady();
+
+    await users.insertOne({ name: "Alice", email: "alice@example.com", role: "admin" });
+    await users.insertOne({ name: "Bob", email: "bob@example.org", role: "member" });
+    await eventsProcessed();
+
+    unsubscribeFirst();
+    await users.insertOne({ name: "Carol", email: "carol@example.com", role: "member" });
+    await eventsProcessed();
+
+    assertEquals(received, ["first Alice", "second Alice", "second Carol"]);
+    unsubscribeSecond();
+  });
+});
+
+Deno.test("watch: invalid documents are skipped", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const users = await collection(db, "users", userSchema, { schemaManagement: "managed" });
+
+    const inserted: string[] = [];
+    const unsubscribe = users.on("insert", (event) => {
+      inserted.push(event.fullDocument.name);
+    }, { filter: {} });
+    await streamReady();
+
+    // Written around the validation of the collection
+    await users.collection.insertOne({ name: "Invalid", email: "invalid@example.com", role: "owner" } as never);
+    await users.insertOne({ name: "Alice", email: "alice@example.com", role: "admin" });
+    await eventsProcessed();
+
+    assertEquals(inserted, ["Alice"]);
+    unsubscribe();
+  });
+});
+
+Deno.test("watch: unsupported filters throw", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const users = await collection(db, "users", userSchema);
+
+    assertThrows(
+      () => users.on("delete", () => {}, { filter: { role: "admin" } }),
+      Error,
+      "Delete events can't be filtered",
+    );
+    assertThrows(
+      () => users.on("update", () => {}, { filter: { role: "admin" } }),
+      Error,
+      "requires the fullDocument option",
+    );
+    assertThrows(
+      () => users.on("insert", () => {}, { filter: { $expr: { $eq: ["$role", "admin"] } } }),
+      Error,
+      "Operator $expr is not supported",
+    );
+  });
+});
@@ -0,0 +1,95 @@
+import * as v from "../src/schema.ts";
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import { collection } from "../src/collection.ts";
+import { where } from "../src/where.ts";
+import { withDatabase } from "./+shared.ts";
+
+const userSchema = {
+  name: v.string(),
+  age: v.number(),
+  address: v.optional(v.object({
+    city: v.string(),
+    zipCode: v.pipe(v.string(), v.regex(/^\d{5}$/)),
+  })),
+  tags: v.array(v.string()),
+};
+
+Deno.test("where: builds filters from dot notation paths", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const users = await collection(db, "users", userSchema);
+    await users.insertOne({ name: "John", age: 30, address: { city: "Paris", zipCode: "75001" }, tags: ["admin"] });
+    await users.insertOne({ name: "Jane", age: 17, address: { city: "Paris", zipCode: "75002" }, tags: [] });
+    await users.insertOne({ name: "Jack", age: 45, tags: ["admin", "billing"] });
+
+    const parisianAdults = users.where()
+      .eq("address.city", "Paris")
+      .gte("age", 18)
+      .build();
+    assertEquals((await users.find(parisianAdults).toArray()).map((user) => user.name), ["John"]);
+
+    const admins = users.where()
+      .contains("tags", "admin")
+      .or(users.where().regex("name", /^jo/i), users.where().exists("address", false))
+      .build();
+    assertEquals((await users.find(admins).toArray()).map((user) => user.name), ["John", "Jack"]);
+
+    assertEquals(users.where().in("age", [17, 45]).lt("age", 40).build(), {
+      $and: [{ age: { $in: [17, 45] } }, { age: { $lt: 40 } }],
+    });
+  });
+});
+
+Deno.test("where: rejects unknown paths and invalid values", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const users = await collection(db, "users", userSchema);
+
+    assertThrows(
+      () => users.where().eq("address.cty" as "address.city", "Paris"),
+      Error,
+      'Unknown path "address.cty"',
+    );
+    assertThrows(
+      () => users.where().eq("address.zipCode", "750"),
+      Error,
+      'Invalid value for "address.zipCode"',
+    );
+    assertThrows(
+      () => users.where().all("tags", ["admin", 1 as unknown as string]),
+      Error,
+      'Invalid value for "tags.$[]"',
+    );
+  });
+});
+
+Deno.test("where: operators are restricted by the type of the field", () => {
+  const builder = where(v.object(userSchema));
+
+  // @ts-expect-error regex only applies to string fields
+  builder.regex("age", /^1/);
+  // @ts-expect-error gt only applies to number and date fields
+  builder.gt("name", "John");
+
+  assertEquals(builder.regex("address.city", /^Pa/).gt("age", 18).build(), {
+    $and: [{ "address.city": { $regex: /^Pa/ } }, { age: { $gt: 18 } }],
+  });
+});
+
+Deno.test("where: or and nor require at least one builder", () => {
+  const builder = where(v.object(userSchema));
+
+  assertThrows(() => builder.or(), Error, "$or requires at least one condition");
+  assertThrows(() => builder.nor(), Error, "$nor requires at least one condition");
+});
+
+Deno.test("where: nested fields of optional objects are validated in updates", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const users = await collection(db, "users", userSchema);
+    const id = await users.insertOne({ name: "John", age: 30, address: { city: "Paris", zipCode: "75001" }, tags: [] });
+
+    await users.updateOne({ _id: id }, { $set: { "address.city": "Lyon" } });
+    await assertRejects(() => users.updateOne({ _id: id }, { $set: { "address.zipCode": "690" } }));
+
+    const user = await users.findOne({ _id: id });
+    assertEquals(user?.address, { city: "Lyon", zipCode: "75001" });
+  });
+});
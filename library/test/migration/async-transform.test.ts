@@ -0,0 +1,106 @@
+/**
+ * Tests for asynchronous transforms reading the database
+ */
+
+import * as v from "../../src/schema.ts";
+import { assertEquals } from "@std/assert";
+import { migrationDefinition } from "../../src/migration/definition.ts";
+import { migrationBuilder } from "../../src/migration/builder.ts";
+import { createMemoryApplier } from "../../src/migration/appliers/memory.ts";
+import { createMongodbApplier } from "../../src/migration/appliers/mongodb.ts";
+import { validateMigrationWithSimulation } from "../../src/migration/validators/simulation.ts";
+import { createEmptyDatabaseState, type TransformContext } from "../../src/migration/types.ts";
+import { withDatabase } from "../+shared.ts";
+
+const initial = migrationDefinition("2024_01_01_0000_A@initial", "initial", {
+  parent: null,
+  schemas: {
+    collections: {
+      countries: { _id: v.string(), name: v.string() },
+      users: { _id: v.string(), countryCode: v.string() },
+    },
+  },
+  migrate: (migration) => migration.createCollection("countries").end().createCollection("users").end().compile(),
+});
+
+const batches: TransformContext["batch"][] = [];
+
+const backfill = migrationDefinition("2024_01_02_0000_B@country-name", "country name", {
+  parent: initial,
+  schemas: {
+    collections: {
+      countries: { _id: v.string(), name: v.string() },
+      users: { _id: v.string(), countryCode: v.string(), countryName: v.string() },
+    },
+  },
+  migrate: (migration) =>
+    migration.collection("users").transform({
+      up: async (doc, { db, batch }) => {
+        batches.push(batch);
+        const country = await db.collection("countries").findOne({ _id: doc.countryCode });
+        return { ...doc, countryName: (country?.name as string | undefined) ?? "Unknown" };
+      },
+      down: ({ countryName: _countryName, ...doc }) => Promise.resolve(doc),
+    }).end().compile(),
+});
+
+function operations() {
+  return backfill.migrate(migrationBuilder({ schemas: backfill.schemas })).operations;
+}
+
+Deno.test("async transform: the memory applier reads the simulated state", async () => {
+  batches.length = 0;
+  const state = createEmptyDatabaseState();
+  state.collections.countries = { content: [{ _id: "fr", name: "France" }] };
+  state.collections.users = { content: [{ _id: "u1", countryCode: "fr" }, { _id: "u2", countryCode: "xx" }] };
+
+  const applier = createMemoryApplier(backfill);
+  const applied = await applier.applyMigration(state, operations(), "up");
+
+  assertEquals(applied.collections.users.content, [
+    { _id: "u1", countryCode: "fr", countryName: "France" },
+    { _id: "u2", countryCode: "xx", countryName: "Unknown" },
+  ]);
+  assertEquals(batches[0], { collectionName: "users", index: 0, size: 2 });
+
+  const reverted = await applier.applyMigration(applied, [...operations()].reverse(), "down");
+  assertEquals(reverted.collections.users.content, [
+    { _id: "u1", countryCode: "fr" },
+    { _id: "u2", countryCode: "xx" },
+  ]);
+});
+
+Deno.test("async transform: simulations support async transforms", async () => {
+  const result = await validateMigrationWithSimulation(backfill);
+
+  assertEquals(result.errors, []);
+  assertEquals(result.success, true);
+});
+
+Deno.test("async transform: the mongodb applier reads the database in batches", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    batches.length = 0;
+    await db.collection("countries").insertMany([
+      { _id: "fr" as never, name: "France" },
+      { _id: "it" as never, name: "Italy" },
+    ]);
+    await db.collection("users").insertMany([
+      { _id: "u1" as never, countryCode: "fr" },
+      { _id: "u2" as never, countryCode: "it" },
+      { _id: "u3" as never, countryCode: "fr" },
+    ]);
+
+    const applier = createMongodbApplier(db, backfill, { batchSize: 2 });
+    for (const operation of operations()) {
+      await applier.applyOperation(operation);
+    }
+
+    const users = await db.collection("users").find({}, { sort: { _id: 1 } }).toArray();
+    assertEquals(users.map((user) => user.countryName), ["France", "Italy", "France"]);
+    assertEquals(batches.map(({ index, size }) => ({ index, size })), [
+      { index: 0, size: 2 },
+      { index: 0, size: 2 },
+      { index: 1, size: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Tests for migration checksums and modified migration detection
+ */
+
+import * as v from "../../src/schema.ts";
+import { assertEquals, assertNotEquals } from "@std/assert";
+import { migrationDefinition } from "../../src/migration/definition.ts";
+import {
+  acceptMigrationChanges,
+  computeMigrationChecksum,
+  findModifiedMigrations,
+} from "../../src/migration/checksum.ts";
+import { markMigrationAsApplied, markMigrationAsReverted } from "../../src/migration/state.ts";
+import { getMigrationHistory } from "../../src/migration/history.ts";
+import { withDatabase } from "../+shared.ts";
+
+function usersMigration(options: { minNameLength?: number; defaultRole?: string } = {}) {
+  return migrationDefinition("2024_01_01_0000_A@users", "users", {
+    parent: null,
+    schemas: {
+      collections: {
+        users: {
+          _id: v.string(),
+          name: v.pipe(v.string(), v.minLength(options.minNameLength ?? 1)),
+          role: v.string(),
+          createdAt: v.date(),
+        },
+      },
+    },
+    migrate: (migration) =>
+      migration
+        .createCollection("users")
+        .seed([{ _id: "admin", name: "Admin", role: options.defaultRole ?? "admin", createdAt: new Date() }])
+        .end()
+        .compile(),
+  });
+}
+
+Deno.test("checksum: stable across loads, sensitive to schemas and operations", () => {
+  const checksum = computeMigrationChecksum(usersMigration());
+
+  assertEquals(computeMigrationChecksum(usersMigration()), checksum);
+  assertNotEquals(computeMigrationChecksum(usersMigration({ minNameLength: 2 })), checksum);
+  assertNotEquals(computeMigrationChecksum(usersMigration({ defaultRole: "owner" })), checksum);
+});
+
+Deno.test("checksum: modified applied migrations are detected until accepted", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const original = usersMigration();
+    await markMigrationAsApplied(db, original.id, original.name, 10, computeMigrationChecksum(original));
+
+    assertEquals(await findModifiedMigrations(db, [original]), []);
+
+    const edited = usersMigration({ defaultRole: "owner" });
+    const modified = await findModifiedMigrations(db, [edited]);
+    assertEquals(modified.map(({ migration }) => migration.id), [edited.id]);
+    assertEquals(modified[0].appliedChecksum, computeMigrationChecksum(original));
+
+    await acceptMigrationChanges(db, modified);
+    assertEquals(await findModifiedMigrations(db, [edited]), []);
+
+    const [applied] = await getMigrationHistory(db, edited.id);
+    assertEquals(applied.checksum, computeMigrationChecksum(edited));
+    assertEquals(applied.acceptedChanges?.map((change) => change.checksum), [computeMigrationChecksum(original)]);
+  });
+});
+
+Deno.test("checksum: reverted and legacy migrations are not reported", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const original = usersMigration();
+    const edited = usersMigration({ minNameLength: 2 });
+
+    // Applied before checksums were recorded
+    await markMigrationAsApplied(db, original.id, original.name);
+    assertEquals(await findModifiedMigrations(db, [edited]), []);
+
+    await markMigrationAsApplied(db, original.id, original.name, 10, computeMigrationChecksum(original));
+    await markMigrationAsReverted(db, original.id);
+    assertEquals(await findModifiedMigrations(db, [edited]), []);
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Tests for the distributed migration lock
+ */
+
+import { assert, assertEquals, assertRejects } from "@std/assert";
+import {
+  acquireMigrationLock,
+  forceReleaseMigrationLock,
+  getMigrationLock,
+  MIGRATION_LOCK_COLLECTION,
+  MigrationLockError,
+  MigrationLockLostError,
+  withMigrationLock,
+} from "../../src/migration/lock.ts";
+import { withDatabase } from "../+shared.ts";
+
+Deno.test("migration lock: a held lock rejects other owners until released", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const lock = await acquireMigrationLock(db, { owner: "pod-a", command: "migrate" });
+
+    const error = await assertRejects(
+      () => acquireMigrationLock(db, { owner: "pod-b" }),
+      MigrationLockError,
+      'Migrations are locked by "pod-a" (migrate)',
+    );
+    assertEquals(error.lock.owner, "pod-a");
+    assertEquals((await getMigrationLock(db))?.command, "migrate");
+
+    await lock.release();
+    assertEquals(await getMigrationLock(db), null);
+
+    const other = await acquireMigrationLock(db, { owner: "pod-b" });
+    await other.release();
+  });
+});
+
+Deno.test("migration lock: an expired lock is taken over", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    // Lock of a crashed process
+    await db.collection(MIGRATION_LOCK_COLLECTION).insertOne({
+      _id: "migration" as never,
+      owner: "crashed",
+      acquiredAt: new Date(Date.now() - 120_000),
+      heartbeatAt: new Date(Date.now() - 120_000),
+      expiresAt: new Date(Date.now() - 60_000),
+    });
+
+    const lock = await acquireMigrationLock(db, { owner: "pod-a" });
+    assertEquals((await getMigrationLock(db))?.owner, "pod-a");
+
+    await lock.release();
+    assertEquals(await getMigrationLock(db), null);
+  });
+});
+
+Deno.test("migration lock: the heartbeat extends the lease", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const lock = await acquireMigrationLock(db, { owner: "pod-a", ttl: 300, heartbeatInterval: 50 });
+    try {
+      const { expiresAt: initialExpiry } = (await getMigrationLock(db))!;
+      await new Promise((resolve) => setTimeout(resolve, 500));
+
+      const current = await getMigrationLock(db);
+      assert(current!.expiresAt > initialExpiry);
+      await assertRejects(() => acquireMigrationLock(db, { owner: "pod-b" }), MigrationLockError);
+    } finally {
+      await lock.release();
+    }
+  });
+});
+
+Deno.test("migration lock: withMigrationLock releases on failure and force release removes any lock", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    await assertRejects(
+      () => withMigrationLock(db, () => Promise.reject(new Error("boom"))),
+      Error,
+      "boom",
+    );
+    assertEquals(await getMigrationLock(db), null);
+
+    const lock = await acquireMigrationLock(db, { owner: "pod-a" });
+    assertEquals((await forceReleaseMigrationLock(db))?.owner, "pod-a");
+    assertEquals(await getMigrationLock(db), null);
+
+    // The previous holder doesn't release the lock of the next one
+    const next = await acquireMigrationLock(db, { owner: "pod-b" });
+    await lock.release();
+    assertEquals((await getMigrationLock(db))?.owner, "pod-b");
+    await next.release();
+  });
+});
+
+Deno.test("migration lock: losing the lease aborts the signal of the holder", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    await assertRejects(
+      () =>
+        withMigrationLock(db, async (signal) => {
+          await forceReleaseMigrationLock(db);
+          const next = await acquireMigrationLock(db, { owner: "pod-b" });
+          await new Promise((resolve) => setTimeout(resolve, 200));
+
+          assert(signal.aborted);
+          assert(signal.reason instanceof MigrationLockLostError);
+          await next.release();
+        }, { owner: "pod-a", ttl: 300, heartbeatInterval: 50 }),
+      MigrationLockLostError,
+      'Migration lock of "pod-a" was released or taken over',
+    );
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Tests for migration plans to a target migration
+ */
+
+import * as v from "../../src/schema.ts";
+import { assertEquals, assertThrows } from "@std/assert";
+import { migrationDefinition } from "../../src/migration/definition.ts";
+import { planMigrateTo, planRollback } from "../../src/migration/plan.ts";
+
+const m1 = migrationDefinition("2024_01_01_0000_A@users", "users", {
+  parent: null,
+  schemas: { collections: { users: { _id: v.string(), name: v.string() } } },
+  migrate: (migration) => migration.createCollection("users").end().compile(),
+});
+
+const m2 = migrationDefinition("2024_01_02_0000_B@email", "email", {
+  parent: m1,
+  schemas: { collections: { users: { _id: v.string(), name: v.string(), email: v.string() } } },
+  migrate: (migration) =>
+    migration.collection("users").transform({
+      up: (doc) => ({ ...doc, email: "" }),
+      down: ({ email: _email, ...doc }) => doc,
+      lossy: true,
+    }).end().compile(),
+});
+
+const m3 = migrationDefinition("2024_01_03_0000_C@drop-name", "drop name", {
+  parent: m2,
+  schemas: { collections: { users: { _id: v.string(), email: v.string() } } },
+  migrate: (migration) =>
+    migration.collection("users").transform({
+      up: ({ name: _name, ...doc }) => doc,
+      down: (doc) => ({ ...doc, name: "" }),
+      irreversible: true,
+    }).end().compile(),
+});
+
+const m4 = migrationDefinition("2024_01_04_0000_D@posts", "posts", {
+  parent: m3,
+  schemas: {
+    collections: {
+      users: { _id: v.string(), email: v.string() },
+      posts: { _id: v.string(), title: v.string() },
+    },
+  },
+  migrate: (migration) => migration.createCollection("posts").end().compile(),
+});
+
+const chain = [m1, m2, m3, m4];
+const ids = (steps: ReturnType<typeof planRollback>) => steps.map((step) => step.migration.id);
+
+Deno.test("plan: migrate --to applies the pending migrations of the target path", () => {
+  assertEquals(ids(planMigrateTo(chain, [m1.id], m3.id)), [m2.id, m3.id]);
+  assertEquals(ids(planMigrateTo(chain, [m1.id, m2.id], m2.id)), []);
+
+  const [step] = planMigrateTo(chain, [m1.id, m2.id], m3.id);
+  assertEquals([step.irreversible, step.lossy], [true, false]);
+
+  assertThrows(() => planMigrateTo(chain, [m1.id, m2.id, m3.id], m2.id), Error, "use rollback --to instead");
+  assertThrows(() => planMigrateTo(chain, [], "unknown"), Error, "Migration unknown not found");
+});
+
+Deno.test("plan: rollback --to and --steps revert the latest migrations first", () => {
+  const applied = chain.map((m) => m.id);
+
+  assertEquals(ids(planRollback(chain, applied, { to: m2.id })), [m4.id, m3.id]);
+  assertEquals(ids(planRollback(chain, applied, { to: m4.id })), []);
+  assertEquals(ids(planRollback(chain, applied, { steps: 1 })), [m4.id]);
+
+  const steps = planRollback(chain, applied, { steps: 3 });
+  assertEquals(ids(steps), [m4.id, m3.id, m2.id]);
+  assertEquals(steps.map((step) => step.irreversible), [false, true, false]);
+  // Creating a collection is lossy: rolling it back drops the collection
+  assertEquals(steps.map((step) => step.lossy), [true, false, true]);
+});
+
+Deno.test("plan: rollback rejects unapplied targets and too many steps", () => {
+  assertThrows(() => planRollback(chain, [m1.id, m2.id], { to: m3.id }), Error, `Migration ${m3.id} is not applied`);
+  assertThrows(() => planRollback(chain, [m1.id], { steps: 2 }), Error, "only 1 applied");
+  assertThrows(() => planRollback(chain, [m1.id], { steps: 0 }), Error, "Invalid number of steps");
+});
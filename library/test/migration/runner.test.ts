@@ -0,0 +1,100 @@
+/**
+ * Tests for the programmatic migration runner
+ */
+
+import * as v from "../../src/schema.ts";
+import { assertEquals, assertRejects } from "@std/assert";
+import { migrationDefinition } from "../../src/migration/definition.ts";
+import { runMigrations } from "../../src/migration/runner.ts";
+import { getAppliedMigrationIds } from "../../src/migration/state.ts";
+import {
+  acquireMigrationLock,
+  forceReleaseMigrationLock,
+  getMigrationLock,
+  MigrationLockError,
+  MigrationLockLostError,
+} from "../../src/migration/lock.ts";
+import { withDatabase } from "../+shared.ts";
+
+const initial = migrationDefinition("2024_01_01_0000_A@initial", "initial", {
+  parent: null,
+  schemas: {
+    collections: {
+      users: { _id: v.string(), name: v.string() },
+    },
+  },
+  migrate: (migration) => migration.createCollection("users").end().compile(),
+});
+
+let onTransform: (() => Promise<void>) | undefined;
+
+const slug = migrationDefinition("2024_01_02_0000_B@slug", "slug", {
+  parent: initial,
+  schemas: {
+    collections: {
+      users: { _id: v.string(), name: v.string(), slug: v.string() },
+    },
+  },
+  migrate: (migration) =>
+    migration.collection("users").transform({
+      up: async (doc) => {
+        await onTransform?.();
+        return { ...doc, slug: doc.name.toLowerCase() };
+      },
+      down: ({ slug: _slug, ...doc }) => doc,
+    }).end().compile(),
+});
+
+const migrations = [initial, slug];
+
+Deno.test("runMigrations: applies the pending migrations once", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    onTransform = undefined;
+
+    const first = await runMigrations(db, { migrations: [initial] });
+    assertEquals(first.applied, [initial.id]);
+
+    await db.collection("users").insertOne({ _id: "u1" as never, name: "Alice" });
+    const second = await runMigrations(db, { migrations });
+    assertEquals(second.applied, [slug.id]);
+    assertEquals((await db.collection("users").findOne({ _id: "u1" as never }))?.slug, "alice");
+
+    assertEquals((await runMigrations(db, { migrations })).applied, []);
+    assertEquals(await getAppliedMigrationIds(db), [initial.id, slug.id]);
+    assertEquals(await getMigrationLock(db), null);
+  });
+});
+
+Deno.test("runMigrations: nothing is applied while another process holds the lock", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const lock = await acquireMigrationLock(db, { owner: "pod-b" });
+    try {
+      await assertRejects(() => runMigrations(db, { migrations }), MigrationLockError);
+      assertEquals(await getAppliedMigrationIds(db), []);
+    } finally {
+      await lock.release();
+    }
+  });
+});
+
+Deno.test("runMigrations: the run is aborted when the lease is lost", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    onTransform = undefined;
+    await runMigrations(db, { migrations: [initial] });
+    await db.collection("users").insertOne({ _id: "u1" as never, name: "Alice" });
+
+    // Another process takes the lock over during the transform
+    onTransform = async () => {
+      await forceReleaseMigrationLock(db);
+      await acquireMigrationLock(db, { owner: "pod-b" });
+      await new Promise((resolve) => setTimeout(resolve, 200));
+    };
+    await assertRejects(
+      () => runMigrations(db, { migrations, lock: { ttl: 300, heartbeatInterval: 50 } }),
+      MigrationLockLostError,
+    );
+
+    assertEquals(await getAppliedMigrationIds(db), [initial.id]);
+    assertEquals((await getMigrationLock(db))?.owner, "pod-b");
+  });
+});
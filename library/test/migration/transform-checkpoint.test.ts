@@ -0,0 +1,158 @@
+/**
+ * Tests for cursor-based, resumable transforms of the MongoDB applier
+ */
+
+import * as v from "../../src/schema.ts";
+import { assertEquals, assertRejects } from "@std/assert";
+import { migrationDefinition } from "../../src/migration/definition.ts";
+import { migrationBuilder } from "../../src/migration/builder.ts";
+import { createMongodbApplier } from "../../src/migration/appliers/mongodb.ts";
+import { listTransformCheckpoints, type TransformProgress } from "../../src/migration/checkpoint.ts";
+import { formatTransformProgress } from "../../src/migration/cli/utils/transform-progress.ts";
+import type { MigrationRule } from "../../src/migration/types.ts";
+import { withDatabase } from "../+shared.ts";
+
+const initial = migrationDefinition("2024_01_01_0000_A@initial", "initial", {
+  parent: null,
+  schemas: {
+    collections: {
+      users: { _id: v.string(), name: v.string() },
+    },
+  },
+  migrate: (migration) => migration.createCollection("users").end().compile(),
+});
+
+let calls: string[] = [];
+let failOn: string | undefined;
+
+const slug = migrationDefinition("2024_01_02_0000_B@slug", "slug", {
+  parent: initial,
+  schemas: {
+    collections: {
+      users: { _id: v.string(), name: v.string(), slug: v.string() },
+    },
+  },
+  migrate: (migration) =>
+    migration.collection("users").transform({
+      up: (doc) => {
+        if (doc._id === failOn) {
+          throw new Error("interrupted");
+        }
+        calls.push(doc._id);
+        return { ...doc, slug: doc.name.toLowerCase() };
+      },
+      down: ({ slug: _slug, ...doc }) => doc,
+    }).end().compile(),
+});
+
+function operations() {
+  return slug.migrate(migrationBuilder({ schemas: slug.schemas })).operations;
+}
+
+async function insertUsers(db: Parameters<Parameters<typeof withDatabase>[1]>[0]) {
+  await db.collection("users").insertMany(
+    ["u1", "u2", "u3", "u4", "u5"].map((_id) => ({ _id: _id as never, name: _id.toUpperCase() })),
+  );
+}
+
+Deno.test("transform checkpoint: an interrupted transform resumes after the last batch", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    calls = [];
+    failOn = "u4";
+    await insertUsers(db);
+
+    const interrupted = createMongodbApplier(db, slug, { batchSize: 2, currentMigrationId: slug.id });
+    await assertRejects(() => interrupted.applyMigration(operations(), "up"), Error, "interrupted");
+
+    const [checkpoint] = await listTransformCheckpoints(db, slug.id);
+    assertEquals([checkpoint.lastId, checkpoint.processed, checkpoint.completed], ["u2", 2, false]);
+
+    calls = [];
+    failOn = undefined;
+    const progress: TransformProgress[] = [];
+    const resumed = createMongodbApplier(db, slug, {
+      batchSize: 2,
+      currentMigrationId: slug.id,
+      onProgress: (report) => progress.push(report),
+    });
+    await resumed.applyMigration(operations(), "up");
+
+    // u3 was transformed by the failed batch, which was not written
+    assertEquals(calls, ["u3", "u4", "u5"]);
+    const users = await db.collection("users").find({}, { sort: { _id: 1 } }).toArray();
+    assertEquals(users.map((user) => user.slug), ["u1", "u2", "u3", "u4", "u5"]);
+
+    assertEquals(progress.map(({ processed, total, done }) => ({ processed, total, done })), [
+      { processed: 4, total: 5, done: false },
+      { processed: 5, total: 5, done: false },
+      { processed: 5, total: 5, done: true },
+    ]);
+    assertEquals(progress[0].resumedFrom, 2);
+
+    assertEquals(await listTransformCheckpoints(db, slug.id), []);
+  });
+});
+
+Deno.test("transform checkpoint: documents leaving the filter don't shift batches", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    await db.collection("items").insertMany(
+      ["a", "b", "c", "d", "e"].map((_id) => ({ _id: _id as never, _type: "draft" })),
+    );
+
+    const applier = createMongodbApplier(db, slug, { batchSize: 2 });
+    const operation: MigrationRule = {
+      type: "transform_multicollection_type",
+      collectionName: "items",
+      documentType: "draft",
+      up: (doc) => ({ ...doc, _type: "published" }),
+      down: (doc) => ({ ...doc, _type: "draft" }),
+      schema: {},
+    };
+    await applier.applyOperation(operation);
+
+    const drafts = await db.collection("items").countDocuments({ _type: "draft" });
+    assertEquals(drafts, 0);
+
+    // Without a migration ID, nothing is checkpointed
+    assertEquals(await listTransformCheckpoints(db), []);
+  });
+});
+
+Deno.test("transform checkpoint: collections mixing _id types are rejected", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    failOn = undefined;
+    await db.collection("users").insertMany([
+      { _id: "u1" as never, name: "U1" },
+      { _id: 2 as never, name: "U2" },
+      { _id: 3.5 as never, name: "U3" },
+    ]);
+
+    const applier = createMongodbApplier(db, slug, { currentMigrationId: slug.id });
+    await assertRejects(
+      () => applier.applyMigration(operations(), "up"),
+      Error,
+      "Cannot transform users: its documents mix _id types (number, string)",
+    );
+    assertEquals(await db.collection("users").countDocuments({ slug: { $exists: true } }), 0);
+  });
+});
+
+Deno.test("transform checkpoint: progress reports are formatted with throughput and ETA", () => {
+  const progress: TransformProgress = {
+    migrationId: slug.id,
+    collectionName: "users",
+    processed: 20000,
+    total: 100000,
+    resumedFrom: 0,
+    elapsedMs: 5000,
+    docsPerSecond: 4000,
+    etaMs: 20000,
+    done: false,
+  };
+
+  assertEquals(formatTransformProgress(progress), "users: 20000/100000 (20%) · 4000 docs/s · ETA 20s");
+  assertEquals(
+    formatTransformProgress({ ...progress, processed: 100000, resumedFrom: 40000, done: true, elapsedMs: 75000 }),
+    "users: 100000/100000 (100%) · 4000 docs/s · done in 1m 15s · resumed after 40000",
+  );
+});
@@ -0,0 +1,116 @@
+import * as v from "../../src/schema.ts";
+import { assertEquals, assertRejects } from "@std/assert";
+import { multiCollection, refId } from "../../src/multi-collection.ts";
+import { withDatabase } from "../+shared.ts";
+import type { Db } from "../../src/mongodb.ts";
+
+async function seedCatalog(db: Db) {
+  const catalog = await multiCollection(db, "catalog", {
+    category: { name: v.string() },
+    product: {
+      name: v.string(),
+      price: v.number(),
+      category: refId("category"),
+      tags: v.array(v.string()),
+    },
+  });
+
+  const phonesId = await catalog.insertOne("category", { name: "Phones" });
+  const laptopsId = await catalog.insertOne("category", { name: "Laptops" });
+  await catalog.insertMany("product", [
+    { name: "Phone", price: 500, category: phonesId, tags: ["new", "sale"] },
+    { name: "Phone case", price: 20, category: phonesId, tags: ["sale"] },
+    { name: "Laptop", price: 1200, category: laptopsId, tags: [] },
+  ]);
+
+  return { catalog, phonesId, laptopsId };
+}
+
+Deno.test("aggregate: match narrows to the element type", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const { catalog } = await seedCatalog(db);
+
+    const products = await catalog.aggregate((stage) => [
+      stage.match("product", { price: { $gte: 100 } }),
+      stage.sort({ price: 1 }),
+    ]);
+
+    // Compile-time check: only product elements remain
+    const typed: { _type: "product"; name: string; price: number }[] = products;
+    assertEquals(typed.map((product) => product.name), ["Phone", "Laptop"]);
+  });
+});
+
+Deno.test("aggregate: lookup adds the joined elements", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const { catalog } = await seedCatalog(db);
+
+    const products = await catalog.aggregate((stage) => [
+      stage.match("product", { name: "Laptop" }),
+      stage.lookup("category", "category", "_id", "categories"),
+    ]);
+
+    const typed: { name: string; categories: { _type: "category"; name: string }[] }[] = products;
+    assertEquals(typed[0].categories.map((category) => category.name), ["Laptops"]);
+  });
+});
+
+Deno.test("aggregate: lookup pipelines reshape the joined elements", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const { catalog } = await seedCatalog(db);
+
+    const rows = await catalog.aggregate((stage) => [
+      stage.match("product", { name: "Phone" }),
+      stage.lookup("category", "category", "_id", {
+        as: "category",
+        pipeline: (s) => [s.project({ _id: 0, name: 1 })],
+      }),
+      stage.unwind("category"),
+      stage.project({ _id: 0, name: 1, category: 1 }),
+    ]);
+
+    const typed: { name: string; category: { name: string } }[] = rows;
+    assertEquals(typed, [{ name: "Phone", category: { name: "Phones" } }]);
+  });
+});
+
+Deno.test("aggregate: group and addFields reshape the output", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const { catalog, phonesId, laptopsId } = await seedCatalog(db);
+
+    const totals = await catalog.aggregate((stage) => [
+      stage.match("product", {}),
+      stage.group({ _id: "$category", total: { $sum: "$price" }, names: { $push: "$name" } }),
+      stage.addFields({ label: { $toUpper: "$_id" } }),
+      stage.sort({ total: 1 }),
+    ]);
+
+    const typed: { _id: string; total: number; names: string[]; label: string }[] = totals;
+    assertEquals(typed.map(({ _id, total }) => ({ _id, total })), [
+      { _id: phonesId, total: 520 },
+      { _id: laptopsId, total: 1200 },
+    ]);
+  });
+});
+
+Deno.test("aggregate: output validates the result rows", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const { catalog } = await seedCatalog(db);
+
+    const rows = await catalog.aggregate(
+      (stage) => [
+        stage.match("product", {}),
+        stage.group({ _id: null, count: { $sum: 1 } }),
+      ],
+      { output: v.object({ _id: v.null(), count: v.number() }) },
+    );
+    assertEquals(rows, [{ _id: null, count: 3 }]);
+
+    await assertRejects(() =>
+      catalog.aggregate(
+        (stage) => [stage.match("category", {})],
+        { output: v.object({ price: v.number() }) },
+      )
+    );
+  });
+});
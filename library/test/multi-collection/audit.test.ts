@@ -0,0 +1,87 @@
+import * as v from "../../src/schema.ts";
+import { assertEquals } from "@std/assert";
+import { multiCollection } from "../../src/multi-collection.ts";
+import { defineModel } from "../../src/multi-collection-model.ts";
+import { type AuditRecord, withActor } from "../../src/audit.ts";
+import { withDatabase } from "../+shared.ts";
+
+const catalogModel = defineModel("catalog", {
+  schema: {
+    product: {
+      name: v.string(),
+      price: v.number(),
+    },
+  },
+});
+
+Deno.test("audit: element writes are recorded with their type", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const catalog = await multiCollection(db, "catalog", catalogModel, {
+      audit: { collection: "audit_log" },
+    });
+    const auditLog = db.collection<AuditRecord>("audit_log");
+
+    const id = await withActor({ userId: "alice" }, async () => {
+      const id = await catalog.insertOne("product", { name: "Phone", price: 499 });
+      await catalog.updateOne("product", id, { price: 450 });
+      return id;
+    });
+    await catalog.deleteId("product", id);
+
+    const records = await auditLog.find({}, { sort: { timestamp: 1, _id: 1 } }).toArray();
+    assertEquals(records.map(({ operation, _type, documentId, actor }) => ({
+      operation,
+      _type,
+      documentId,
+      actor,
+    })), [
+      { operation: "insert", _type: "product", documentId: id, actor: { userId: "alice" } },
+      { operation: "update", _type: "product", documentId: id, actor: { userId: "alice" } },
+      { operation: "delete", _type: "product", documentId: id, actor: null },
+    ]);
+    assertEquals(records[1].changes, [{ field: "price", before: 499, after: 450 }]);
+  });
+});
+
+Deno.test("audit: upserts are recorded as inserts when they create the element", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const catalog = await multiCollection(db, "catalog", catalogModel, {
+      audit: { collection: "audit_log" },
+    });
+    const auditLog = db.collection<AuditRecord>("audit_log");
+
+    await catalog.upsertOne("product", "product:phone", { name: "Phone", price: 499 });
+    await catalog.upsertOne("product", "product:phone", { name: "Phone", price: 450 });
+
+    const records = await auditLog.find({}, { sort: { timestamp: 1, _id: 1 } }).toArray();
+    assertEquals(records.map((record) => record.operation), ["insert", "update"]);
+    assertEquals(records[1].changes, [{ field: "price", before: 499, after: 450 }]);
+  });
+});
+
+Deno.test("audit: bulkWrite and deleteAny are recorded", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const catalog = await multiCollection(db, "catalog", catalogModel, {
+      audit: { collection: "audit_log" },
+    });
+    const auditLog = db.collection<AuditRecord>("audit_log");
+
+    const id = await catalog.insertOne("product", { name: "Phone", price: 499 });
+    await catalog.bulkWrite({
+      product: [
+        { insertOne: { document: { name: "Laptop", price: 999 } } },
+        { updateOne: { id, update: { price: 450 } } },
+      ],
+    });
+    await catalog.deleteAny({ _type: "product" });
+
+    const records = await auditLog.find({}, { sort: { timestamp: 1, _id: 1 } }).toArray();
+    assertEquals(records.map(({ operation, _type }) => `${operation}:${_type}`), [
+      "insert:product",
+      "update:product",
+      "insert:product",
+      "delete:product",
+      "delete:product",
+    ]);
+  });
+});
@@ -0,0 +1,130 @@
+import * as v from "../../src/schema.ts";
+import { assertEquals, assertRejects } from "@std/assert";
+import { multiCollection } from "../../src/multi-collection.ts";
+import { withDatabase } from "../+shared.ts";
+import assert from "node:assert";
+import { defineModel } from "../../src/multi-collection-model.ts";
+import { removeField } from "../../src/sanitizer.ts";
+
+const catalogModel = defineModel("catalog", {
+  schema: {
+    product: {
+      name: v.string(),
+      price: v.pipe(v.number(), v.minValue(0)),
+      description: v.optional(v.string()),
+    },
+    category: {
+      name: v.string(),
+    },
+  },
+});
+
+Deno.test("bulkWrite: mixed operations keyed by type", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const catalog = await multiCollection(db, "catalog", catalogModel);
+
+    const [phoneId, laptopId] = await catalog.insertMany("product", [
+      { name: "Phone", price: 499, description: "Smart" },
+      { name: "Laptop", price: 999 },
+    ]);
+    const categoryId = await catalog.insertOne("category", { name: "Old" });
+
+    const result = await catalog.bulkWrite({
+      product: [
+        { insertOne: { document: { name: "Tablet", price: 299 } } },
+        {
+          updateOne: {
+            id: phoneId,
+            update: { price: 450, description: removeField() },
+          },
+        },
+        {
+          replaceOne: {
+            id: laptopId,
+            document: { name: "Laptop Pro", price: 1299 },
+          },
+        },
+      ],
+      category: [
+        { deleteOne: { id: categoryId } },
+      ],
+    });
+
+    assertEquals(result.insertedCount, 1);
+    assertEquals(result.modifiedCount, 2);
+    assertEquals(result.deletedCount, 1);
+
+    const phone = await catalog.getById("product", phoneId);
+    assertEquals(phone.price, 450);
+    assertEquals(phone.description, undefined);
+
+    const laptop = await catalog.getById("product", laptopId);
+    assertEquals(laptop.name, "Laptop Pro");
+    assertEquals(laptop._type, "product");
+
+    const tablets = await catalog.find("product", { name: "Tablet" });
+    assertEquals(tablets.length, 1);
+    assert(tablets[0]._id.startsWith("product:"));
+
+    assertEquals(await catalog.countDocuments("category"), 0);
+  });
+});
+
+Deno.test("bulkWrite: invalid operations are rejected before writing", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const catalog = await multiCollection(db, "catalog", catalogModel);
+    const phoneId = await catalog.insertOne("product", {
+      name: "Phone",
+      price: 499,
+    });
+
+    // Invalid document: the valid insert must not be written either
+    await assertRejects(() =>
+      catalog.bulkWrite({
+        product: [
+          { insertOne: { document: { name: "Tablet", price: 299 } } },
+          { insertOne: { document: { name: "Broken", price: -1 } } },
+        ],
+      })
+    );
+    assertEquals(await catalog.countDocuments("product"), 1);
+
+    // Invalid dot notation update
+    await assertRejects(() =>
+      catalog.bulkWrite({
+        product: [{ updateOne: { id: phoneId, update: { price: -10 } } }],
+      })
+    );
+
+    // Id that does not belong to the type
+    await assertRejects(
+      () =>
+        catalog.bulkWrite({
+          category: [{ deleteOne: { id: phoneId } }],
+        }),
+      Error,
+      "Invalid id format",
+    );
+
+    // Unknown element type
+    await assertRejects(
+      () =>
+        catalog.bulkWrite({
+          // @ts-expect-error unknown element type
+          order: [{ deleteOne: { id: "order:1" } }],
+        }),
+      Error,
+      "Invalid element type order",
+    );
+
+    // Nothing to do
+    await assertRejects(
+      () => catalog.bulkWrite({}),
+      Error,
+      "No operation to execute",
+    );
+
+    const phone = await catalog.getById("product", phoneId);
+    assertEquals(phone.price, 499);
+  });
+});
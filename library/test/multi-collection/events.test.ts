@@ -0,0 +1,118 @@
+import * as v from "../../src/schema.ts";
+import { assertEquals, assertThrows } from "@std/assert";
+import { multiCollection } from "../../src/multi-collection.ts";
+import { withDatabase } from "../+shared.ts";
+
+const catalogSchema = {
+  product: {
+    name: v.string(),
+    price: v.number(),
+  },
+  category: {
+    name: v.string(),
+  },
+};
+
+// Change streams are opened by the first listener and might miss writes
+// made right after
+const streamReady = () => new Promise((resolve) => setTimeout(resolve, 500));
+const eventsProcessed = () => new Promise((resolve) => setTimeout(resolve, 1000));
+
+Deno.test("events: listeners only receive the events of their element type", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const catalog = await multiCollection(db, "catalog", catalogSchema, { enableWatching: true });
+
+    const received: string[] = [];
+    const unsubscribe = [
+      catalog.on("product", "insert", (event) => {
+        received.push(`insert ${event.fullDocument.name}`);
+      }),
+      catalog.on("product", "update", (event) => {
+        received.push(`update ${event.documentKey._id}`);
+      }),
+      catalog.on("product", "delete", (event) => {
+        received.push(`delete ${event.documentKey._id}`);
+      }),
+    ];
+    await streamReady();
+
+    await catalog.insertOne("category", { name: "Phones" });
+    const productId = await catalog.insertOne("product", { name: "Phone", price: 500 });
+    await catalog.updateOne("product", productId, { price: 450 });
+    await catalog.deleteId("product", productId);
+    await eventsProcessed();
+
+    assertEquals(received, [
+      "insert Phone",
+      `update ${productId}`,
+      `delete ${productId}`,
+    ]);
+
+    unsubscribe.forEach((off) => off());
+  });
+});
+
+Deno.test("events: unsubscribed listeners are not called", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const catalog = await multiCollection(db, "catalog", catalogSchema, { enableWatching: true });
+
+    let products = 0;
+    let categories = 0;
+    const offProduct = catalog.on("product", "insert", () => {
+      products++;
+    });
+    const offCategory = catalog.on("category", "insert", () => {
+      categories++;
+    });
+    await streamReady();
+
+    await catalog.insertOne("product", { name: "Phone", price: 500 });
+    await catalog.insertOne("category", { name: "Phones" });
+    await eventsProcessed();
+
+    offProduct();
+    await catalog.insertOne("product", { name: "Laptop", price: 1200 });
+    await catalog.insertOne("category", { name: "Laptops" });
+    await eventsProcessed();
+
+    assertEquals(products, 1);
+    assertEquals(categories, 2);
+
+    offCategory();
+  });
+});
+
+Deno.test("events: element types are matched literally in the ids", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const versions = await multiCollection(db, "versions", {
+      "v.1": { name: v.string() },
+      "vx1": { name: v.string() },
+    }, { enableWatching: true });
+
+    const updated: string[] = [];
+    const off = versions.on("v.1", "update", (event) => {
+      updated.push(event.documentKey._id);
+    });
+    await streamReady();
+
+    const id = await versions.insertOne("vx1", { name: "other" });
+    await versions.updateOne("vx1", id, { name: "renamed" });
+    await eventsProcessed();
+
+    assertEquals(updated, []);
+
+    off();
+  });
+});
+
+Deno.test("events: on requires enableWatching", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const catalog = await multiCollection(db, "catalog", catalogSchema);
+
+    assertThrows(
+      () => catalog.on("product", "insert", () => {}),
+      Error,
+      "enableWatching option is not enabled",
+    );
+  });
+});
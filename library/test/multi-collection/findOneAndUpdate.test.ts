@@ -0,0 +1,82 @@
+import * as v from "../../src/schema.ts";
+import { assertEquals, assertRejects } from "@std/assert";
+import { multiCollection } from "../../src/multi-collection.ts";
+import { withDatabase } from "../+shared.ts";
+import { defineModel } from "../../src/multi-collection-model.ts";
+
+const queueModel = defineModel("queue", {
+  schema: {
+    job: {
+      name: v.string(),
+      status: v.picklist(["pending", "running", "done"]),
+      attempts: v.pipe(v.number(), v.minValue(0)),
+    },
+  },
+});
+
+Deno.test("findOneAndUpdate: returns the element after the update", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const queue = await multiCollection(db, "queue", queueModel);
+    const id = await queue.insertOne("job", {
+      name: "email",
+      status: "pending",
+      attempts: 0,
+    });
+
+    const after = await queue.findOneAndUpdate("job", id, {
+      status: "running",
+      attempts: 1,
+    });
+    assertEquals(after?._type, "job");
+    assertEquals(after?.status, "running");
+
+    const before = await queue.findOneAndUpdate("job", id, { status: "done" }, {
+      returnDocument: "before",
+    });
+    assertEquals(before?.status, "running");
+  });
+});
+
+Deno.test("findOneAndUpdate: filter makes the update conditional", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const queue = await multiCollection(db, "queue", queueModel);
+    const id = await queue.insertOne("job", {
+      name: "email",
+      status: "pending",
+      attempts: 0,
+    });
+
+    const claim = () =>
+      queue.findOneAndUpdate("job", id, { status: "running" }, {
+        filter: { status: "pending" },
+      });
+
+    const first = await claim();
+    assertEquals(first?.status, "running");
+
+    const second = await claim();
+    assertEquals(second, null);
+  });
+});
+
+Deno.test("findOneAndUpdate: validates the update and the id", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const queue = await multiCollection(db, "queue", queueModel);
+    const id = await queue.insertOne("job", {
+      name: "email",
+      status: "pending",
+      attempts: 0,
+    });
+
+    await assertRejects(() =>
+      // @ts-expect-error: invalid status
+      queue.findOneAndUpdate("job", id, { status: "unknown" })
+    );
+    await assertRejects(() =>
+      queue.findOneAndUpdate("job", "other:123", { status: "running" })
+    );
+
+    const job = await queue.getById("job", id);
+    assertEquals(job.status, "pending");
+  });
+});
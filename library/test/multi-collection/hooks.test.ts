@@ -0,0 +1,135 @@
+import * as v from "../../src/schema.ts";
+import { assert, assertEquals, assertRejects } from "@std/assert";
+import { multiCollection } from "../../src/multi-collection.ts";
+import { defineModel } from "../../src/multi-collection-model.ts";
+import { withDatabase } from "../+shared.ts";
+
+const catalogModel = defineModel("catalog", {
+  schema: {
+    product: {
+      name: v.string(),
+      price: v.number(),
+    },
+    category: {
+      name: v.string(),
+      products: v.optional(v.number(), 0),
+    },
+  },
+});
+
+Deno.test("hooks: hooks are registered per element type", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const catalog = await multiCollection(db, "catalog", catalogModel);
+    const calls: string[] = [];
+
+    catalog.hook("product", "beforeInsert", ({ document }) => {
+      calls.push(`before:${document.name}`);
+    });
+    catalog.hook("product", "afterInsert", ({ document }) => {
+      assert(document._id.startsWith("product:"));
+      calls.push(`after:${document.name}`);
+    });
+
+    await catalog.insertOne("category", { name: "Electronics" });
+    await catalog.insertOne("product", { name: "Phone", price: 499 });
+    await catalog.insertMany("product", [{ name: "Laptop", price: 999 }]);
+
+    assertEquals(calls, ["before:Phone", "after:Phone", "before:Laptop", "after:Laptop"]);
+  });
+});
+
+Deno.test("hooks: update and delete hooks", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const catalog = await multiCollection(db, "catalog", catalogModel);
+    const id = await catalog.insertOne("product", { name: "Phone", price: 499 });
+    const events: string[] = [];
+
+    catalog.hook("product", "beforeUpdate", (event) => {
+      assert("update" in event);
+      events.push("beforeUpdate");
+    });
+    catalog.hook("product", "afterUpdate", ({ modifiedCount }) => {
+      events.push(`afterUpdate:${modifiedCount}`);
+    });
+    catalog.hook("product", "afterDelete", ({ filter, deletedCount }) => {
+      assertEquals(filter, { _id: id });
+      events.push(`afterDelete:${deletedCount}`);
+    });
+
+    await catalog.updateOne("product", id, { price: 450 });
+    await catalog.updateMany({ product: { [id]: { price: 400 } } });
+    await catalog.deleteId("product", id);
+
+    assertEquals(events, [
+      "beforeUpdate",
+      "afterUpdate:1",
+      "beforeUpdate",
+      "afterUpdate:1",
+      "afterDelete:1",
+    ]);
+  });
+});
+
+Deno.test("hooks: updateMany gives each element its own counts", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const catalog = await multiCollection(db, "catalog", catalogModel);
+    const phone = await catalog.insertOne("product", { name: "Phone", price: 499 });
+    const laptop = await catalog.insertOne("product", { name: "Laptop", price: 999 });
+    const counts: Record<string, number[]> = {};
+
+    catalog.hook("product", "afterUpdate", ({ filter, matchedCount, modifiedCount }) => {
+      counts[String(filter._id)] = [matchedCount, modifiedCount];
+    });
+
+    // The laptop price doesn't change
+    const modifiedCount = await catalog.updateMany({
+      product: { [phone]: { price: 450 }, [laptop]: { price: 999 } },
+    });
+
+    assertEquals(modifiedCount, 1);
+    assertEquals(counts, { [phone]: [1, 1], [laptop]: [1, 0] });
+  });
+});
+
+Deno.test("hooks: changes made by beforeInsert are validated", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const catalog = await multiCollection(db, "catalog", catalogModel);
+
+    catalog.hook("product", "beforeInsert", ({ document }) => {
+      document.price = "free" as unknown as number;
+    });
+
+    await assertRejects(() => catalog.insertOne("product", { name: "Phone", price: 499 }));
+    await assertRejects(() => catalog.insertMany("product", [{ name: "Laptop", price: 999 }]));
+    assertEquals(await catalog.countDocuments("product"), 0);
+  });
+});
+
+Deno.test("hooks: side effects share the transaction", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const catalog = await multiCollection(db, "catalog", catalogModel);
+    const categoryId = await catalog.insertOne("category", { name: "Electronics" });
+
+    // Denormalized counter maintained by a hook
+    catalog.hook("product", "afterInsert", async () => {
+      const category = await catalog.getById("category", categoryId);
+      await catalog.updateOne("category", categoryId, { products: category.products + 1 });
+    });
+
+    await catalog.insertOne("product", { name: "Phone", price: 499 });
+    assertEquals((await catalog.getById("category", categoryId)).products, 1);
+
+    await assertRejects(
+      () =>
+        catalog.withSession(async () => {
+          await catalog.insertOne("product", { name: "Laptop", price: 999 });
+          throw new Error("Rollback");
+        }),
+      Error,
+      "Rollback",
+    );
+
+    assertEquals((await catalog.getById("category", categoryId)).products, 1);
+    assertEquals(await catalog.countDocuments("product"), 1);
+  });
+});
@@ -0,0 +1,100 @@
+import * as v from "../../src/schema.ts";
+import { assertEquals, assertRejects } from "@std/assert";
+import { createMultiCollectionInstance } from "../../src/multi-collection.ts";
+import { defineModel } from "../../src/multi-collection-model.ts";
+import { modelQuery } from "../../src/model-query.ts";
+import { withDatabase } from "../+shared.ts";
+import type { Db } from "../../src/mongodb.ts";
+
+const catalogModel = defineModel("catalog", {
+  schema: {
+    product: {
+      name: v.string(),
+      price: v.number(),
+    },
+    category: {
+      name: v.string(),
+    },
+  },
+});
+
+async function seedCatalogs(db: Db) {
+  const louvre = await createMultiCollectionInstance(db, "catalog_louvre", catalogModel);
+  const orsay = await createMultiCollectionInstance(db, "catalog_orsay", catalogModel);
+
+  await louvre.insertMany("product", [
+    { name: "Poster", price: 15 },
+    { name: "Book", price: 40 },
+  ]);
+  await louvre.insertOne("category", { name: "Prints" });
+  await orsay.insertMany("product", [
+    { name: "Mug", price: 12 },
+    { name: "Scarf", price: 60 },
+  ]);
+
+  // Not an instance of the model
+  await db.collection("catalog_draft").insertOne({ _type: "product", name: "Draft", price: 1 });
+}
+
+Deno.test("modelQuery: find merges the instances with a global sort", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    await seedCatalogs(db);
+
+    const products = await modelQuery(db, catalogModel).find("product", { price: { $gte: 15 } }, {
+      sort: { price: -1 },
+    });
+
+    assertEquals(products.map(({ name, _collection }) => ({ name, _collection })), [
+      { name: "Scarf", _collection: "catalog_orsay" },
+      { name: "Book", _collection: "catalog_louvre" },
+      { name: "Poster", _collection: "catalog_louvre" },
+    ]);
+  });
+});
+
+Deno.test("modelQuery: instances restricts the queried instances", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    await seedCatalogs(db);
+
+    const orsay = modelQuery(db, catalogModel, { instances: ["catalog_orsay"] });
+    assertEquals(await orsay.countDocuments("product"), 2);
+    assertEquals(await modelQuery(db, catalogModel).countDocuments("product"), 4);
+    assertEquals(await modelQuery(db, catalogModel).instances(), ["catalog_louvre", "catalog_orsay"]);
+
+    await assertRejects(
+      () => modelQuery(db, catalogModel, { instances: ["catalog_draft"] }).find("product"),
+      Error,
+      'Collection "catalog_draft" is not an instance of model "catalog"',
+    );
+  });
+});
+
+Deno.test("modelQuery: paginate pages through the merged results", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    await seedCatalogs(db);
+
+    const query = modelQuery(db, catalogModel);
+    const first = await query.paginate("product", {}, { sort: { price: 1 }, limit: 3 });
+    const second = await query.paginate("product", {}, { sort: { price: 1 }, limit: 3, skip: 3 });
+
+    assertEquals(first.total, 4);
+    assertEquals(first.data.map((product) => product.name), ["Mug", "Poster", "Book"]);
+    assertEquals(second.data.map((product) => product.name), ["Scarf"]);
+  });
+});
+
+Deno.test("modelQuery: invalid elements don't shorten the pages", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    await seedCatalogs(db);
+    await db.collection("catalog_louvre").insertOne({ _id: "product:invalid" as never, _type: "product", name: "Broken" });
+
+    const query = modelQuery(db, catalogModel);
+    const first = await query.paginate("product", {}, { sort: { name: 1 }, limit: 2 });
+    const second = await query.paginate("product", {}, { sort: { name: 1 }, limit: 2, skip: 2 });
+
+    // The total counts the invalid element
+    assertEquals(first.total, 5);
+    assertEquals(first.data.map((product) => product.name), ["Book", "Mug"]);
+    assertEquals(second.data.map((product) => product.name), ["Poster", "Scarf"]);
+  });
+});
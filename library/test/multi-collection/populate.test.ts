@@ -0,0 +1,95 @@
+import * as v from "../../src/schema.ts";
+import { assertEquals, assertRejects } from "@std/assert";
+import { multiCollection, refId } from "../../src/multi-collection.ts";
+import { withDatabase } from "../+shared.ts";
+
+const catalogSchema = {
+  category: {
+    name: v.string(),
+  },
+  tag: {
+    label: v.string(),
+  },
+  product: {
+    name: v.string(),
+    category: refId("category"),
+    tags: v.optional(v.array(refId("tag"))),
+    parent: v.optional(refId("product")),
+  },
+};
+
+Deno.test("populate: replaces references by the referenced elements", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const catalog = await multiCollection(db, "catalog", catalogSchema);
+
+    const phonesId = await catalog.insertOne("category", { name: "Phones" });
+    const laptopsId = await catalog.insertOne("category", { name: "Laptops" });
+    const [newId, saleId] = await catalog.insertMany("tag", [{ label: "new" }, { label: "sale" }]);
+    await catalog.insertOne("product", { name: "Phone", category: phonesId, tags: [newId, saleId] });
+    await catalog.insertOne("product", { name: "Laptop", category: laptopsId });
+
+    const products = await catalog.find("product", {}, { sort: { name: 1 } });
+    const populated = await catalog.populate("product", products, ["category", "tags"]);
+
+    assertEquals(populated.map((product) => product.category?.name), ["Laptops", "Phones"]);
+    assertEquals(populated[0].tags, undefined);
+    assertEquals(populated[1].tags?.map((tag) => tag.label), ["new", "sale"]);
+  });
+});
+
+Deno.test("populate: find populates with the populate option", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const catalog = await multiCollection(db, "catalog", catalogSchema);
+
+    const phonesId = await catalog.insertOne("category", { name: "Phones" });
+    const phoneId = await catalog.insertOne("product", { name: "Phone", category: phonesId });
+    await catalog.insertOne("product", { name: "Phone case", category: phonesId, parent: phoneId });
+
+    const products = await catalog.find("product", { name: "Phone case" }, {
+      populate: ["category", "parent"],
+    });
+
+    assertEquals(products.length, 1);
+    assertEquals(products[0].category?._id, phonesId);
+    assertEquals(products[0].parent?.name, "Phone");
+  });
+});
+
+Deno.test("populate: missing references become null", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const catalog = await multiCollection(db, "catalog", catalogSchema, {
+      softDelete: { field: "deletedAt" },
+    });
+
+    const phonesId = await catalog.insertOne("category", { name: "Phones" });
+    const tagId = await catalog.insertOne("tag", { label: "new" });
+    await catalog.insertOne("product", {
+      name: "Phone",
+      category: phonesId,
+      tags: [tagId, "tag:unknown"],
+    });
+    await catalog.deleteId("category", phonesId);
+
+    const [product] = await catalog.find("product", {}, { populate: ["category", "tags"] });
+
+    assertEquals(product.category, null);
+    assertEquals(product.tags?.map((tag) => tag._id), [tagId]);
+  });
+});
+
+Deno.test("populate: rejects fields that are not references", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const catalog = await multiCollection(db, "catalog", catalogSchema);
+
+    const phonesId = await catalog.insertOne("category", { name: "Phones" });
+    await catalog.insertOne("product", { name: "Phone", category: phonesId });
+    const products = await catalog.find("product");
+
+    await assertRejects(
+      // @ts-expect-error name is not a reference field
+      () => catalog.populate("product", products, ["name"]),
+      Error,
+      "is not a reference",
+    );
+  });
+});
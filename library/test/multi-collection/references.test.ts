@@ -0,0 +1,170 @@
+import * as v from "../../src/schema.ts";
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
+import { multiCollection, refId } from "../../src/multi-collection.ts";
+import { ReferentialIntegrityError } from "../../src/references.ts";
+import { withDatabase } from "../+shared.ts";
+
+Deno.test("references: restrict refuses to delete a referenced element", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const catalog = await multiCollection(db, "catalog", {
+      category: { name: v.string() },
+      product: { name: v.string(), category: refId("category", { onDelete: "restrict" }) },
+    });
+
+    const phonesId = await catalog.insertOne("category", { name: "Phones" });
+    const emptyId = await catalog.insertOne("category", { name: "Empty" });
+    await catalog.insertOne("product", { name: "Phone", category: phonesId });
+
+    await assertRejects(
+      () => catalog.deleteId("category", phonesId),
+      ReferentialIntegrityError,
+      "still referenced by product.category",
+    );
+    await assertRejects(
+      () => catalog.deleteMany("category", {}),
+      ReferentialIntegrityError,
+    );
+    assertEquals(await catalog.countDocuments("category"), 2);
+
+    assertEquals(await catalog.deleteId("category", emptyId), 1);
+  });
+});
+
+Deno.test("references: cascade deletes the referencing elements", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const catalog = await multiCollection(db, "catalog", {
+      category: { name: v.string() },
+      product: { name: v.string(), category: refId("category", { onDelete: "cascade" }) },
+      review: { text: v.string(), product: refId("product", { onDelete: "cascade" }) },
+    });
+
+    const phonesId = await catalog.insertOne("category", { name: "Phones" });
+    const laptopsId = await catalog.insertOne("category", { name: "Laptops" });
+    const phoneId = await catalog.insertOne("product", { name: "Phone", category: phonesId });
+    await catalog.insertOne("product", { name: "Laptop", category: laptopsId });
+    await catalog.insertOne("review", { text: "Great", product: phoneId });
+
+    await catalog.deleteId("category", phonesId);
+
+    assertEquals((await catalog.find("product")).map((product) => product.name), ["Laptop"]);
+    assertEquals(await catalog.countDocuments("review"), 0);
+  });
+});
+
+Deno.test("references: cascade soft-deletes with softDelete", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const catalog = await multiCollection(db, "catalog", {
+      category: { name: v.string() },
+      product: { name: v.string(), category: refId("category", { onDelete: "cascade" }) },
+    }, { softDelete: { field: "deletedAt" } });
+
+    const phonesId = await catalog.insertOne("category", { name: "Phones" });
+    await catalog.insertOne("product", { name: "Phone", category: phonesId });
+
+    await catalog.deleteIds("category", [phonesId]);
+
+    assertEquals(await catalog.countDocuments("product"), 0);
+    assertEquals((await catalog.findDeleted("product")).map((product) => product.name), ["Phone"]);
+  });
+});
+
+Deno.test("references: cascade ends on reference cycles", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const tree = await multiCollection(db, "tree", {
+      node: { name: v.string(), parent: v.optional(refId("node", { onDelete: "cascade" })) },
+    });
+
+    const rootId = await tree.insertOne("node", { name: "root" });
+    const childId = await tree.insertOne("node", { name: "child", parent: rootId });
+    await tree.insertOne("node", { name: "grandchild", parent: childId });
+    await tree.updateOne("node", rootId, { parent: childId });
+
+    await tree.deleteId("node", rootId);
+
+    assertEquals(await tree.countDocuments("node"), 0);
+  });
+});
+
+Deno.test("references: setNull clears the references", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const catalog = await multiCollection(db, "catalog", {
+      category: { name: v.string() },
+      product: {
+        name: v.string(),
+        category: v.optional(refId("category", { onDelete: "setNull" })),
+        featuredIn: v.nullable(refId("category", { onDelete: "setNull" })),
+        tags: v.array(refId("category", { onDelete: "setNull" })),
+      },
+    });
+
+    const phonesId = await catalog.insertOne("category", { name: "Phones" });
+    const saleId = await catalog.insertOne("category", { name: "Sale" });
+    const phoneId = await catalog.insertOne("product", {
+      name: "Phone",
+      category: phonesId,
+      featuredIn: phonesId,
+      tags: [phonesId, saleId],
+    });
+
+    await catalog.deleteId("category", phonesId);
+
+    const phone = await catalog.getById("product", phoneId);
+    assertEquals(phone.category, undefined);
+    assertEquals(phone.featuredIn, null);
+    assertEquals(phone.tags, [saleId]);
+  });
+});
+
+Deno.test("references: setNull requires an optional or nullable reference", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    await assertRejects(
+      () =>
+        multiCollection(db, "catalog", {
+          category: { name: v.string() },
+          product: { category: refId("category", { onDelete: "setNull" }) },
+        }),
+      Error,
+      "requires product.category to be optional or nullable",
+    );
+  });
+});
+
+Deno.test("references: checkIntegrity reports dangling references", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const catalog = await multiCollection(db, "catalog", {
+      category: { name: v.string() },
+      tag: { label: v.string() },
+      product: {
+        name: v.string(),
+        category: refId("category"),
+        tags: v.optional(v.array(refId("tag"))),
+      },
+    });
+
+    const phonesId = await catalog.insertOne("category", { name: "Phones" });
+    const laptopsId = await catalog.insertOne("category", { name: "Laptops" });
+    const tagId = await catalog.insertOne("tag", { label: "new" });
+    await catalog.insertOne("product", { name: "Phone", category: phonesId, tags: [tagId] });
+    const laptopId = await catalog.insertOne("product", {
+      name: "Laptop",
+      category: laptopsId,
+      tags: [tagId, "tag:gone"],
+    });
+
+    assertEquals(await catalog.checkIntegrity(), [
+      { _id: laptopId, _type: "product", field: "tags", ref: "tag:gone" },
+    ]);
+
+    // Bypasses the onDelete rules
+    await catalog.deleteAny({ _id: laptopsId });
+
+    assertEquals(await catalog.checkIntegrity(), [
+      { _id: laptopId, _type: "product", field: "category", ref: laptopsId },
+      { _id: laptopId, _type: "product", field: "tags", ref: "tag:gone" },
+    ]);
+  });
+});
+
+Deno.test("references: refId keeps validating the id prefix", () => {
+  assertThrows(() => v.parse(refId("category", { onDelete: "cascade" }), "product:123"));
+});
@@ -0,0 +1,60 @@
+import * as v from "../../src/schema.ts";
+import { assert, assertEquals, assertRejects } from "@std/assert";
+import { multiCollection } from "../../src/multi-collection.ts";
+import { defineModel } from "../../src/multi-collection-model.ts";
+import { withDatabase } from "../+shared.ts";
+
+const accountModel = defineModel("account", {
+  schema: {
+    user: {
+      name: v.string(),
+    },
+    session: {
+      token: v.string(),
+    },
+  },
+});
+
+Deno.test("softDelete: deletes are per type and reads skip deleted elements", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const accounts = await multiCollection(db, "accounts", accountModel, {
+      softDelete: { field: "deletedAt" },
+    });
+    const aliceId = await accounts.insertOne("user", { name: "Alice" });
+    const bobId = await accounts.insertOne("user", { name: "Bob" });
+    await accounts.insertOne("session", { token: "abc" });
+
+    assertEquals(await accounts.deleteId("user", aliceId), 1);
+    assertEquals(await accounts.deleteMany("session", { token: "abc" }), 1);
+
+    await assertRejects(() => accounts.getById("user", aliceId));
+    assertEquals(await accounts.findOne("user", { name: "Alice" }), null);
+    assertEquals(await accounts.countDocuments("user"), 1);
+    assertEquals(await accounts.countDocuments("session"), 0);
+    assertEquals((await accounts.find("user")).map((u) => u._id), [bobId]);
+
+    const page = await accounts.paginate("user", {});
+    assertEquals(page.data.map((u) => u._id), [bobId]);
+  });
+});
+
+Deno.test("softDelete: findDeleted, restore and purgeDeleted", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const accounts = await multiCollection(db, "accounts", accountModel, {
+      softDelete: { field: "deletedAt" },
+    });
+    const aliceId = await accounts.insertOne("user", { name: "Alice" });
+    const bobId = await accounts.insertOne("user", { name: "Bob" });
+    await accounts.deleteIds("user", [aliceId, bobId]);
+
+    const deleted = await accounts.findDeleted("user");
+    assertEquals(deleted.length, 2);
+    assert(deleted[0].deletedAt instanceof Date);
+
+    assertEquals(await accounts.restore("user", { _id: aliceId }), 1);
+    assertEquals((await accounts.getById("user", aliceId)).name, "Alice");
+
+    assertEquals(await accounts.purgeDeleted("user", new Date()), 1);
+    assertEquals(await accounts.findDeleted("user"), []);
+  });
+});
@@ -0,0 +1,74 @@
+import * as v from "../../src/schema.ts";
+import { assertEquals, assertRejects } from "@std/assert";
+import { multiCollection } from "../../src/multi-collection.ts";
+import { defineModel } from "../../src/multi-collection-model.ts";
+import { crossTenant, withTenant } from "../../src/tenant.ts";
+import { withDatabase } from "../+shared.ts";
+
+const catalogModel = defineModel("catalog", {
+  schema: {
+    product: {
+      name: v.string(),
+      category: v.optional(v.string()),
+    },
+    category: {
+      name: v.string(),
+    },
+  },
+});
+
+Deno.test("tenant: elements are scoped to the current tenant", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const catalog = await multiCollection(db, "catalog", catalogModel, { tenantField: "tenantId" });
+
+    const acmeId = await withTenant("acme", () => catalog.insertOne("product", { name: "Phone" }));
+    await withTenant("globex", () => catalog.insertOne("product", { name: "Laptop" }));
+
+    await withTenant("globex", async () => {
+      assertEquals((await catalog.find("product")).map((product) => product.name), ["Laptop"]);
+      await assertRejects(() => catalog.getById("product", acmeId), Error, "No element found");
+      await assertRejects(() => catalog.deleteId("product", acmeId), Error, "No element that match");
+    });
+
+    assertEquals(await crossTenant(() => catalog.countDocuments("product")), 2);
+    await assertRejects(() => catalog.find("product"), Error, "outside of a tenant context");
+  });
+});
+
+Deno.test("tenant: stage builder lookups are scoped", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const catalog = await multiCollection(db, "catalog", catalogModel, { tenantField: "tenantId" });
+
+    // Same category name in two tenants
+    await withTenant("acme", async () => {
+      await catalog.insertOne("category", { name: "Phones" });
+      await catalog.insertOne("product", { name: "Phone", category: "Phones" });
+    });
+    await withTenant("globex", async () => {
+      await catalog.insertOne("category", { name: "Phones" });
+    });
+
+    const results = await withTenant("acme", () =>
+      catalog.aggregate((stage) => [
+        stage.match("product", {}),
+        stage.lookup("category", "category", "name", "categories"),
+      ])
+    );
+
+    assertEquals(results.length, 1);
+    assertEquals(results[0].categories.length, 1);
+  });
+});
+
+Deno.test("tenant: the tenant field is part of the element schemas", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const catalog = await multiCollection(db, "catalog", catalogModel, {
+      tenantField: "tenantId",
+      validateFilters: true,
+    });
+    await withTenant("acme", () => catalog.insertOne("product", { name: "Phone" }));
+
+    const products = await crossTenant(() => catalog.find("product", { tenantId: "acme" }));
+    assertEquals(products.map((product) => [product.name, product.tenantId]), [["Phone", "acme"]]);
+  });
+});
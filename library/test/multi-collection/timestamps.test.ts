@@ -0,0 +1,41 @@
+import * as v from "../../src/schema.ts";
+import { assert, assertEquals } from "@std/assert";
+import { multiCollection } from "../../src/multi-collection.ts";
+import { defineModel } from "../../src/multi-collection-model.ts";
+import { withDatabase } from "../+shared.ts";
+
+const blogModel = defineModel("blog", {
+  schema: {
+    post: {
+      title: v.string(),
+    },
+  },
+});
+
+Deno.test("timestamps: inserts and updates stamp the dates", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const blog = await multiCollection(db, "blog", blogModel, { timestamps: true });
+
+    const [id] = await blog.insertMany("post", [{ title: "Hello" }]);
+    const inserted = await blog.getById("post", id);
+    assert(inserted.createdAt instanceof Date);
+    assertEquals(inserted.updatedAt, inserted.createdAt);
+
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await blog.updateMany({ post: { [id]: { title: "Hello!" } } });
+    const updated = await blog.getById("post", id);
+    assertEquals(updated.createdAt, inserted.createdAt);
+    assert(updated.updatedAt! > inserted.updatedAt!);
+  });
+});
+
+Deno.test("timestamps: the fields are part of the validator", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    await multiCollection(db, "blog", blogModel, { timestamps: true });
+
+    const [info] = await db.listCollections({ name: "blog" }).toArray();
+    const validator = JSON.stringify((info as { options: unknown }).options);
+    assert(validator.includes("createdAt"));
+    assert(validator.includes("updatedAt"));
+  });
+});
@@ -0,0 +1,90 @@
+import * as v from "../../src/schema.ts";
+import { assertEquals, assertRejects } from "@std/assert";
+import { multiCollection } from "../../src/multi-collection.ts";
+import { withDatabase } from "../+shared.ts";
+import { defineModel } from "../../src/multi-collection-model.ts";
+
+const catalogModel = defineModel("catalog", {
+  schema: {
+    product: {
+      name: v.string(),
+      price: v.pipe(v.number(), v.minValue(0)),
+      description: v.optional(v.string()),
+    },
+  },
+});
+
+Deno.test("upsertOne: inserts a missing element with its _type", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const catalog = await multiCollection(db, "catalog", catalogModel);
+
+    const result = await catalog.upsertOne("product", "product:phone", {
+      name: "Phone",
+      price: 499,
+    });
+    assertEquals(result, { _id: "product:phone", upserted: true });
+
+    const phone = await catalog.findOne("product", { _id: "product:phone" });
+    assertEquals(phone?._type, "product");
+    assertEquals(phone?.price, 499);
+  });
+});
+
+Deno.test("upsertOne: updates an existing element", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const catalog = await multiCollection(db, "catalog", catalogModel);
+    const id = await catalog.insertOne("product", {
+      name: "Phone",
+      price: 499,
+      description: "Smart",
+    });
+
+    const result = await catalog.upsertOne("product", id, {
+      name: "Phone",
+      price: 450,
+    });
+    assertEquals(result, { _id: id, upserted: false });
+
+    const phone = await catalog.findOne("product", { _id: id });
+    assertEquals(phone?.price, 450);
+    assertEquals(phone?.description, "Smart");
+    assertEquals(await catalog.countDocuments("product"), 1);
+  });
+});
+
+Deno.test("upsertOne: schema defaults don't reset existing fields", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const catalog = await multiCollection(db, "catalog", {
+      product: {
+        name: v.string(),
+        stock: v.optional(v.number(), 0),
+      },
+    });
+
+    const inserted = await catalog.upsertOne("product", "product:phone", { name: "Phone" });
+    assertEquals(inserted.upserted, true);
+    assertEquals((await catalog.getById("product", "product:phone")).stock, 0);
+
+    await catalog.updateOne("product", "product:phone", { stock: 12 });
+    await catalog.upsertOne("product", "product:phone", { name: "Phone 2" });
+
+    const phone = await catalog.getById("product", "product:phone");
+    assertEquals(phone.name, "Phone 2");
+    assertEquals(phone.stock, 12);
+  });
+});
+
+Deno.test("upsertOne: validates the document and the id format", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const catalog = await multiCollection(db, "catalog", catalogModel);
+
+    await assertRejects(() =>
+      catalog.upsertOne("product", "product:phone", { name: "Phone", price: -1 })
+    );
+    await assertRejects(() =>
+      catalog.upsertOne("product", "category:phone", { name: "Phone", price: 1 })
+    );
+
+    assertEquals(await catalog.countDocuments("product"), 0);
+  });
+});
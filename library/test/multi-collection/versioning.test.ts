@@ -0,0 +1,80 @@
+import * as v from "../../src/schema.ts";
+import { assertEquals, assertRejects } from "@std/assert";
+import { multiCollection } from "../../src/multi-collection.ts";
+import { defineModel } from "../../src/multi-collection-model.ts";
+import { VersionConflictError } from "../../src/versioning.ts";
+import { withDatabase } from "../+shared.ts";
+
+const workspaceModel = defineModel("workspace", {
+  schema: {
+    page: {
+      title: v.string(),
+      content: v.string(),
+    },
+  },
+});
+
+Deno.test("versioning: elements start at 0 and updates increment", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const workspace = await multiCollection(db, "workspace", workspaceModel, {
+      versioning: { field: "_v" },
+    });
+
+    const id = await workspace.insertOne("page", { title: "Home", content: "" });
+    assertEquals((await workspace.getById("page", id))._v, 0);
+
+    await workspace.updateOne("page", id, { content: "Hello" });
+    await workspace.updateMany({ page: { [id]: { content: "Hello!" } } });
+    assertEquals((await workspace.getById("page", id))._v, 2);
+  });
+});
+
+Deno.test("versioning: expectedVersion rejects stale updates", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const workspace = await multiCollection(db, "workspace", workspaceModel, {
+      versioning: { field: "_v" },
+    });
+    const id = await workspace.insertOne("page", { title: "Home", content: "" });
+
+    await workspace.updateOne("page", id, { content: "First" }, {
+      expectedVersion: 0,
+    });
+
+    await assertRejects(
+      () =>
+        workspace.updateOne("page", id, { content: "Second" }, {
+          expectedVersion: 0,
+        }),
+      VersionConflictError,
+    );
+
+    // Unknown elements keep the regular error
+    await assertRejects(
+      () =>
+        workspace.updateOne("page", "page:unknown", { content: "Second" }, {
+          expectedVersion: 0,
+        }),
+      Error,
+      "No element that match the filter to update",
+    );
+
+    const page = await workspace.getById("page", id);
+    assertEquals(page.content, "First");
+    assertEquals(page._v, 1);
+  });
+});
+
+Deno.test("versioning: upserted elements start at 0", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const workspace = await multiCollection(db, "workspace", workspaceModel, {
+      versioning: { field: "_v" },
+    });
+
+    const { upserted } = await workspace.upsertOne("page", "page:home", { title: "Home", content: "" });
+    assertEquals(upserted, true);
+    assertEquals((await workspace.getById("page", "page:home"))._v, 0);
+
+    await workspace.upsertOne("page", "page:home", { title: "Home", content: "Hello" });
+    assertEquals((await workspace.getById("page", "page:home"))._v, 1);
+  });
+});
@@ -0,0 +1,135 @@
+import * as v from "../src/schema.ts";
+import { assertEquals, assertRejects } from "@std/assert";
+import { collection } from "../src/collection.ts";
+import { createOutbox, type OutboxMessage } from "../src/outbox.ts";
+import { withDatabase } from "./+shared.ts";
+
+const orderSchema = {
+  customer: v.string(),
+  total: v.number(),
+};
+
+const eventsProcessed = () => new Promise((resolve) => setTimeout(resolve, 1000));
+
+Deno.test("outbox: messages are committed and rolled back with the transaction", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const orders = await collection(db, "orders", orderSchema);
+    const outbox = createOutbox(db);
+
+    await orders.withSession(async () => {
+      const orderId = await orders.insertOne({ customer: "alice", total: 10 });
+      await outbox.publish("order.created", { orderId });
+    });
+
+    await assertRejects(() =>
+      orders.withSession(async () => {
+        await orders.insertOne({ customer: "bob", total: 20 });
+        await outbox.publish("order.created", { customer: "bob" });
+        throw new Error("Payment refused");
+      })
+    );
+
+    assertEquals(await orders.countDocuments({}), 1);
+    const messages = await outbox.collection.find({}).toArray();
+    assertEquals(messages.map(({ topic, status }) => ({ topic, status })), [
+      { topic: "order.created", status: "pending" },
+    ]);
+  });
+});
+
+Deno.test("outbox: dispatcher delivers the pending messages", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const outbox = createOutbox(db);
+    await outbox.publish("order.created", { order: 1 });
+
+    const delivered: unknown[] = [];
+    const dispatcher = outbox.dispatch((message) => {
+      delivered.push(message.payload);
+    });
+    await eventsProcessed();
+
+    // Woken up by the change stream
+    await outbox.publish("order.created", { order: 2 });
+    await eventsProcessed();
+    await dispatcher.close();
+
+    assertEquals(delivered, [{ order: 1 }, { order: 2 }]);
+    assertEquals(await outbox.collection.countDocuments({ status: "delivered" }), 2);
+  });
+});
+
+Deno.test("outbox: messages sharing a key are delivered in order after retries", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const outbox = createOutbox(db);
+    await outbox.publish("customer.updated", { step: 1 }, { key: "alice" });
+    await outbox.publish("customer.updated", { step: 2 }, { key: "alice" });
+    await outbox.publish("customer.updated", { step: 1 }, { key: "bob" });
+
+    const delivered: string[] = [];
+    let failures = 1;
+    const dispatcher = outbox.dispatch((message) => {
+      const { step } = message.payload as { step: number };
+      if (message.key === "alice" && step === 1 && failures-- > 0) {
+        throw new Error("Bus unavailable");
+      }
+      delivered.push(`${message.key} ${step}`);
+    }, { trigger: "polling", pollInterval: 50, backoff: { initialDelay: 100 } });
+    await eventsProcessed();
+    await dispatcher.close();
+
+    assertEquals(delivered, ["bob 1", "alice 1", "alice 2"]);
+  });
+});
+
+Deno.test("outbox: timed out messages block their key until the delivery settles", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const outbox = createOutbox(db);
+    await outbox.publish("customer.updated", { step: 1 }, { key: "alice" });
+    await outbox.publish("customer.updated", { step: 2 }, { key: "alice" });
+
+    const calls: string[] = [];
+    let slow = true;
+    const dispatcher = outbox.dispatch(async (message) => {
+      const { step } = message.payload as { step: number };
+      calls.push(`start ${step}`);
+      if (slow) {
+        slow = false;
+        await new Promise((resolve) => setTimeout(resolve, 300));
+      }
+      calls.push(`end ${step}`);
+    }, { trigger: "polling", pollInterval: 50, timeout: 100, backoff: { initialDelay: 10 } });
+    await eventsProcessed();
+    await dispatcher.close();
+
+    // The timed out delivery ends before the message is retried
+    assertEquals(calls, ["start 1", "end 1", "start 1", "end 1", "start 2", "end 2"]);
+  });
+});
+
+Deno.test("outbox: failing messages are dead-lettered and can be requeued", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const outbox = createOutbox(db);
+    const id = await outbox.publish("order.created", { order: 1 });
+
+    let fail = true;
+    const delivered: OutboxMessage[] = [];
+    const dispatcher = outbox.dispatch((message) => {
+      if (fail) throw new Error("Invalid payload");
+      delivered.push(message);
+    }, { trigger: "polling", pollInterval: 50, maxAttempts: 2, backoff: { initialDelay: 10 } });
+    await eventsProcessed();
+
+    const dead = await outbox.deadLetters();
+    assertEquals(dead.map(({ _id, attempts, lastError }) => ({ _id, attempts, lastError })), [
+      { _id: id, attempts: 2, lastError: "Invalid payload" },
+    ]);
+
+    fail = false;
+    assertEquals(await outbox.requeue(id), true);
+    await eventsProcessed();
+    await dispatcher.close();
+
+    assertEquals(delivered.map((message) => message._id), [id]);
+    assertEquals(await outbox.deadLetters(), []);
+  });
+});
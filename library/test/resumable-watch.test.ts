@@ -0,0 +1,168 @@
+import { assertEquals } from "@std/assert";
+import type * as m from "mongodb";
+import { withDatabase } from "./+shared.ts";
+import {
+  mongoResumeTokenStore,
+  type ResumeTokenStore,
+  watchResumable,
+} from "../src/resumable-watch.ts";
+
+// Streams open asynchronously and might miss writes made right after
+const streamReady = () => new Promise((resolve) => setTimeout(resolve, 500));
+const eventsProcessed = () => new Promise((resolve) => setTimeout(resolve, 1000));
+
+function insertedName(change: m.ChangeStreamDocument): string | undefined {
+  return change.operationType === "insert" ? change.fullDocument.name : undefined;
+}
+
+Deno.test("watchResumable: resumes after the last acknowledged event", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const items = db.collection("items");
+    const store = mongoResumeTokenStore(db);
+
+    const first: string[] = [];
+    const watcher = watchResumable(items, { consumer: "projection", store }, async (change, ack) => {
+      first.push(insertedName(change)!);
+      await ack();
+    });
+    await streamReady();
+    await items.insertMany([{ name: "a" }, { name: "b" }]);
+    await eventsProcessed();
+    await watcher.close();
+
+    // Written while no consumer is running
+    await items.insertOne({ name: "c" });
+
+    const second: string[] = [];
+    const restarted = watchResumable(items, { consumer: "projection", store }, async (change, ack) => {
+      second.push(insertedName(change)!);
+      await ack();
+    });
+    await eventsProcessed();
+    await restarted.close();
+
+    assertEquals(first, ["a", "b"]);
+    assertEquals(second, ["c"]);
+    assertEquals(await db.collection("mongodbee_resume_tokens").countDocuments({ _id: "projection" as never }), 1);
+  });
+});
+
+Deno.test("watchResumable: events not acknowledged are delivered again", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const items = db.collection("items");
+    const store = mongoResumeTokenStore(db);
+
+    const watcher = watchResumable(items, { consumer: "projection", store }, async (change, ack) => {
+      if (insertedName(change) === "a") await ack();
+    });
+    await streamReady();
+    await items.insertMany([{ name: "a" }, { name: "b" }]);
+    await eventsProcessed();
+    await watcher.close();
+
+    const redelivered: string[] = [];
+    const restarted = watchResumable(items, { consumer: "projection", store }, (change) => {
+      redelivered.push(insertedName(change)!);
+    });
+    await eventsProcessed();
+    await restarted.close();
+
+    assertEquals(redelivered, ["b"]);
+  });
+});
+
+Deno.test("watchResumable: handler errors reconnect and redeliver", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const items = db.collection("items");
+    const tokens = new Map<string, m.ResumeToken>();
+    const store: ResumeTokenStore = {
+      load: (consumer) => Promise.resolve(tokens.get(consumer) ?? null),
+      save: (consumer, token) => {
+        tokens.set(consumer, token);
+        return Promise.resolve();
+      },
+    };
+
+    const delivered: string[] = [];
+    const errors: number[] = [];
+    let failures = 1;
+    const watcher = watchResumable(items, {
+      consumer: "projection",
+      store,
+      pipeline: [{ $match: { operationType: "insert" } }],
+      backoff: { initialDelay: 10 },
+      onError: (_error, attempt) => errors.push(attempt),
+    }, async (change, ack) => {
+      delivered.push(insertedName(change)!);
+      if (insertedName(change) === "b" && failures-- > 0) {
+        throw new Error("Projection failed");
+      }
+      await ack();
+    });
+    await streamReady();
+    await items.insertMany([{ name: "a" }, { name: "b" }, { name: "c" }]);
+    await eventsProcessed();
+    await watcher.close();
+
+    assertEquals(delivered, ["a", "b", "b", "c"]);
+    assertEquals(errors, [1]);
+    assertEquals(tokens.has("projection"), true);
+  });
+});
+
+Deno.test("watchResumable: a throwing onError doesn't stop the watcher", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const items = db.collection("items");
+
+    const delivered: string[] = [];
+    let failures = 1;
+    const watcher = watchResumable(items, {
+      consumer: "projection",
+      store: mongoResumeTokenStore(db),
+      pipeline: [{ $match: { operationType: "insert" } }],
+      backoff: { initialDelay: 10 },
+      onError: () => {
+        throw new Error("Reporting failed");
+      },
+    }, async (change, ack) => {
+      delivered.push(insertedName(change)!);
+      if (failures-- > 0) {
+        throw new Error("Projection failed");
+      }
+      await ack();
+    });
+    await streamReady();
+    await items.insertOne({ name: "a" });
+    await eventsProcessed();
+    await watcher.close();
+
+    assertEquals(delivered, ["a", "a"]);
+  });
+});
+
+Deno.test("watchResumable: an invalidate event stops the watcher", async (t) => {
+  await withDatabase(t.name, async (db) => {
+    const items = db.collection("items");
+    await items.insertOne({ name: "a" });
+
+    const operations: string[] = [];
+    const watcher = watchResumable(items, {
+      consumer: "projection",
+      store: mongoResumeTokenStore(db),
+      backoff: { initialDelay: 10 },
+    }, async (change, ack) => {
+      operations.push(change.operationType);
+      await ack();
+    });
+    await streamReady();
+    await items.drop();
+    await eventsProcessed();
+
+    // Not delivered: the watcher stopped instead of reconnecting
+    await items.insertOne({ name: "b" });
+    await eventsProcessed();
+    await watcher.close();
+
+    assertEquals(operations, ["drop", "invalidate"]);
+  });
+});